@@ -1,74 +1,127 @@
-import { Image, StyleSheet, Platform } from 'react-native';
+import { Link } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { FlatList, Pressable, StyleSheet, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-import { HelloWave } from '@/components/HelloWave';
-import ParallaxScrollView from '@/components/ParallaxScrollView';
+import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedText } from '@/components/ThemedText';
+import { ThemedTextInput } from '@/components/ThemedTextInput';
 import { ThemedView } from '@/components/ThemedView';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useServices } from '@/hooks/useServices';
+import { useSessions } from '@/hooks/useSessions';
+import { sessionStatus } from '@/services/lifecycle';
+import { SessionStatus } from '@/types/database';
+
+/** Drafts are still being set up and archived hunts are put away, so neither is listed */
+const LISTED_STATUSES: SessionStatus[] = ['scheduled', 'running', 'paused', 'ended'];
+
+export default function LobbyScreen() {
+  const insets = useSafeAreaInsets();
+  const { data: user, userId } = useCurrentUser();
+  const { data: sessions, loading, error } = useSessions();
+
+  const hunts = useMemo(
+    () =>
+      Object.entries(sessions ?? {})
+        .map(([sessionId, session]) => ({ sessionId, session, status: sessionStatus(session) }))
+        .filter(({ status }) => LISTED_STATUSES.includes(status))
+        .sort((a, b) => a.session.startTime - b.session.startTime),
+    [sessions],
+  );
 
-export default function HomeScreen() {
   return (
-    <ParallaxScrollView
-      headerBackgroundColor={{ light: '#A1CEDC', dark: '#1D3D47' }}
-      headerImage={
-        <Image
-          source={require('@/assets/images/partial-react-logo.png')}
-          style={styles.reactLogo}
-        />
-      }>
-      <ThemedView style={styles.titleContainer}>
-        <ThemedText type="title">Welcome!</ThemedText>
-        <HelloWave />
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 1: Try it</ThemedText>
-        <ThemedText>
-          Edit <ThemedText type="defaultSemiBold">app/(tabs)/index.tsx</ThemedText> to see changes.
-          Press{' '}
-          <ThemedText type="defaultSemiBold">
-            {Platform.select({
-              ios: 'cmd + d',
-              android: 'cmd + m',
-              web: 'F12'
-            })}
-          </ThemedText>{' '}
-          to open developer tools.
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 2: Explore</ThemedText>
-        <ThemedText>
-          Tap the Explore tab to learn more about what's included in this starter app.
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 3: Get a fresh start</ThemedText>
+    <ThemedView style={[styles.container, { paddingTop: insets.top + 16 }]}>
+      <ThemedText type="title">Hunts</ThemedText>
+      {userId === null ? (
+        <SignIn />
+      ) : (
         <ThemedText>
-          When you're ready, run{' '}
-          <ThemedText type="defaultSemiBold">npm run reset-project</ThemedText> to get a fresh{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> directory. This will move the current{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> to{' '}
-          <ThemedText type="defaultSemiBold">app-example</ThemedText>.
+          {user ? `Playing as ${user.displayName || userId}` : `No player with the ID ${userId}`}
         </ThemedText>
-      </ThemedView>
-    </ParallaxScrollView>
+      )}
+      <Link href="/join" style={styles.invite}>
+        <ThemedText type="link">Have an invite code?</ThemedText>
+      </Link>
+      {error && <ThemedText>{error.message}</ThemedText>}
+      <FlatList
+        data={hunts}
+        keyExtractor={(hunt) => hunt.sessionId}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={loading ? null : <ThemedText>No hunts to join yet.</ThemedText>}
+        renderItem={({ item }) => (
+          <Link href={{ pathname: '/session/[sessionId]', params: { sessionId: item.sessionId } }} asChild>
+            <Pressable style={styles.hunt}>
+              <View style={styles.huntTitle}>
+                <ThemedText type="defaultSemiBold">{item.session.sessionName || 'Untitled hunt'}</ThemedText>
+                {user?.sessionsJoined[item.sessionId] && <ThemedText>Joined</ThemedText>}
+              </View>
+              <ThemedText>
+                {item.status} · {Object.keys(item.session.participants).length} players ·{' '}
+                {Object.keys(item.session.teams).length} teams
+              </ThemedText>
+            </Pressable>
+          </Link>
+        )}
+      />
+    </ThemedView>
+  );
+}
+
+/**
+ * Picks the player this device plays as, until the app has real sign-in
+ */
+function SignIn() {
+  const { setCurrentUserId } = useServices();
+  const [playerId, setPlayerId] = useState('');
+
+  return (
+    <View style={styles.signIn}>
+      <ThemedTextInput
+        value={playerId}
+        onChangeText={setPlayerId}
+        placeholder="Player ID"
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={styles.input}
+      />
+      <ThemedButton
+        title="Play"
+        disabled={playerId.trim() === ''}
+        onPress={() => setCurrentUserId(playerId.trim())}
+      />
+    </View>
   );
 }
 
 const styles = StyleSheet.create({
-  titleContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  list: {
     gap: 8,
+    paddingBottom: 32,
   },
-  stepContainer: {
+  hunt: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#9BA1A6',
+  },
+  huntTitle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  invite: {
+    alignSelf: 'flex-start',
+  },
+  signIn: {
+    flexDirection: 'row',
     gap: 8,
-    marginBottom: 8,
   },
-  reactLogo: {
-    height: 178,
-    width: 290,
-    bottom: 0,
-    left: 0,
-    position: 'absolute',
+  input: {
+    flex: 1,
   },
 });
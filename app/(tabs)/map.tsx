@@ -0,0 +1,97 @@
+import { useMemo } from 'react';
+import { ActivityIndicator, StyleSheet, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { buildArtifactMarkers, MarkerColors } from '@/components/artifactMarkers';
+import { HuntMap } from '@/components/HuntMap';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useSessionArtifacts } from '@/hooks/useSessionArtifacts';
+
+const LEGEND = [
+  { label: 'To find', color: MarkerColors.artifact },
+  { label: 'Challenge', color: MarkerColors.challenge },
+  { label: 'Found', color: MarkerColors.found },
+];
+
+export default function MapScreen() {
+  const insets = useSafeAreaInsets();
+  const { data: user, loading: userLoading } = useCurrentUser();
+  const sessionId = user?.currentSession ?? null;
+  const { data: artifacts, loading, error } = useSessionArtifacts(sessionId);
+
+  const foundArtifacts = sessionId ? user?.sessionsJoined[sessionId]?.foundArtifacts : undefined;
+  const markers = useMemo(
+    () => buildArtifactMarkers(artifacts ?? {}, foundArtifacts),
+    [artifacts, foundArtifacts],
+  );
+
+  // The map frames its markers only when it first appears, so wait until they are known
+  if (userLoading || loading) {
+    return (
+      <ThemedView style={styles.message}>
+        <ActivityIndicator />
+        <ThemedText>Loading the hunt map…</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if (sessionId === null || error) {
+    return (
+      <ThemedView style={styles.message}>
+        <ThemedText type="subtitle">Hunt map</ThemedText>
+        <ThemedText>{error ? error.message : 'Join a hunt to see its artifacts here.'}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <HuntMap markers={markers} style={styles.map} />
+      <ThemedView style={[styles.legend, { top: insets.top + 8 }]}>
+        {LEGEND.map(({ label, color }) => (
+          <View key={label} style={styles.legendItem}>
+            <View style={[styles.swatch, { backgroundColor: color }]} />
+            <ThemedText>{label}</ThemedText>
+          </View>
+        ))}
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  map: {
+    flex: 1,
+  },
+  message: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    padding: 24,
+  },
+  legend: {
+    position: 'absolute',
+    left: 16,
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  swatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+});
@@ -0,0 +1,113 @@
+import { Link, useRouter } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { FlatList, Pressable, StyleSheet, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedTextInput } from '@/components/ThemedTextInput';
+import { ThemedView } from '@/components/ThemedView';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useOrganizerActions } from '@/hooks/useOrganizerActions';
+import { useSessions } from '@/hooks/useSessions';
+import { sessionStatus } from '@/services/lifecycle';
+
+/**
+ * The hunts the signed-in user runs (every hunt, for admins), and a form to start a new one
+ */
+export default function OrganizeScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { data: user, userId } = useCurrentUser();
+  const { data: sessions, loading } = useSessions();
+  const { pending, error, createSession } = useOrganizerActions();
+  const [sessionName, setSessionName] = useState('');
+
+  const hunts = useMemo(
+    () =>
+      Object.entries(sessions ?? {})
+        .filter(([, session]) => user?.isAdmin || session.creatorId === userId)
+        .map(([sessionId, session]) => ({ sessionId, session, status: sessionStatus(session) }))
+        .sort((a, b) => a.session.sessionName.localeCompare(b.session.sessionName)),
+    [sessions, user, userId],
+  );
+
+  const onCreate = async () => {
+    const sessionId = await createSession(sessionName.trim());
+    if (sessionId) {
+      setSessionName('');
+      router.push({ pathname: '/organize/[sessionId]', params: { sessionId } });
+    }
+  };
+
+  return (
+    <ThemedView style={[styles.container, { paddingTop: insets.top + 16 }]}>
+      <ThemedText type="title">Organize</ThemedText>
+      {userId === null ? (
+        <ThemedText>Sign in on the Hunts tab to organize a hunt.</ThemedText>
+      ) : (
+        <View style={styles.form}>
+          <ThemedTextInput
+            value={sessionName}
+            onChangeText={setSessionName}
+            placeholder="New hunt name"
+            style={styles.input}
+          />
+          <ThemedButton
+            title={pending === 'createSession' ? 'Creating…' : 'Create'}
+            disabled={pending !== null || sessionName.trim() === ''}
+            onPress={onCreate}
+          />
+        </View>
+      )}
+      {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+      <FlatList
+        data={userId === null ? [] : hunts}
+        keyExtractor={(hunt) => hunt.sessionId}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          loading || userId === null ? null : <ThemedText>You aren't running any hunts yet.</ThemedText>
+        }
+        renderItem={({ item }) => (
+          <Link href={{ pathname: '/organize/[sessionId]', params: { sessionId: item.sessionId } }} asChild>
+            <Pressable style={styles.hunt}>
+              <ThemedText type="defaultSemiBold">{item.session.sessionName || 'Untitled hunt'}</ThemedText>
+              <ThemedText>
+                {item.status} · {Object.keys(item.session.artifacts).length} artifacts ·{' '}
+                {Object.keys(item.session.teams).length} teams
+              </ThemedText>
+            </Pressable>
+          </Link>
+        )}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  form: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+  },
+  error: {
+    color: '#D93F0B',
+  },
+  list: {
+    gap: 8,
+    paddingBottom: 32,
+  },
+  hunt: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#9BA1A6',
+  },
+});
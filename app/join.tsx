@@ -0,0 +1,59 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { StyleSheet } from 'react-native';
+
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedTextInput } from '@/components/ThemedTextInput';
+import { ThemedView } from '@/components/ThemedView';
+import { useInviteActions } from '@/hooks/useInviteActions';
+import { useServices } from '@/hooks/useServices';
+
+/**
+ * Joins a hunt from an invite code, typed in or opened from a scanned
+ * `myapp://join?code=` link, then goes to the hunt's lobby
+ */
+export default function JoinScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ code?: string }>();
+  const { currentUserId } = useServices();
+  const { pending, error, redeem } = useInviteActions();
+  const [code, setCode] = useState(params.code ?? '');
+
+  const onJoin = async () => {
+    const invite = await redeem(code);
+    if (invite) {
+      router.replace({ pathname: '/session/[sessionId]', params: { sessionId: invite.sessionId } });
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      {currentUserId === null && <ThemedText>Sign in on the Hunts tab, then open the invite again.</ThemedText>}
+      <ThemedTextInput
+        value={code}
+        onChangeText={setCode}
+        placeholder="Invite code"
+        autoCapitalize="characters"
+        autoCorrect={false}
+      />
+      {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+      <ThemedButton
+        title={pending === 'redeem' ? 'Joining…' : 'Join hunt'}
+        disabled={pending !== null || currentUserId === null || code.trim() === ''}
+        onPress={onJoin}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    gap: 12,
+  },
+  error: {
+    color: '#D93F0B',
+  },
+});
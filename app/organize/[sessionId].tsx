@@ -0,0 +1,542 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { useState } from 'react';
+import { ScrollView, StyleSheet, Switch, View } from 'react-native';
+
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedTextInput } from '@/components/ThemedTextInput';
+import { ThemedView } from '@/components/ThemedView';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { ArtifactDraft, useOrganizerActions } from '@/hooks/useOrganizerActions';
+import { useSession } from '@/hooks/useSession';
+import { useSessionArtifacts } from '@/hooks/useSessionArtifacts';
+import { useSessionInvites } from '@/hooks/useSessionInvites';
+import { useTeam } from '@/hooks/useTeam';
+import { inviteLink, InviteOptions } from '@/services/InviteService';
+import { canTransition, sessionStatus } from '@/services/lifecycle';
+import { DEFAULT_ARTIFACT_POINTS } from '@/services/scoring';
+import { Invite, SessionStatus } from '@/types/database';
+
+const EMPTY_DRAFT: ArtifactDraft = {
+  name: '',
+  description: '',
+  locationHint: '',
+  latitude: '',
+  longitude: '',
+  isChallenge: false,
+  points: '',
+  challengeBonus: '',
+  claimRadius: '',
+  imageUrl: '',
+  audioUrl: '',
+};
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/** Buttons for moving between statuses, in the order a hunt usually goes through them */
+const STATUS_ACTIONS: { status: SessionStatus; title: (from: SessionStatus) => string }[] = [
+  { status: 'draft', title: () => 'Back to draft' },
+  { status: 'scheduled', title: () => 'Schedule' },
+  { status: 'running', title: (from) => (from === 'paused' ? 'Resume' : 'Start') },
+  { status: 'paused', title: () => 'Pause' },
+  { status: 'ended', title: () => 'End' },
+  { status: 'archived', title: () => 'Archive' },
+];
+
+/**
+ * Sets up and runs one hunt: its name and times, artifacts, teams, players and
+ * invites, and its status. Only the hunt's creator and admins get past the gate; the
+ * services check every change again.
+ */
+export default function OrganizeSessionScreen() {
+  const { sessionId } = useLocalSearchParams<{ sessionId: string }>();
+  const { data: session, loading } = useSession(sessionId ?? null);
+  const { data: artifacts } = useSessionArtifacts(sessionId ?? null);
+  const { data: user, userId } = useCurrentUser();
+  const actions = useOrganizerActions();
+  const { pending, error } = actions;
+
+  const [sessionName, setSessionName] = useState<string | null>(null);
+  const [startsIn, setStartsIn] = useState('0');
+  const [lasts, setLasts] = useState('60');
+  const [draft, setDraft] = useState<ArtifactDraft>(EMPTY_DRAFT);
+  const [teamName, setTeamName] = useState('');
+  const [maxTeamSize, setMaxTeamSize] = useState<string | null>(null);
+
+  if (!session) {
+    return (
+      <ThemedView style={styles.container}>
+        <Stack.Screen options={{ title: 'Organize' }} />
+        {!loading && <ThemedText>This hunt no longer exists.</ThemedText>}
+      </ThemedView>
+    );
+  }
+
+  if (userId === null || (!user?.isAdmin && session.creatorId !== userId)) {
+    return (
+      <ThemedView style={styles.container}>
+        <Stack.Screen options={{ title: 'Organize' }} />
+        <ThemedText>Only this hunt's organizer can manage it.</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const status = sessionStatus(session);
+  const busy = pending !== null;
+  const teamIds = Object.keys(session.teams);
+  const players = Object.entries(session.participants).sort(([a], [b]) => a.localeCompare(b));
+  const hasUnassigned = players.some(([, teamId]) => !teamId);
+  const artifactList = Object.entries(artifacts ?? {}).sort(([, a], [, b]) => a.name.localeCompare(b.name));
+
+  const setField = (field: keyof ArtifactDraft) => (value: string) => setDraft({ ...draft, [field]: value });
+
+  const onCreateArtifact = async () => {
+    if (await actions.createArtifact(sessionId, draft)) {
+      setDraft(EMPTY_DRAFT);
+    }
+  };
+
+  const onSetMaxTeamSize = async () => {
+    if (await actions.setMaxTeamSize(sessionId, Number(maxTeamSize || 0))) {
+      setMaxTeamSize(null);
+    }
+  };
+
+  const onCreateTeam = async () => {
+    if (await actions.createTeam(sessionId, teamName.trim())) {
+      setTeamName('');
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: session.sessionName || 'Organize' }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+
+        <ThemedText type="subtitle">Status: {status}</ThemedText>
+        <View style={styles.row}>
+          {STATUS_ACTIONS.filter((action) => canTransition(status, action.status)).map((action) => (
+            <ThemedButton
+              key={action.status}
+              title={action.title(status)}
+              type={action.status === 'running' ? 'primary' : 'secondary'}
+              disabled={busy}
+              onPress={() => actions.setStatus(sessionId, action.status)}
+            />
+          ))}
+        </View>
+
+        <ThemedText type="subtitle">Name</ThemedText>
+        <View style={styles.row}>
+          <ThemedTextInput
+            value={sessionName ?? session.sessionName}
+            onChangeText={setSessionName}
+            placeholder="Hunt name"
+            style={styles.input}
+          />
+          <ThemedButton
+            title="Rename"
+            disabled={busy || sessionName === null || sessionName.trim() === ''}
+            onPress={async () => {
+              if (await actions.rename(sessionId, sessionName!.trim())) setSessionName(null);
+            }}
+          />
+        </View>
+
+        <ThemedText type="subtitle">Times</ThemedText>
+        <ThemedText>
+          {session.startTime > 0
+            ? `${new Date(session.startTime).toLocaleString()} to ${new Date(session.endTime).toLocaleString()}`
+            : 'Not set'}
+        </ThemedText>
+        <View style={styles.row}>
+          <ThemedTextInput
+            value={startsIn}
+            onChangeText={setStartsIn}
+            placeholder="Starts in (minutes)"
+            keyboardType="number-pad"
+            style={styles.input}
+          />
+          <ThemedTextInput
+            value={lasts}
+            onChangeText={setLasts}
+            placeholder="Lasts (minutes)"
+            keyboardType="number-pad"
+            style={styles.input}
+          />
+          <ThemedButton
+            title="Set times"
+            disabled={busy}
+            onPress={() => actions.setTimes(sessionId, startsIn, lasts)}
+          />
+        </View>
+
+        <ThemedText type="subtitle">Artifacts</ThemedText>
+        {artifactList.length === 0 && <ThemedText>This hunt has no artifacts yet.</ThemedText>}
+        {artifactList.map(([artifactId, artifact]) => (
+          <View key={artifactId} style={styles.card}>
+            <ThemedText type="defaultSemiBold">
+              {artifact.name}
+              {artifact.isChallenge ? ' (challenge)' : ''}
+            </ThemedText>
+            <ThemedText>
+              {artifact.points ?? DEFAULT_ARTIFACT_POINTS} points ·{' '}
+              {artifact.latitude.toFixed(5)}, {artifact.longitude.toFixed(5)}
+            </ThemedText>
+          </View>
+        ))}
+        <View style={styles.card}>
+          <ThemedTextInput value={draft.name} onChangeText={setField('name')} placeholder="Name" />
+          <ThemedTextInput
+            value={draft.description}
+            onChangeText={setField('description')}
+            placeholder="Description"
+            multiline
+          />
+          <ThemedTextInput
+            value={draft.locationHint}
+            onChangeText={setField('locationHint')}
+            placeholder="Location hint"
+          />
+          <View style={styles.row}>
+            <ThemedTextInput
+              value={draft.latitude}
+              onChangeText={setField('latitude')}
+              placeholder="Latitude"
+              keyboardType="numbers-and-punctuation"
+              style={styles.input}
+            />
+            <ThemedTextInput
+              value={draft.longitude}
+              onChangeText={setField('longitude')}
+              placeholder="Longitude"
+              keyboardType="numbers-and-punctuation"
+              style={styles.input}
+            />
+          </View>
+          <View style={styles.row}>
+            <ThemedTextInput
+              value={draft.points}
+              onChangeText={setField('points')}
+              placeholder="Points"
+              keyboardType="number-pad"
+              style={styles.input}
+            />
+            <ThemedTextInput
+              value={draft.claimRadius}
+              onChangeText={setField('claimRadius')}
+              placeholder="Claim radius (m)"
+              keyboardType="number-pad"
+              style={styles.input}
+            />
+          </View>
+          <View style={styles.row}>
+            <ThemedText style={styles.input}>Challenge</ThemedText>
+            <Switch
+              value={draft.isChallenge}
+              onValueChange={(isChallenge) => setDraft({ ...draft, isChallenge })}
+            />
+          </View>
+          {draft.isChallenge && (
+            <ThemedTextInput
+              value={draft.challengeBonus}
+              onChangeText={setField('challengeBonus')}
+              placeholder="Challenge bonus"
+              keyboardType="number-pad"
+            />
+          )}
+          <ThemedTextInput
+            value={draft.imageUrl}
+            onChangeText={setField('imageUrl')}
+            placeholder="Image URL"
+            autoCapitalize="none"
+            keyboardType="url"
+          />
+          <ThemedTextInput
+            value={draft.audioUrl}
+            onChangeText={setField('audioUrl')}
+            placeholder="Audio URL"
+            autoCapitalize="none"
+            keyboardType="url"
+          />
+          <ThemedButton
+            title={pending === 'createArtifact' ? 'Adding…' : 'Add artifact'}
+            disabled={busy}
+            onPress={onCreateArtifact}
+          />
+        </View>
+
+        <ThemedText type="subtitle">Teams</ThemedText>
+        {teamIds.length === 0 && <ThemedText>This hunt has no teams yet.</ThemedText>}
+        {teamIds.map((teamId) => (
+          <TeamRow key={teamId} teamId={teamId} maxTeamSize={session.maxTeamSize ?? 0} />
+        ))}
+        <View style={styles.row}>
+          <ThemedTextInput
+            value={maxTeamSize ?? (session.maxTeamSize ? String(session.maxTeamSize) : '')}
+            onChangeText={setMaxTeamSize}
+            placeholder="Team size limit (blank for none)"
+            keyboardType="number-pad"
+            style={styles.input}
+          />
+          <ThemedButton
+            title="Set limit"
+            disabled={busy || maxTeamSize === null}
+            onPress={onSetMaxTeamSize}
+          />
+        </View>
+        <View style={styles.row}>
+          <ThemedTextInput
+            value={teamName}
+            onChangeText={setTeamName}
+            placeholder="New team name"
+            style={styles.input}
+          />
+          <ThemedButton
+            title="Add team"
+            disabled={busy || teamName.trim() === ''}
+            onPress={onCreateTeam}
+          />
+        </View>
+
+        <ThemedText type="subtitle">Players</ThemedText>
+        {players.length === 0 && <ThemedText>Nobody has joined this hunt yet.</ThemedText>}
+        {status === 'running' && hasUnassigned && teamIds.length > 0 && (
+          <View style={styles.row}>
+            <ThemedButton
+              title={pending === 'autoAssign' ? 'Assigning…' : 'Balance teams'}
+              type="secondary"
+              disabled={busy}
+              onPress={() => actions.autoAssign(sessionId, 'by-id')}
+            />
+            <ThemedButton
+              title="Shuffle into teams"
+              type="secondary"
+              disabled={busy}
+              onPress={() => actions.autoAssign(sessionId, 'shuffled')}
+            />
+          </View>
+        )}
+        {players.map(([playerId, teamId]) => (
+          <PlayerRow
+            key={playerId}
+            playerId={playerId}
+            teamId={teamId}
+            teamIds={teamIds}
+            disabled={busy}
+            onMove={(toTeamId) => actions.movePlayer(sessionId, playerId, toTeamId)}
+          />
+        ))}
+
+        <ThemedText type="subtitle">Invites</ThemedText>
+        <InvitesSection
+          sessionId={sessionId}
+          teamIds={teamIds}
+          busy={busy}
+          onCreate={(options) => actions.createInvite(sessionId, options)}
+          onRevoke={actions.revokeInvite}
+        />
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+function TeamRow({ teamId, maxTeamSize }: { teamId: string; maxTeamSize: number }) {
+  const { data: team } = useTeam(teamId);
+  const memberCount = Object.keys(team?.members ?? {}).length;
+
+  return (
+    <View style={styles.card}>
+      <ThemedText type="defaultSemiBold">{team?.teamName || 'Unnamed team'}</ThemedText>
+      <ThemedText>
+        {maxTeamSize > 0 ? `${memberCount} of ${maxTeamSize}` : memberCount}{' '}
+        {(maxTeamSize || memberCount) === 1 ? 'member' : 'members'}
+      </ThemedText>
+    </View>
+  );
+}
+
+type PlayerRowProps = {
+  playerId: string;
+  teamId: string;
+  teamIds: string[];
+  disabled: boolean;
+  onMove: (teamId: string) => void;
+};
+
+function PlayerRow({ playerId, teamId, teamIds, disabled, onMove }: PlayerRowProps) {
+  return (
+    <View style={styles.card}>
+      <ThemedText type="defaultSemiBold">{playerId}</ThemedText>
+      <View style={styles.row}>
+        {teamIds.map((id) => (
+          <TeamButton
+            key={id}
+            teamId={id}
+            isCurrent={id === teamId}
+            disabled={disabled}
+            onPress={() => onMove(id)}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+type TeamButtonProps = {
+  teamId: string;
+  isCurrent: boolean;
+  disabled: boolean;
+  onPress: () => void;
+};
+
+/** Moves a player to the team; the player's current team is shown but can't be picked */
+function TeamButton({ teamId, isCurrent, disabled, onPress }: TeamButtonProps) {
+  const { data: team } = useTeam(teamId);
+
+  return (
+    <ThemedButton
+      title={team?.teamName || 'Unnamed team'}
+      type={isCurrent ? 'primary' : 'secondary'}
+      disabled={disabled || isCurrent}
+      onPress={onPress}
+    />
+  );
+}
+
+type InvitesSectionProps = {
+  sessionId: string;
+  teamIds: string[];
+  busy: boolean;
+  onCreate: (options: InviteOptions) => Promise<boolean>;
+  onRevoke: (code: string) => void;
+};
+
+/**
+ * The session's invite codes, with the link a QR code for each should carry, and a
+ * form for a new one. Blank limits mean the invite never expires or runs out.
+ */
+function InvitesSection({ sessionId, teamIds, busy, onCreate, onRevoke }: InvitesSectionProps) {
+  const { data: invites } = useSessionInvites(sessionId);
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [expiresIn, setExpiresIn] = useState('');
+  const [maxUses, setMaxUses] = useState('');
+
+  const inviteList = Object.entries(invites ?? {}).sort(([, a], [, b]) => a.createdAt - b.createdAt);
+
+  const onCreateInvite = async () => {
+    const created = await onCreate({
+      teamId: teamId ?? undefined,
+      expiresAt: expiresIn.trim() ? Date.now() + Number(expiresIn) * HOUR : 0,
+      maxUses: maxUses.trim() ? Number(maxUses) : 0,
+    });
+    if (created) {
+      setExpiresIn('');
+      setMaxUses('');
+    }
+  };
+
+  return (
+    <>
+      {inviteList.length === 0 && <ThemedText>This hunt has no invites yet.</ThemedText>}
+      {inviteList.map(([code, invite]) => (
+        <InviteRow key={code} code={code} invite={invite} busy={busy} onRevoke={() => onRevoke(code)} />
+      ))}
+      <View style={styles.card}>
+        <View style={styles.row}>
+          <ThemedButton
+            title="Whole hunt"
+            type={teamId === null ? 'primary' : 'secondary'}
+            onPress={() => setTeamId(null)}
+          />
+          {teamIds.map((id) => (
+            <TeamButton
+              key={id}
+              teamId={id}
+              isCurrent={id === teamId}
+              disabled={false}
+              onPress={() => setTeamId(id)}
+            />
+          ))}
+        </View>
+        <View style={styles.row}>
+          <ThemedTextInput
+            value={expiresIn}
+            onChangeText={setExpiresIn}
+            placeholder="Expires in (hours)"
+            keyboardType="number-pad"
+            style={styles.input}
+          />
+          <ThemedTextInput
+            value={maxUses}
+            onChangeText={setMaxUses}
+            placeholder="Max uses"
+            keyboardType="number-pad"
+            style={styles.input}
+          />
+        </View>
+        <ThemedButton title="Create invite" disabled={busy} onPress={onCreateInvite} />
+      </View>
+    </>
+  );
+}
+
+type InviteRowProps = {
+  code: string;
+  invite: Invite;
+  busy: boolean;
+  onRevoke: () => void;
+};
+
+function InviteRow({ code, invite, busy, onRevoke }: InviteRowProps) {
+  const { data: team } = useTeam(invite.teamId ?? null);
+  const uses = Object.keys(invite.redemptions).length;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.row}>
+        <ThemedText type="subtitle" style={styles.input}>
+          {code}
+        </ThemedText>
+        <ThemedButton title="Revoke" type="secondary" disabled={busy} onPress={onRevoke} />
+      </View>
+      <ThemedText>
+        {invite.teamId ? `Joins ${team?.teamName || 'a team'}` : 'Joins the hunt'} · {uses}
+        {invite.maxUses > 0 ? ` of ${invite.maxUses}` : ''} used
+        {invite.expiresAt > 0 ? ` · expires ${new Date(invite.expiresAt).toLocaleString()}` : ''}
+      </ThemedText>
+      <ThemedText selectable>{inviteLink(code)}</ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  error: {
+    color: '#D93F0B',
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+  },
+  card: {
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#9BA1A6',
+  },
+});
@@ -0,0 +1,134 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { LobbyAction, useLobbyActions } from '@/hooks/useLobbyActions';
+import { useSession } from '@/hooks/useSession';
+import { useTeam } from '@/hooks/useTeam';
+import { sessionStatus } from '@/services/lifecycle';
+
+/**
+ * A hunt's lobby: join or leave it, and pick, switch or leave a team
+ */
+export default function SessionLobbyScreen() {
+  const { sessionId } = useLocalSearchParams<{ sessionId: string }>();
+  const { data: session, loading } = useSession(sessionId ?? null);
+  const { data: user } = useCurrentUser();
+  const { pending, error, join, leave, pickTeam, leaveTeam } = useLobbyActions(sessionId);
+
+  if (!session) {
+    return (
+      <ThemedView style={styles.container}>
+        <Stack.Screen options={{ title: 'Hunt' }} />
+        {!loading && <ThemedText>This hunt no longer exists.</ThemedText>}
+      </ThemedView>
+    );
+  }
+
+  const joined = user?.sessionsJoined[sessionId];
+  const myTeamId = joined?.teamId || null;
+  const teamIds = Object.keys(session.teams);
+  const busy = pending !== null;
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: session.sessionName || 'Hunt' }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText>
+          {sessionStatus(session)} · {Object.keys(session.participants).length} players
+        </ThemedText>
+        {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+
+        {joined ? (
+          <ThemedButton title="Leave hunt" type="secondary" disabled={busy} onPress={leave} />
+        ) : (
+          <ThemedButton title="Join hunt" disabled={busy} onPress={join} />
+        )}
+
+        <ThemedText type="subtitle">Teams</ThemedText>
+        {teamIds.length === 0 && <ThemedText>This hunt has no teams yet.</ThemedText>}
+        {teamIds.map((teamId) => (
+          <TeamRow
+            key={teamId}
+            teamId={teamId}
+            isMine={teamId === myTeamId}
+            maxTeamSize={session.maxTeamSize ?? 0}
+            canPick={joined !== undefined && !busy}
+            pending={pending}
+            onPick={() => pickTeam(teamId)}
+            onLeave={leaveTeam}
+          />
+        ))}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+type TeamRowProps = {
+  teamId: string;
+  isMine: boolean;
+  maxTeamSize: number;
+  canPick: boolean;
+  pending: LobbyAction | null;
+  onPick: () => void;
+  onLeave: () => void;
+};
+
+function TeamRow({ teamId, isMine, maxTeamSize, canPick, pending, onPick, onLeave }: TeamRowProps) {
+  const { data: team } = useTeam(teamId);
+  const memberCount = Object.keys(team?.members ?? {}).length;
+  const isFull = maxTeamSize > 0 && memberCount >= maxTeamSize;
+
+  return (
+    <View style={styles.team}>
+      <View style={styles.teamName}>
+        <ThemedText type="defaultSemiBold">
+          {team?.teamName || 'Unnamed team'}
+          {isMine ? ' (your team)' : ''}
+        </ThemedText>
+        <ThemedText>
+          {maxTeamSize > 0 ? `${memberCount} of ${maxTeamSize}` : memberCount}{' '}
+          {(maxTeamSize || memberCount) === 1 ? 'member' : 'members'}
+        </ThemedText>
+      </View>
+      {isMine ? (
+        <ThemedButton
+          title={pending === 'leaveTeam' ? 'Leaving…' : 'Leave'}
+          type="secondary"
+          disabled={!canPick}
+          onPress={onLeave}
+        />
+      ) : (
+        <ThemedButton title={isFull ? 'Full' : 'Pick'} disabled={!canPick || isFull} onPress={onPick} />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  error: {
+    color: '#D93F0B',
+  },
+  team: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#9BA1A6',
+  },
+  teamName: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,31 @@
+import { StyleProp, ViewStyle } from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+
+import { ArtifactMarker, markerColor, regionFor } from '@/components/artifactMarkers';
+
+export type HuntMapProps = {
+  markers: ArtifactMarker[];
+  style?: StyleProp<ViewStyle>;
+};
+
+/**
+ * Native map of a hunt's artifacts. Tapping a marker shows the artifact's name and
+ * location hint. The map is framed on the markers it first renders with, so mount it
+ * once they have loaded. See HuntMap.web.tsx for the browser version.
+ */
+export function HuntMap({ markers, style }: HuntMapProps) {
+  return (
+    <MapView style={style} initialRegion={regionFor(markers)} showsUserLocation>
+      {markers.map((marker) => (
+        <Marker
+          key={marker.artifactId}
+          coordinate={{ latitude: marker.latitude, longitude: marker.longitude }}
+          title={marker.isChallenge ? `${marker.name} (challenge)` : marker.name}
+          description={marker.locationHint || 'No hint for this one'}
+          pinColor={markerColor(marker)}
+          opacity={marker.found ? 0.6 : 1}
+        />
+      ))}
+    </MapView>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { LayoutChangeEvent, Pressable, StyleSheet, View } from 'react-native';
+
+import { ArtifactMarker, markerColor, regionFor } from '@/components/artifactMarkers';
+import type { HuntMapProps } from '@/components/HuntMap';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+
+const MARKER_SIZE = 18;
+
+/**
+ * Browser fallback for HuntMap. react-native-maps has no web support, so the artifacts
+ * are plotted by their relative positions on a plain grid; tapping one shows its hint.
+ */
+export function HuntMap({ markers, style }: HuntMapProps) {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [selected, setSelected] = useState<ArtifactMarker | null>(null);
+  const region = regionFor(markers);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  // North is up: latitude grows towards the top, longitude towards the right
+  const position = (marker: ArtifactMarker) => ({
+    left:
+      ((marker.longitude - region.longitude) / region.longitudeDelta + 0.5) * size.width -
+      MARKER_SIZE / 2,
+    top:
+      (0.5 - (marker.latitude - region.latitude) / region.latitudeDelta) * size.height -
+      MARKER_SIZE / 2,
+  });
+
+  return (
+    <ThemedView style={[styles.container, style]} lightColor="#EEF3F5" darkColor="#1D2426">
+      <View style={styles.plot} onLayout={onLayout}>
+        {size.width > 0 &&
+          markers.map((marker) => (
+            <Pressable
+              key={marker.artifactId}
+              accessibilityLabel={marker.name}
+              onPress={() => setSelected(marker)}
+              style={[
+                styles.marker,
+                position(marker),
+                { backgroundColor: markerColor(marker) },
+                selected?.artifactId === marker.artifactId && styles.selectedMarker,
+              ]}
+            />
+          ))}
+      </View>
+      {selected && (
+        <ThemedView style={styles.card}>
+          <ThemedText type="defaultSemiBold">
+            {selected.isChallenge ? `${selected.name} (challenge)` : selected.name}
+          </ThemedText>
+          <ThemedText>{selected.locationHint || 'No hint for this one'}</ThemedText>
+        </ThemedView>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+  plot: {
+    flex: 1,
+  },
+  marker: {
+    position: 'absolute',
+    width: MARKER_SIZE,
+    height: MARKER_SIZE,
+    borderRadius: MARKER_SIZE / 2,
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  selectedMarker: {
+    transform: [{ scale: 1.4 }],
+  },
+  card: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    padding: 12,
+    borderRadius: 8,
+    gap: 4,
+  },
+});
@@ -0,0 +1,80 @@
+import { createContext, PropsWithChildren, useMemo, useState } from 'react';
+
+import { ArtifactService } from '@/services/ArtifactService';
+import { InviteService } from '@/services/InviteService';
+import { SessionService } from '@/services/SessionService';
+import { TeamService } from '@/services/TeamService';
+import { TemplateService } from '@/services/TemplateService';
+import { TransferService } from '@/services/TransferService';
+import { UserService } from '@/services/UserService';
+import { VerificationService } from '@/services/VerificationService';
+import { StorageAdapter } from '@/services/storage/StorageAdapter';
+import { FirebaseStorageAdapter } from '@/services/storage/FirebaseStorageAdapter';
+
+export type ServicesContextValue = {
+  userService: UserService;
+  teamService: TeamService;
+  sessionService: SessionService;
+  artifactService: ArtifactService;
+  verificationService: VerificationService;
+  templateService: TemplateService;
+  transferService: TransferService;
+  inviteService: InviteService;
+  currentUserId: string | null;
+  setCurrentUserId: (userId: string | null) => void;
+};
+
+export const ServicesContext = createContext<ServicesContextValue | null>(null);
+
+export type ServicesProviderProps = PropsWithChildren<{
+  baseNode?: string;
+  storage?: StorageAdapter;
+  initialUserId?: string | null;
+}>;
+
+/**
+ * Makes one shared set of services, bound to the same base node and storage backend,
+ * available to every screen, along with the ID of the user playing on this device.
+ * The services act as that user, so every write is checked against their roles.
+ */
+export function ServicesProvider({
+  baseNode = '',
+  storage,
+  initialUserId = null,
+  children,
+}: ServicesProviderProps) {
+  const [currentUserId, setCurrentUserId] = useState<string | null>(initialUserId);
+
+  const services = useMemo(() => {
+    const backend = storage ?? new FirebaseStorageAdapter();
+    return {
+      userService: new UserService(baseNode, backend),
+      teamService: new TeamService(baseNode, backend),
+      sessionService: new SessionService(baseNode, backend),
+      artifactService: new ArtifactService(baseNode, backend),
+      verificationService: new VerificationService(baseNode, backend),
+      templateService: new TemplateService(baseNode, backend),
+      transferService: new TransferService(baseNode, backend),
+      inviteService: new InviteService(baseNode, backend),
+    };
+  }, [baseNode, storage]);
+
+  const value = useMemo(() => {
+    // Nobody is signed in as '', so a signed-out device holds no roles
+    const actorId = currentUserId ?? '';
+    return {
+      userService: services.userService.asUser(actorId),
+      teamService: services.teamService.asUser(actorId),
+      sessionService: services.sessionService.asUser(actorId),
+      artifactService: services.artifactService.asUser(actorId),
+      verificationService: services.verificationService.asUser(actorId),
+      templateService: services.templateService.asUser(actorId),
+      transferService: services.transferService.asUser(actorId),
+      inviteService: services.inviteService.asUser(actorId),
+      currentUserId,
+      setCurrentUserId,
+    };
+  }, [services, currentUserId]);
+
+  return <ServicesContext.Provider value={value}>{children}</ServicesContext.Provider>;
+}
@@ -0,0 +1,45 @@
+import { Pressable, StyleSheet, Text, type PressableProps, type StyleProp, type ViewStyle } from 'react-native';
+
+import { useThemeColor } from '@/hooks/useThemeColor';
+
+export type ThemedButtonProps = Omit<PressableProps, 'children' | 'style'> & {
+  title: string;
+  type?: 'primary' | 'secondary';
+  style?: StyleProp<ViewStyle>;
+};
+
+export function ThemedButton({ title, type = 'primary', disabled, style, ...rest }: ThemedButtonProps) {
+  const tint = useThemeColor({}, 'tint');
+  const background = useThemeColor({}, 'background');
+
+  return (
+    <Pressable
+      accessibilityRole="button"
+      disabled={disabled}
+      style={({ pressed }) => [
+        styles.button,
+        type === 'primary' ? { backgroundColor: tint } : { borderColor: tint, borderWidth: 1 },
+        (pressed || disabled) && styles.dimmed,
+        style,
+      ]}
+      {...rest}>
+      <Text style={[styles.title, { color: type === 'primary' ? background : tint }]}>{title}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  dimmed: {
+    opacity: 0.5,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,31 @@
+import { StyleSheet, TextInput, type TextInputProps } from 'react-native';
+
+import { useThemeColor } from '@/hooks/useThemeColor';
+
+export type ThemedTextInputProps = TextInputProps & {
+  lightColor?: string;
+  darkColor?: string;
+};
+
+export function ThemedTextInput({ style, lightColor, darkColor, ...rest }: ThemedTextInputProps) {
+  const color = useThemeColor({ light: lightColor, dark: darkColor }, 'text');
+  const placeholderColor = useThemeColor({}, 'icon');
+
+  return (
+    <TextInput
+      placeholderTextColor={placeholderColor}
+      style={[styles.input, { color, borderColor: placeholderColor }, style]}
+      {...rest}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    minHeight: 40,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    fontSize: 16,
+  },
+});
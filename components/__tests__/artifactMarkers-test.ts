@@ -0,0 +1,59 @@
+import { buildArtifactMarkers, DEFAULT_REGION, regionFor } from '@/components/artifactMarkers';
+import { Artifact } from '@/types/database';
+
+function artifact(overrides: Partial<Artifact>): Artifact {
+  return {
+    name: '',
+    description: '',
+    locationHint: '',
+    latitude: 0,
+    longitude: 0,
+    isChallenge: false,
+    points: 10,
+    challengeBonus: 10,
+    ...overrides,
+  };
+}
+
+describe('artifact markers', () => {
+  it('flags found artifacts and leaves unplaced ones off the map', () => {
+    const markers = buildArtifactMarkers(
+      {
+        tower: artifact({ name: 'Tower', latitude: 33.772, longitude: -84.395, isChallenge: true }),
+        bench: artifact({ name: 'Bench', latitude: 33.776, longitude: -84.399, locationHint: 'Shade' }),
+        blank: artifact({}),
+      },
+      { bench: true },
+    );
+
+    expect(markers).toEqual([
+      {
+        artifactId: 'bench',
+        name: 'Bench',
+        locationHint: 'Shade',
+        latitude: 33.776,
+        longitude: -84.399,
+        isChallenge: false,
+        found: true,
+      },
+      {
+        artifactId: 'tower',
+        name: 'Tower',
+        locationHint: '',
+        latitude: 33.772,
+        longitude: -84.395,
+        isChallenge: true,
+        found: false,
+      },
+    ]);
+
+    const region = regionFor(markers);
+    expect(region.latitude).toBeCloseTo(33.774);
+    expect(region.longitude).toBeCloseTo(-84.397);
+    expect(region.latitudeDelta).toBeCloseTo(0.006);
+  });
+
+  it('falls back to the campus without markers', () => {
+    expect(regionFor([])).toBe(DEFAULT_REGION);
+  });
+});
@@ -0,0 +1,90 @@
+import { Artifact } from '@/types/database';
+
+export type ArtifactMarker = {
+  artifactId: string;
+  name: string;
+  locationHint: string;
+  latitude: number;
+  longitude: number;
+  isChallenge: boolean;
+  found: boolean;
+};
+
+export type MapRegion = {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+};
+
+/** Shown before a session has any placed artifacts: the Georgia Tech campus */
+export const DEFAULT_REGION: MapRegion = {
+  latitude: 33.7756,
+  longitude: -84.3963,
+  latitudeDelta: 0.02,
+  longitudeDelta: 0.02,
+};
+
+/** Found artifacts fade out; challenges stand out from regular artifacts */
+export const MarkerColors = {
+  found: '#9BA1A6',
+  challenge: '#E8590C',
+  artifact: '#0a7ea4',
+};
+
+export function markerColor(marker: ArtifactMarker): string {
+  if (marker.found) return MarkerColors.found;
+  return marker.isChallenge ? MarkerColors.challenge : MarkerColors.artifact;
+}
+
+/**
+ * Turns a session's artifacts into map markers, flagging those the player has found.
+ * Artifacts whose coordinates have not been set yet are left off the map.
+ */
+export function buildArtifactMarkers(
+  artifacts: { [artifactId: string]: Artifact },
+  foundArtifacts: { [artifactId: string]: boolean } = {},
+): ArtifactMarker[] {
+  return Object.keys(artifacts)
+    .filter((artifactId) => isPlaced(artifacts[artifactId]))
+    .map((artifactId) => {
+      const artifact = artifacts[artifactId];
+      return {
+        artifactId,
+        name: artifact.name,
+        locationHint: artifact.locationHint,
+        latitude: artifact.latitude,
+        longitude: artifact.longitude,
+        isChallenge: artifact.isChallenge,
+        found: foundArtifacts[artifactId] === true,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Blank artifacts sit at 0, 0 until their coordinates are set */
+function isPlaced(artifact: Artifact): boolean {
+  return artifact.latitude !== 0 || artifact.longitude !== 0;
+}
+
+/** Smallest span shown, so a single marker is not zoomed in to street level */
+const MIN_DELTA = 0.005;
+
+/**
+ * A region that fits every marker with some room around the edges
+ */
+export function regionFor(markers: ArtifactMarker[]): MapRegion {
+  if (markers.length === 0) return DEFAULT_REGION;
+
+  const latitudes = markers.map((marker) => marker.latitude);
+  const longitudes = markers.map((marker) => marker.longitude);
+  const [minLatitude, maxLatitude] = [Math.min(...latitudes), Math.max(...latitudes)];
+  const [minLongitude, maxLongitude] = [Math.min(...longitudes), Math.max(...longitudes)];
+
+  return {
+    latitude: (minLatitude + maxLatitude) / 2,
+    longitude: (minLongitude + maxLongitude) / 2,
+    latitudeDelta: Math.max((maxLatitude - minLatitude) * 1.5, MIN_DELTA),
+    longitudeDelta: Math.max((maxLongitude - minLongitude) * 1.5, MIN_DELTA),
+  };
+}
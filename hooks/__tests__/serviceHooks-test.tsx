@@ -0,0 +1,273 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { ServicesProvider } from '@/components/ServicesProvider';
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useInviteActions } from '@/hooks/useInviteActions';
+import { useLeaderboard } from '@/hooks/useLeaderboard';
+import { lobbyErrorMessage, useLobbyActions } from '@/hooks/useLobbyActions';
+import { ArtifactDraft, useOrganizerActions } from '@/hooks/useOrganizerActions';
+import { useSession } from '@/hooks/useSession';
+import { useSessionArtifacts } from '@/hooks/useSessionArtifacts';
+import { useSessions } from '@/hooks/useSessions';
+import { ArtifactService } from '@/services/ArtifactService';
+import { InviteService, inviteLink } from '@/services/InviteService';
+import { SessionService } from '@/services/SessionService';
+import { TeamService } from '@/services/TeamService';
+import { UserService } from '@/services/UserService';
+import { InvalidAssociationError, TeamFullError } from '@/services/errors';
+import { MemoryStorageAdapter } from '@/services/storage/MemoryStorageAdapter';
+
+const baseNode = 'SchemaTest_Hooks';
+
+/**
+ * Renders a hook inside a ServicesProvider and exposes its latest result.
+ */
+function renderHook<T>(hook: () => T, storage: MemoryStorageAdapter, userId: string | null = null) {
+  const result: { current: T | undefined } = { current: undefined };
+  function Probe() {
+    result.current = hook();
+    return null;
+  }
+  act(() => {
+    renderer.create(
+      <ServicesProvider baseNode={baseNode} storage={storage} initialUserId={userId}>
+        <Probe />
+      </ServicesProvider>
+    );
+  });
+  return result;
+}
+
+const flush = () => act(() => new Promise<void>((resolve) => setTimeout(resolve, 0)));
+
+/**
+ * Runs an action returned by a hook inside act() and resolves to its result.
+ */
+async function perform<T>(action: () => Promise<T>): Promise<T> {
+  let result: T | undefined;
+  await act(async () => {
+    result = await action();
+  });
+  return result as T;
+}
+
+describe('service hooks', () => {
+  let storage: MemoryStorageAdapter;
+  let userService: UserService;
+  let sessionService: SessionService;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    await sessionService.createSession('session1', 'admin1');
+    await sessionService.setStatus('session1', 'running');
+    await userService.createUser('user_A');
+    await userService.createUser('user_B');
+  });
+
+  it('useSession loads the session and follows updates', async () => {
+    const result = renderHook(() => useSession('session1'), storage);
+    expect(result.current).toEqual({ data: null, loading: true, error: null });
+
+    await flush();
+    expect(result.current?.loading).toBe(false);
+    expect(result.current?.data?.creatorId).toBe('admin1');
+
+    await act(() => sessionService.setSessionName('session1', 'Campus Hunt'));
+    expect(result.current?.data?.sessionName).toBe('Campus Hunt');
+  });
+
+  it('useCurrentUser watches the signed-in user only', async () => {
+    const signedOut = renderHook(() => useCurrentUser(), storage);
+    expect(signedOut.current).toEqual({ data: null, loading: false, error: null, userId: null });
+
+    const signedIn = renderHook(() => useCurrentUser(), storage, 'user_A');
+    await flush();
+    expect(signedIn.current?.userId).toBe('user_A');
+
+    await act(() => userService.setDisplayName('user_A', 'Alice'));
+    expect(signedIn.current?.data?.displayName).toBe('Alice');
+  });
+
+  it('useLeaderboard re-ranks players as points change', async () => {
+    await userService.addUserToSession('user_A', 'session1');
+    const result = renderHook(() => useLeaderboard('session1'), storage);
+    await flush();
+    expect(result.current?.data?.players).toEqual([
+      {
+        rank: 1,
+        userId: 'user_A',
+        displayName: '',
+        teamId: '',
+        points: 0,
+        artifactsFound: 0,
+        lastFoundAt: null,
+      },
+    ]);
+
+    await act(async () => {
+      await userService.addUserToSession('user_B', 'session1');
+      await userService.updatePoints('user_B', 'session1', 15, 'Bonus round');
+    });
+    await flush();
+    expect(result.current?.data?.players.map((player) => [player.userId, player.points])).toEqual([
+      ['user_B', 15],
+      ['user_A', 0],
+    ]);
+  });
+
+  it('useSessionArtifacts follows the artifacts placed in a session', async () => {
+    const artifactService = new ArtifactService(baseNode, storage);
+    await artifactService.createArtifact('artifact1');
+    await sessionService.addArtifact('session1', 'artifact1');
+
+    const result = renderHook(() => useSessionArtifacts('session1'), storage);
+    await flush();
+    expect(Object.keys(result.current?.data ?? {})).toEqual(['artifact1']);
+
+    await act(() => artifactService.setCoordinates('artifact1', 33.7756, -84.3963));
+    expect(result.current?.data?.artifact1.latitude).toBe(33.7756);
+  });
+
+  it('useSessions lists sessions as they are created', async () => {
+    const result = renderHook(() => useSessions(), storage);
+    await flush();
+    expect(Object.keys(result.current?.data ?? {})).toEqual(['session1']);
+
+    await act(() => sessionService.createSession('session2', 'admin1'));
+    expect(Object.keys(result.current?.data ?? {})).toEqual(['session1', 'session2']);
+  });
+
+  it('useLobbyActions joins, picks a team and explains failures', async () => {
+    const teamService = new TeamService(baseNode, storage);
+    await teamService.createTeam('team1');
+    await sessionService.addTeam('session1', 'team1');
+
+    const result = renderHook(() => useLobbyActions('session1'), storage, 'user_A');
+    expect(await perform(() => result.current!.join())).toBe(true);
+    expect(await perform(() => result.current!.pickTeam('team1'))).toBe(true);
+    expect(await teamService.listTeamMembers('team1')).toEqual(['user_A']);
+    expect((await userService.getUser('user_A'))?.currentSession).toBe('session1');
+
+    expect(await perform(() => result.current!.leave())).toBe(false);
+    expect(result.current?.error).toBe('Leave your team before leaving the hunt.');
+    expect(await perform(() => result.current!.join())).toBe(false);
+    expect(result.current?.error).toBe("You've already joined this hunt.");
+
+    await perform(() => result.current!.leaveTeam());
+    expect(await perform(() => result.current!.leave())).toBe(true);
+    expect(result.current?.error).toBeNull();
+  });
+
+  it('lobbyErrorMessage falls back for unexpected errors', () => {
+    const wrongTeam = new InvalidAssociationError('Team does not belong to this session', {
+      sessionId: 'session1',
+      teamId: 'team9',
+    });
+    expect(lobbyErrorMessage('pickTeam', wrongTeam)).toBe("That team isn't part of this hunt.");
+    expect(lobbyErrorMessage('pickTeam', new TeamFullError(4, { teamId: 'team1' }))).toBe(
+      'That team is full. Pick another one.',
+    );
+    expect(lobbyErrorMessage('join', new Error('offline'))).toBe(
+      'Something went wrong. Check your connection and try again.',
+    );
+  });
+
+  it('useOrganizerActions builds a session with artifacts and teams', async () => {
+    await userService.createUser('organizer1');
+    const teamService = new TeamService(baseNode, storage);
+    const artifactService = new ArtifactService(baseNode, storage);
+    const result = renderHook(() => useOrganizerActions(), storage, 'organizer1');
+
+    const sessionId = await perform(() => result.current!.createSession('Campus Hunt'));
+    expect(sessionId).not.toBeNull();
+    const session = await sessionService.getSession(sessionId!);
+    expect(session).toMatchObject({ sessionName: 'Campus Hunt', creatorId: 'organizer1', status: 'draft' });
+
+    const draft: ArtifactDraft = {
+      name: 'Tower',
+      description: 'The old clock tower',
+      locationHint: 'Look up',
+      latitude: '33.7725',
+      longitude: '-84.3948',
+      isChallenge: false,
+      points: '',
+      challengeBonus: '',
+      claimRadius: '25',
+      imageUrl: 'https://example.com/tower.jpg',
+      audioUrl: '',
+    };
+    expect(await perform(() => result.current!.createArtifact(sessionId!, draft))).toBe(true);
+    const [artifactId] = await sessionService.listSessionArtifacts(sessionId!);
+    expect(await artifactService.getArtifact(artifactId)).toMatchObject({
+      name: 'Tower',
+      latitude: 33.7725,
+      claimRadius: 25,
+      imageUrl: 'https://example.com/tower.jpg',
+    });
+
+    expect(await perform(() => result.current!.createArtifact(sessionId!, { ...draft, name: '' }))).toBe(false);
+    expect(result.current?.error).toBe('Name is required');
+
+    expect(await perform(() => result.current!.createTeam(sessionId!, 'Red'))).toBe(true);
+    const [teamId] = await sessionService.listSessionTeams(sessionId!);
+    expect((await teamService.getTeam(teamId))?.teamName).toBe('Red');
+
+    expect(await perform(() => result.current!.setTimes(sessionId!, 'soon', '60'))).toBe(false);
+    expect(result.current?.error).toBe('Starts in must be a whole number of minutes');
+    expect((await sessionService.getSession(sessionId!))?.startTime).toBe(0);
+    expect(await perform(() => result.current!.setTimes(sessionId!, '0', '60'))).toBe(true);
+    const { startTime, endTime } = (await sessionService.getSession(sessionId!))!;
+    expect(endTime - startTime).toBe(60 * 60 * 1000);
+
+    expect(await perform(() => result.current!.setStatus(sessionId!, 'running'))).toBe(true);
+    expect(await sessionService.getStatus(sessionId!)).toBe('running');
+  });
+
+  it('useOrganizerActions caps team sizes and balances players onto teams', async () => {
+    const teamService = new TeamService(baseNode, storage);
+    for (const teamId of ['team1', 'team2']) {
+      await teamService.createTeam(teamId);
+      await sessionService.addTeam('session1', teamId);
+    }
+    for (const userId of ['user_A', 'user_B']) {
+      await userService.addUserToSession(userId, 'session1');
+    }
+    const result = renderHook(() => useOrganizerActions(), storage, 'admin1');
+
+    expect(await perform(() => result.current!.setMaxTeamSize('session1', 1))).toBe(true);
+    expect(await perform(() => result.current!.autoAssign('session1', 'by-id'))).toBe(true);
+    expect((await sessionService.getSession('session1'))?.participants).toEqual({
+      user_A: 'team1',
+      user_B: 'team2',
+    });
+  });
+
+  it('useOrganizerActions reports when the user does not run the session', async () => {
+    const result = renderHook(() => useOrganizerActions(), storage, 'user_A');
+    expect(await perform(() => result.current!.rename('session1', 'Mine now'))).toBe(false);
+    expect(result.current?.error).toMatch(/can manage this session$/);
+    expect((await sessionService.getSession('session1'))?.sessionName).toBe('');
+
+    // Nothing is left behind when creating a team fails
+    expect(await perform(() => result.current!.createTeam('session1', 'Red'))).toBe(false);
+    expect(await storage.get(`${baseNode}/teams`)).toBeNull();
+  });
+
+  it('useInviteActions redeems scanned links and explains bad codes', async () => {
+    const code = await new InviteService(baseNode, storage).createInvite('session1', { maxUses: 1 });
+    const result = renderHook(() => useInviteActions(), storage, 'user_A');
+
+    const invite = await perform(() => result.current!.redeem(inviteLink(code)));
+    expect(invite?.sessionId).toBe('session1');
+    expect((await userService.getUser('user_A'))?.currentSession).toBe('session1');
+
+    const other = renderHook(() => useInviteActions(), storage, 'user_B');
+    expect(await perform(() => other.current!.redeem(code))).toBeNull();
+    expect(other.current?.error).toBe('That invite has expired or been used up.');
+    expect(await perform(() => other.current!.redeem('nope'))).toBeNull();
+    expect(other.current?.error).toBe("That invite code doesn't exist or was revoked.");
+  });
+});
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+
+import { useServices } from '@/hooks/useServices';
+
+/**
+ * Runs service calls on behalf of the signed-in user, one at a time, tracking which
+ * action is in progress and describing the last failure with `describeError`.
+ * `run` resolves to whether the action succeeded.
+ */
+export function useActionRunner<Action extends string>(
+  describeError: (action: Action, error: unknown) => string,
+  signedOutMessage: string,
+) {
+  const { currentUserId } = useServices();
+  const [pending, setPending] = useState<Action | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: Action, perform: (userId: string) => Promise<unknown>) => {
+    if (currentUserId === null) {
+      setError(signedOutMessage);
+      return false;
+    }
+
+    setPending(action);
+    setError(null);
+    try {
+      await perform(currentUserId);
+      return true;
+    } catch (e) {
+      setError(describeError(action, e));
+      return false;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return { pending, error, run };
+}
@@ -0,0 +1,17 @@
+import { useServices } from '@/hooks/useServices';
+import { useSubscription } from '@/hooks/useSubscription';
+import { User } from '@/types/database';
+
+/**
+ * Live view of the user playing on this device, along with their ID.
+ */
+export function useCurrentUser() {
+  const { userService, currentUserId } = useServices();
+
+  const state = useSubscription<User>(
+    currentUserId === null ? null : `user:${currentUserId}`,
+    (onValue, onError) => userService.watchUser(currentUserId!, onValue, onError)
+  );
+
+  return { ...state, userId: currentUserId };
+}
@@ -0,0 +1,61 @@
+import { useActionRunner } from '@/hooks/useActionRunner';
+import { useServices } from '@/hooks/useServices';
+import { ServiceError } from '@/services/errors';
+import { readInviteCode } from '@/services/InviteService';
+import { Invite } from '@/types/database';
+
+export type InviteAction = 'redeem';
+
+/**
+ * Describes why an invite could not be redeemed, based on the error's code and the
+ * entities it names rather than its message text.
+ */
+export function inviteErrorMessage(action: InviteAction, error: unknown): string {
+  if (!(error instanceof ServiceError)) {
+    return 'Something went wrong. Check your connection and try again.';
+  }
+
+  switch (error.code) {
+    case 'not-found':
+      if (error.entities.inviteCode !== undefined) return "That invite code doesn't exist or was revoked.";
+      if (error.entities.teamId) return 'That team is no longer part of this hunt.';
+      if (error.entities.userId) return 'Your player profile could not be found.';
+      return 'This hunt no longer exists.';
+    case 'invalid-state':
+      return error.entities.inviteCode
+        ? 'That invite has expired or been used up.'
+        : "This hunt isn't open for players right now.";
+    case 'invalid-association':
+      if (!error.entities.userId) return 'That team is no longer part of this hunt.';
+      return error.entities.teamId ? "You're already on that team." : "You've already joined this hunt.";
+    case 'team-full':
+      return "That invite's team is full. Ask the organizer for another invite.";
+    case 'permission-denied':
+      return "You don't have permission to do that.";
+    default:
+      return error.message;
+  }
+}
+
+/**
+ * Redeems invite codes, typed or scanned, for the signed-in player. `redeem` resolves
+ * to the invite on success, or null when it failed and `error` says why.
+ */
+export function useInviteActions() {
+  const { inviteService, userService } = useServices();
+  const { pending, error, run } = useActionRunner(inviteErrorMessage, 'Sign in to join a hunt.');
+
+  return {
+    pending,
+    error,
+    // Like joining from the lobby, this makes the hunt the one the other tabs show
+    redeem: async (text: string) => {
+      let invite: Invite | null = null;
+      await run('redeem', async (userId) => {
+        invite = await inviteService.redeemInvite(readInviteCode(text) ?? '', userId);
+        await userService.setCurrentSession(userId, invite.sessionId);
+      });
+      return invite as Invite | null;
+    },
+  };
+}
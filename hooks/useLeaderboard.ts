@@ -0,0 +1,15 @@
+import { useServices } from '@/hooks/useServices';
+import { useSubscription } from '@/hooks/useSubscription';
+import { Leaderboard } from '@/services/leaderboard';
+
+/**
+ * Live player and team rankings for a session. Pass null to watch nothing.
+ */
+export function useLeaderboard(sessionId: string | null) {
+  const { sessionService } = useServices();
+
+  return useSubscription<Leaderboard>(
+    sessionId === null ? null : `leaderboard:${sessionId}`,
+    (onValue, onError) => sessionService.watchLeaderboard(sessionId!, onValue, onError)
+  );
+}
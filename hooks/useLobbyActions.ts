@@ -0,0 +1,61 @@
+import { useActionRunner } from '@/hooks/useActionRunner';
+import { useServices } from '@/hooks/useServices';
+import { ServiceError } from '@/services/errors';
+
+export type LobbyAction = 'join' | 'leave' | 'pickTeam' | 'leaveTeam';
+
+/**
+ * Describes why a lobby action failed in terms the player can act on, based on the
+ * error's code and the entities it names rather than its message text.
+ */
+export function lobbyErrorMessage(action: LobbyAction, error: unknown): string {
+  if (!(error instanceof ServiceError)) {
+    return 'Something went wrong. Check your connection and try again.';
+  }
+
+  switch (error.code) {
+    case 'invalid-association':
+      if (action === 'join') return "You've already joined this hunt.";
+      if (action === 'pickTeam' && error.entities.teamId) return "That team isn't part of this hunt.";
+      if (action === 'leaveTeam') return "You're not on a team in this hunt.";
+      return "You haven't joined this hunt.";
+    case 'premature-deletion':
+      return 'Leave your team before leaving the hunt.';
+    case 'team-full':
+      return 'That team is full. Pick another one.';
+    case 'invalid-state':
+      return action === 'join'
+        ? "This hunt isn't open for players right now."
+        : 'Teams can only be changed while the hunt is running.';
+    case 'not-found':
+      return error.entities.teamId ? 'That team no longer exists.' : 'This hunt no longer exists.';
+    case 'permission-denied':
+      return "You don't have permission to do that.";
+    default:
+      return error.message;
+  }
+}
+
+/**
+ * Join, leave and team-picking actions for the signed-in player in one session. Each
+ * action resolves to whether it succeeded; when one fails, `error` describes why.
+ */
+export function useLobbyActions(sessionId: string) {
+  const { userService } = useServices();
+  const { pending, error, run } = useActionRunner(lobbyErrorMessage, 'Sign in to join a hunt.');
+
+  return {
+    pending,
+    error,
+    // Joining also makes this the hunt the map and other tabs show
+    join: () =>
+      run('join', async (userId) => {
+        await userService.addUserToSession(userId, sessionId);
+        await userService.setCurrentSession(userId, sessionId);
+      }),
+    leave: () => run('leave', (userId) => userService.removeUserFromSession(userId, sessionId)),
+    pickTeam: (teamId: string) =>
+      run('pickTeam', (userId) => userService.assignUserToTeam(userId, sessionId, teamId)),
+    leaveTeam: () => run('leaveTeam', (userId) => userService.removeUserFromTeam(userId, sessionId)),
+  };
+}
@@ -0,0 +1,112 @@
+import { useActionRunner } from '@/hooks/useActionRunner';
+import { useServices } from '@/hooks/useServices';
+import { ImportError, ServiceError, ValidationError } from '@/services/errors';
+import { InviteOptions } from '@/services/InviteService';
+import { TeamAssignmentOrder } from '@/services/SessionService';
+import { SessionStatus } from '@/types/database';
+
+export type OrganizerAction =
+  | 'createSession'
+  | 'rename'
+  | 'setTimes'
+  | 'setStatus'
+  | 'createArtifact'
+  | 'createTeam'
+  | 'movePlayer'
+  | 'setMaxTeamSize'
+  | 'autoAssign'
+  | 'createInvite'
+  | 'revokeInvite';
+
+/**
+ * An artifact as typed into the console. Numbers stay as typed so they are checked
+ * the same way as a spreadsheet import; blank ones take their defaults.
+ */
+export type ArtifactDraft = {
+  name: string;
+  description: string;
+  locationHint: string;
+  latitude: string;
+  longitude: string;
+  isChallenge: boolean;
+  points: string;
+  challengeBonus: string;
+  claimRadius: string;
+  imageUrl: string;
+  audioUrl: string;
+};
+
+export function organizerErrorMessage(action: OrganizerAction, error: unknown): string {
+  if (error instanceof ImportError) {
+    return error.rows.map((row) => row.message).join('\n');
+  }
+  if (error instanceof ServiceError) {
+    return error.message;
+  }
+  return 'Something went wrong. Check your connection and try again.';
+}
+
+const MINUTE = 60 * 1000;
+
+/** A number of minutes as typed into the console, which must be a whole number */
+function readMinutes(value: string, field: string): number {
+  const minutes = Number(value.trim());
+  if (value.trim() === '' || !Number.isInteger(minutes) || minutes < 0) {
+    throw new ValidationError(`${field} must be a whole number of minutes`);
+  }
+  return minutes;
+}
+
+/** IDs for new sessions and teams, unique enough for objects created by hand */
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * The steps of setting up and running a session, for the organizer console. Each
+ * action resolves to whether it succeeded (createSession to the new session's ID, or
+ * null); when one fails, `error` says why.
+ */
+export function useOrganizerActions() {
+  const { sessionService, userService, transferService, inviteService } = useServices();
+  const { pending, error, run } = useActionRunner(organizerErrorMessage, 'Sign in to organize a hunt.');
+
+  return {
+    pending,
+    error,
+    createSession: async (sessionName: string) => {
+      const sessionId = newId('session');
+      const created = await run('createSession', (userId) =>
+        sessionService.createSession(sessionId, userId, sessionName),
+      );
+      return created ? sessionId : null;
+    },
+    rename: (sessionId: string, sessionName: string) =>
+      run('rename', () => sessionService.setSessionName(sessionId, sessionName)),
+    // Minutes stay as typed so a stray character is reported instead of becoming a NaN time
+    setTimes: (sessionId: string, startsIn: string, lasts: string) =>
+      run('setTimes', async () => {
+        const startTime = Date.now() + readMinutes(startsIn, 'Starts in') * MINUTE;
+        const endTime = startTime + readMinutes(lasts, 'Lasts') * MINUTE;
+        await sessionService.setTimes(sessionId, startTime, endTime);
+      }),
+    setStatus: (sessionId: string, status: SessionStatus) =>
+      run('setStatus', () => sessionService.setStatus(sessionId, status)),
+    // Imported as a one-row table so the artifact is checked and written in one go
+    createArtifact: (sessionId: string, draft: ArtifactDraft) =>
+      run('createArtifact', () =>
+        transferService.importArtifacts(sessionId, JSON.stringify([draft]), 'json'),
+      ),
+    createTeam: (sessionId: string, teamName: string) =>
+      run('createTeam', () => sessionService.addNewTeam(sessionId, newId('team'), teamName)),
+    movePlayer: (sessionId: string, userId: string, teamId: string) =>
+      run('movePlayer', () => userService.assignUserToTeam(userId, sessionId, teamId)),
+    setMaxTeamSize: (sessionId: string, maxTeamSize: number) =>
+      run('setMaxTeamSize', () => sessionService.setMaxTeamSize(sessionId, maxTeamSize)),
+    autoAssign: (sessionId: string, order: TeamAssignmentOrder) =>
+      run('autoAssign', () => sessionService.autoAssignTeams(sessionId, order)),
+    createInvite: (sessionId: string, options: InviteOptions) =>
+      run('createInvite', () => inviteService.createInvite(sessionId, options)),
+    revokeInvite: (code: string) => run('revokeInvite', () => inviteService.revokeInvite(code)),
+  };
+}
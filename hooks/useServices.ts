@@ -0,0 +1,14 @@
+import { useContext } from 'react';
+
+import { ServicesContext } from '@/components/ServicesProvider';
+
+/**
+ * Returns the shared services and the current user's ID. Must be used inside a ServicesProvider.
+ */
+export function useServices() {
+  const services = useContext(ServicesContext);
+  if (!services) {
+    throw new Error('useServices must be used within a ServicesProvider');
+  }
+  return services;
+}
@@ -0,0 +1,15 @@
+import { useServices } from '@/hooks/useServices';
+import { useSubscription } from '@/hooks/useSubscription';
+import { Session } from '@/types/database';
+
+/**
+ * Live view of a session. Pass null to watch nothing.
+ */
+export function useSession(sessionId: string | null) {
+  const { sessionService } = useServices();
+
+  return useSubscription<Session>(
+    sessionId === null ? null : `session:${sessionId}`,
+    (onValue, onError) => sessionService.watchSession(sessionId!, onValue, onError)
+  );
+}
@@ -0,0 +1,15 @@
+import { useServices } from '@/hooks/useServices';
+import { useSubscription } from '@/hooks/useSubscription';
+import { Artifact } from '@/types/database';
+
+/**
+ * Live view of a session's artifacts, keyed by artifact ID. Pass null to watch nothing.
+ */
+export function useSessionArtifacts(sessionId: string | null) {
+  const { artifactService } = useServices();
+
+  return useSubscription<{ [artifactId: string]: Artifact }>(
+    sessionId === null ? null : `artifacts:${sessionId}`,
+    (onValue, onError) => artifactService.watchSessionArtifacts(sessionId!, onValue, onError)
+  );
+}
@@ -0,0 +1,15 @@
+import { useServices } from '@/hooks/useServices';
+import { useSubscription } from '@/hooks/useSubscription';
+import { Invite } from '@/types/database';
+
+/**
+ * Live view of a session's invites, keyed by invite code. Pass null to watch nothing.
+ */
+export function useSessionInvites(sessionId: string | null) {
+  const { inviteService } = useServices();
+
+  return useSubscription<{ [code: string]: Invite }>(
+    sessionId === null ? null : `invites:${sessionId}`,
+    (onValue, onError) => inviteService.watchSessionInvites(sessionId!, onValue, onError)
+  );
+}
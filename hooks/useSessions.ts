@@ -0,0 +1,15 @@
+import { useServices } from '@/hooks/useServices';
+import { useSubscription } from '@/hooks/useSubscription';
+import { Session } from '@/types/database';
+
+/**
+ * Live view of every session, keyed by session ID.
+ */
+export function useSessions() {
+  const { sessionService } = useServices();
+
+  return useSubscription<{ [sessionId: string]: Session }>(
+    'sessions',
+    (onValue, onError) => sessionService.watchSessions(onValue, onError)
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { Unsubscribe } from '@/services/storage/StorageAdapter';
+
+export type SubscriptionState<T> = {
+  data: T | null;
+  loading: boolean;
+  error: Error | null;
+};
+
+/**
+ * Keeps component state in sync with a service watch API.
+ *
+ * `key` identifies what is being watched: the subscription is restarted whenever it
+ * changes, and nothing is watched while it is null (e.g. before an ID is known).
+ */
+export function useSubscription<T>(
+  key: string | null,
+  subscribe: (onValue: (value: T | null) => void, onError: (error: Error) => void) => Unsubscribe
+): SubscriptionState<T> {
+  const [state, setState] = useState<SubscriptionState<T>>({
+    data: null,
+    loading: key !== null,
+    error: null,
+  });
+
+  // Always call the latest subscribe function without restarting on every render
+  const subscribeRef = useRef(subscribe);
+  subscribeRef.current = subscribe;
+
+  useEffect(() => {
+    if (key === null) {
+      setState({ data: null, loading: false, error: null });
+      return;
+    }
+
+    setState({ data: null, loading: true, error: null });
+    return subscribeRef.current(
+      (data) => setState({ data, loading: false, error: null }),
+      (error) => setState({ data: null, loading: false, error })
+    );
+  }, [key]);
+
+  return state;
+}
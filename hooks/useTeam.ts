@@ -0,0 +1,15 @@
+import { useServices } from '@/hooks/useServices';
+import { useSubscription } from '@/hooks/useSubscription';
+import { Team } from '@/types/database';
+
+/**
+ * Live view of a team. Pass null to watch nothing.
+ */
+export function useTeam(teamId: string | null) {
+  const { teamService } = useServices();
+
+  return useSubscription<Team>(
+    teamId === null ? null : `team:${teamId}`,
+    (onValue, onError) => teamService.watchTeam(teamId!, onValue, onError)
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * Reports every cross-reference inconsistency under a base node of the database and,
+ * with --repair, fixes them all in one atomic update.
+ *
+ * Usage: npm run integrity -- [baseNode] [--repair]
+ */
+
+import { IntegrityService } from '../services/IntegrityService';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const repair = args.includes('--repair');
+  const baseNode = args.find(arg => !arg.startsWith('--')) ?? '';
+
+  const report = await new IntegrityService(baseNode).checkIntegrity({ repair });
+
+  for (const issue of report.issues) {
+    console.log(`[${issue.kind}] ${issue.message}`);
+    for (const path of Object.keys(issue.repairs)) {
+      console.log(`    ${path} -> ${JSON.stringify(issue.repairs[path])}`);
+    }
+  }
+
+  const where = baseNode ? `under /${baseNode}` : 'in the database';
+  if (report.issues.length === 0) {
+    console.log(`No inconsistencies found ${where}`);
+  } else if (report.repaired) {
+    console.log(`Repaired ${report.issues.length} inconsistencies ${where}`);
+  } else {
+    console.log(`Found ${report.issues.length} inconsistencies ${where}; run with --repair to fix them`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,15 @@
+/**
+ * Regenerates firebase.rules.json from the schema description in types/schema.ts.
+ *
+ * Run with `npm run rules` after changing the schema, then deploy the file with
+ * `firebase deploy --only database`.
+ */
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { generateRules } from '../services/rules/generateRules';
+
+const outputPath = join(__dirname, '..', 'firebase.rules.json');
+
+writeFileSync(outputPath, JSON.stringify(generateRules(), null, 2) + '\n');
+console.log(`Wrote ${outputPath}`);
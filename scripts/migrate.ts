@@ -0,0 +1,41 @@
+/**
+ * Migrates the data under a base node to the latest schema version, or to the one
+ * given with --to. With --dry-run, prints the updates without writing them.
+ *
+ * Usage: npm run migrate -- [baseNode] [--to=<version>] [--dry-run]
+ */
+
+import { MigrationService } from '../services/MigrationService';
+import { LATEST_SCHEMA_VERSION } from '../services/migrations';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const toArg = args.find(arg => arg.startsWith('--to='));
+  const to = toArg ? Number(toArg.slice('--to='.length)) : LATEST_SCHEMA_VERSION;
+  const baseNode = args.find(arg => !arg.startsWith('--')) ?? '';
+
+  const report = await new MigrationService(baseNode).migrate({ to, dryRun });
+
+  for (const step of report.steps) {
+    console.log(`${step.direction === 'up' ? 'Applying' : 'Reverting'} ${step.version}: ${step.description}`);
+    for (const path of Object.keys(step.updates)) {
+      console.log(`    ${path} -> ${JSON.stringify(step.updates[path])}`);
+    }
+  }
+
+  const where = baseNode ? `/${baseNode}` : 'The database';
+  if (report.steps.length === 0) {
+    console.log(`${where} is already at schema version ${report.toVersion}`);
+  } else {
+    const verb = report.dryRun ? 'would move' : 'moved';
+    console.log(`${where} ${verb} from schema version ${report.fromVersion} to ${report.toVersion}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
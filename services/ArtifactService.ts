@@ -1,11 +1,14 @@
 import { BaseService } from './BaseService';
 import { Artifact, Session } from '../types/database';
+import { NotFoundError, AlreadyExistsError, PrematureDeletionError, ValidationError } from './errors';
+import { DEFAULT_ARTIFACT_POINTS, DEFAULT_CHALLENGE_BONUS } from './scoring';
+import { Unsubscribe } from './storage/StorageAdapter';
 
 export class ArtifactService extends BaseService {
   async createArtifact(artifactId: string): Promise<void> {
     const exists = await this.exists(`artifacts/${artifactId}`);
     if (exists) {
-      throw new Error('Artifact already exists');
+      throw new AlreadyExistsError('Artifact already exists', { artifactId });
     }
 
     const newArtifact: Artifact = {
@@ -14,9 +17,15 @@ export class ArtifactService extends BaseService {
       locationHint: '',
       latitude: 0,
       longitude: 0,
-      isChallenge: false
+      isChallenge: false,
+      points: DEFAULT_ARTIFACT_POINTS,
+      challengeBonus: DEFAULT_CHALLENGE_BONUS
     };
 
+    if (this.actorId) {
+      newArtifact.creatorId = this.actorId;
+    }
+
     await this.setData(`artifacts/${artifactId}`, newArtifact);
   }
 
@@ -26,64 +35,113 @@ export class ArtifactService extends BaseService {
 
   async setName(artifactId: string, name: string): Promise<void> {
     const artifact = await this.getArtifact(artifactId);
-    if (!artifact) throw new Error('Artifact not found');
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'edit this artifact');
     
     await this.setData(`artifacts/${artifactId}/name`, name);
   }
 
   async setDescription(artifactId: string, description: string): Promise<void> {
     const artifact = await this.getArtifact(artifactId);
-    if (!artifact) throw new Error('Artifact not found');
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'edit this artifact');
     
     await this.setData(`artifacts/${artifactId}/description`, description);
   }
 
   async setLocationHint(artifactId: string, hint: string): Promise<void> {
     const artifact = await this.getArtifact(artifactId);
-    if (!artifact) throw new Error('Artifact not found');
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'edit this artifact');
     
     await this.setData(`artifacts/${artifactId}/locationHint`, hint);
   }
 
   async setCoordinates(artifactId: string, latitude: number, longitude: number): Promise<void> {
     const artifact = await this.getArtifact(artifactId);
-    if (!artifact) throw new Error('Artifact not found');
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'edit this artifact');
     
-    await this.setData(`artifacts/${artifactId}/latitude`, latitude);
-    await this.setData(`artifacts/${artifactId}/longitude`, longitude);
+    await this.updateData({
+      [`artifacts/${artifactId}/latitude`]: latitude,
+      [`artifacts/${artifactId}/longitude`]: longitude
+    });
+  }
+
+  async setClaimRadius(artifactId: string, radiusMeters: number): Promise<void> {
+    const artifact = await this.getArtifact(artifactId);
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'edit this artifact');
+
+    if (!Number.isFinite(radiusMeters) || radiusMeters <= 0) {
+      throw new ValidationError('Claim radius must be a positive number of meters', { artifactId });
+    }
+
+    await this.setData(`artifacts/${artifactId}/claimRadius`, radiusMeters);
   }
 
   async setImageUrl(artifactId: string, imageUrl: string): Promise<void> {
     const artifact = await this.getArtifact(artifactId);
-    if (!artifact) throw new Error('Artifact not found');
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'edit this artifact');
     
     await this.setData(`artifacts/${artifactId}/imageUrl`, imageUrl);
   }
 
   async setAudioUrl(artifactId: string, audioUrl: string): Promise<void> {
     const artifact = await this.getArtifact(artifactId);
-    if (!artifact) throw new Error('Artifact not found');
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'edit this artifact');
     
     await this.setData(`artifacts/${artifactId}/audioUrl`, audioUrl);
   }
 
   async setChallengeStatus(artifactId: string, isChallenge: boolean): Promise<void> {
     const artifact = await this.getArtifact(artifactId);
-    if (!artifact) throw new Error('Artifact not found');
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'edit this artifact');
     
     await this.setData(`artifacts/${artifactId}/isChallenge`, isChallenge);
   }
 
+  async setPoints(artifactId: string, points: number): Promise<void> {
+    const artifact = await this.getArtifact(artifactId);
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'edit this artifact');
+
+    if (!Number.isInteger(points) || points < 0) {
+      throw new ValidationError('Points must be a non-negative whole number', { artifactId });
+    }
+
+    await this.setData(`artifacts/${artifactId}/points`, points);
+  }
+
+  async setChallengeBonus(artifactId: string, challengeBonus: number): Promise<void> {
+    const artifact = await this.getArtifact(artifactId);
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'edit this artifact');
+
+    if (!Number.isInteger(challengeBonus) || challengeBonus < 0) {
+      throw new ValidationError('Challenge bonus must be a non-negative whole number', { artifactId });
+    }
+
+    await this.setData(`artifacts/${artifactId}/challengeBonus`, challengeBonus);
+  }
+
   async deleteArtifact(artifactId: string): Promise<void> {
     const artifact = await this.getArtifact(artifactId);
-    if (!artifact) throw new Error('Artifact not found');
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+    await this.authorize(['creator', 'admin'], { artifactId }, 'delete this artifact');
 
     // Check if artifact is used in any session
     const sessions = await this.getData<{ [key: string]: Session }>('sessions');
     if (sessions) {
       for (const sessionId of Object.keys(sessions)) {
-        if (sessions[sessionId].artifacts[artifactId]) {
-          throw new Error('Cannot delete artifact that is part of an active session');
+        if (sessions[sessionId].artifacts?.[artifactId]) {
+          throw new PrematureDeletionError(
+            'Cannot delete artifact that is part of an active session',
+            { artifactId, sessionId }
+          );
         }
       }
     }
@@ -93,18 +151,78 @@ export class ArtifactService extends BaseService {
 
   async listSessionArtifacts(sessionId: string): Promise<string[]> {
     const session = await this.getData<Session>(`sessions/${sessionId}`);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
 
     return Object.keys(session.artifacts);
   }
 
   async getArtifactLocation(artifactId: string): Promise<{ latitude: number; longitude: number }> {
     const artifact = await this.getArtifact(artifactId);
-    if (!artifact) throw new Error('Artifact not found');
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
 
     return {
       latitude: artifact.latitude,
       longitude: artifact.longitude
     };
   }
+
+  watchArtifact(
+    artifactId: string,
+    onChange: (artifact: Artifact | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<Artifact>(`artifacts/${artifactId}`, onChange, onError);
+  }
+
+  /**
+   * Emits the session's artifacts keyed by ID. Follows artifacts as they are added to or
+   * removed from the session and re-emits whenever one of them changes.
+   */
+  watchSessionArtifacts(
+    sessionId: string,
+    onChange: (artifacts: { [artifactId: string]: Artifact }) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    let sessionLoaded = false;
+    const artifacts: { [artifactId: string]: Artifact | null } = {};
+    const listeners = new Map<string, Unsubscribe>();
+
+    const emit = () => {
+      // Hold back until the session and every artifact in it have loaded
+      const ids = Array.from(listeners.keys());
+      if (!sessionLoaded || !ids.every(artifactId => artifactId in artifacts)) return;
+
+      const current: { [artifactId: string]: Artifact } = {};
+      for (const artifactId of ids) {
+        const artifact = artifacts[artifactId];
+        if (artifact) current[artifactId] = artifact;
+      }
+      onChange(current);
+    };
+
+    const stopSession = this.subscribe<Session['artifacts']>(`sessions/${sessionId}/artifacts`, value => {
+      const ids = Object.keys(value || {});
+      for (const artifactId of Array.from(listeners.keys())) {
+        if (!ids.includes(artifactId)) {
+          listeners.get(artifactId)!();
+          listeners.delete(artifactId);
+          delete artifacts[artifactId];
+        }
+      }
+      for (const artifactId of ids) {
+        if (listeners.has(artifactId)) continue;
+        listeners.set(artifactId, this.subscribe<Artifact>(`artifacts/${artifactId}`, artifact => {
+          artifacts[artifactId] = artifact;
+          emit();
+        }, onError));
+      }
+      sessionLoaded = true;
+      emit();
+    }, onError);
+
+    return () => {
+      stopSession();
+      listeners.forEach(stop => stop());
+    };
+  }
 }
@@ -1,32 +1,204 @@
-import { database } from '../firebaseConfig';
-import { ref, get, set, remove } from 'firebase/database';
+import { StorageAdapter, Unsubscribe } from './storage/StorageAdapter';
+import { FirebaseStorageAdapter } from './storage/FirebaseStorageAdapter';
+import { Artifact, Session, Team } from '../types/database';
+import {
+  ErrorEntities,
+  InvalidStateError,
+  NotFoundError,
+  PermissionDeniedError,
+  TeamFullError
+} from './errors';
+import { sessionStatus } from './lifecycle';
+import { describeRoles, Role, SYSTEM_ACTOR_ID } from './authorization';
+import { assertValidWrite, parseStored } from './validation';
 
 export class BaseService {
   protected baseNode: string;
+  protected storage: StorageAdapter;
+  /** The user on whose behalf operations run; null for the unrestricted system actor */
+  protected actorId: string | null = null;
 
-  constructor(baseNode: string = '') {
+  constructor(baseNode: string = '', storage: StorageAdapter = new FirebaseStorageAdapter()) {
     this.baseNode = baseNode;
+    this.storage = storage;
   }
 
-  protected getRef(path: string) {
-    return ref(database, `${this.baseNode}/${path}`);
+  /**
+   * Returns a copy of this service that acts as the given user, so every operation is
+   * checked against that user's roles. Services that are not scoped to a user act as
+   * the system and are not restricted, which is meant for scripts and tests.
+   */
+  asUser(userId: string): this {
+    const scoped = Object.create(Object.getPrototypeOf(this));
+    return Object.assign(scoped, this, { actorId: userId });
+  }
+
+  /** ID recorded as the author of audit entries and reviews */
+  protected get actingUserId(): string {
+    return this.actorId ?? SYSTEM_ACTOR_ID;
+  }
+
+  /**
+   * Generates a unique, roughly chronological key for records stored in lists
+   */
+  protected generateId(): string {
+    const time = Date.now().toString(36).padStart(9, '0');
+    const random = Math.random().toString(36).slice(2, 10).padEnd(8, '0');
+    return `${time}${random}`;
+  }
+
+  /**
+   * Throws a PermissionDeniedError unless the acting user holds one of the roles with
+   * respect to the entities in scope, which are also reported on the error. The organizer
+   * is resolved from the scope's session, or from the team's session when only a team is
+   * given.
+   */
+  protected async authorize(roles: Role[], scope: ErrorEntities, action: string): Promise<void> {
+    const actorId = this.actorId;
+    if (actorId === null) return;
+
+    for (const role of roles) {
+      if (await this.hasRole(actorId, role, scope)) return;
+    }
+
+    throw new PermissionDeniedError(
+      `Only ${describeRoles(roles)} can ${action}`,
+      { ...scope, userId: actorId }
+    );
+  }
+
+  private async hasRole(actorId: string, role: Role, scope: ErrorEntities): Promise<boolean> {
+    switch (role) {
+      case 'self':
+        return scope.userId === actorId;
+      case 'admin':
+        // Just the flag, so admins can still act on user records a migration hasn't reached
+        return (await this.getData<boolean>(`users/${actorId}/isAdmin`)) === true;
+      case 'organizer': {
+        let sessionId = scope.sessionId;
+        if (!sessionId && scope.teamId) {
+          sessionId = (await this.getData<string>(`teams/${scope.teamId}/sessionId`)) || undefined;
+        }
+        if (!sessionId) return false;
+        const session = await this.getData<Session>(`sessions/${sessionId}`);
+        return session?.creatorId === actorId;
+      }
+      case 'captain': {
+        if (!scope.teamId) return false;
+        const team = await this.getData<Team>(`teams/${scope.teamId}`);
+        return team?.captainId === actorId;
+      }
+      case 'creator': {
+        if (!scope.artifactId) return false;
+        const artifact = await this.getData<Artifact>(`artifacts/${scope.artifactId}`);
+        return artifact?.creatorId === actorId;
+      }
+    }
+  }
+
+  /**
+   * Throws unless the session is currently running, naming the blocked activity
+   */
+  protected async assertSessionRunning(sessionId: string, activity: string): Promise<void> {
+    const session = await this.getData<Session>(`sessions/${sessionId}`);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+
+    const status = sessionStatus(session);
+    if (status !== 'running') {
+      throw new InvalidStateError(`Cannot ${activity} while the session is ${status}`, { sessionId });
+    }
+  }
+
+  /**
+   * Throws if the team already has as many members as its session's maxTeamSize allows
+   */
+  protected async assertTeamHasRoom(sessionId: string, teamId: string, team: Team): Promise<void> {
+    const maxTeamSize = await this.getData<number>(`sessions/${sessionId}/maxTeamSize`);
+    if (maxTeamSize && Object.keys(team.members).length >= maxTeamSize) {
+      throw new TeamFullError(maxTeamSize, { sessionId, teamId });
+    }
+  }
+
+  /**
+   * Path updates that hand the captaincy on when the user leaves the team: to the remaining
+   * member with the lowest ID, or to nobody once the team is empty. Empty unless the user
+   * is the captain.
+   */
+  protected async captaincyUpdates(teamId: string, userId: string): Promise<{ [path: string]: any }> {
+    const team = await this.getData<Team>(`teams/${teamId}`);
+    if (!team || team.captainId !== userId) return {};
+    const successor = Object.keys(team.members).filter(memberId => memberId !== userId).sort()[0];
+    return { [`teams/${teamId}/captainId`]: successor ?? null };
+  }
+
+  protected getPath(path: string): string {
+    return `${this.baseNode}/${path}`;
   }
 
   protected async exists(path: string): Promise<boolean> {
-    const snapshot = await get(this.getRef(path));
-    return snapshot.exists();
+    return await this.storage.exists(this.getPath(path));
   }
 
+  /**
+   * Reads the value at a path (relative to the base node), restoring the empty
+   * collections the database prunes so callers always see the schema's shape. Throws a
+   * ValidationError if the stored value does not match the schema.
+   */
   protected async getData<T>(path: string): Promise<T | null> {
-    const snapshot = await get(this.getRef(path));
-    return snapshot.val();
+    return parseStored(path, await this.storage.get<T>(this.getPath(path)));
   }
 
+  /**
+   * Writes a value at a path (relative to the base node). Throws a ValidationError
+   * without writing if the value does not match the schema there.
+   */
   protected async setData(path: string, data: any): Promise<void> {
-    await set(this.getRef(path), data);
+    assertValidWrite(path, data);
+    await this.storage.set(this.getPath(path), data);
   }
 
   protected async removeData(path: string): Promise<void> {
-    await remove(this.getRef(path));
+    assertValidWrite(path, null);
+    await this.storage.remove(this.getPath(path));
+  }
+
+  /**
+   * Listens to the value at a path (relative to the base node). The callback fires with
+   * the current value and again on every change until the returned function is called.
+   * A value that does not match the schema is reported to `onError` instead.
+   */
+  protected subscribe<T>(
+    path: string,
+    onValue: (value: T | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.storage.subscribe<T>(
+      this.getPath(path),
+      value => {
+        let parsed: T | null;
+        try {
+          parsed = parseStored(path, value);
+        } catch (error) {
+          onError?.(error as Error);
+          return;
+        }
+        onValue(parsed);
+      },
+      onError
+    );
+  }
+
+  /**
+   * Writes several paths (relative to the base node) in one atomic multi-path update.
+   * A null value removes the node at that path. Paths must not overlap, and every value
+   * is checked against the schema before anything is written.
+   */
+  protected async updateData(updates: { [path: string]: any }): Promise<void> {
+    const rootUpdates: { [path: string]: any } = {};
+    for (const path of Object.keys(updates)) {
+      assertValidWrite(path, updates[path]);
+      rootUpdates[this.getPath(path)] = updates[path];
+    }
+    await this.storage.update(rootUpdates);
   }
 }
@@ -0,0 +1,273 @@
+import { BaseService } from './BaseService';
+import { Artifact, Session, Team, User } from '../types/database';
+import { IntegrityIssue, IntegrityOptions, IntegrityReport } from '../types/integrity';
+
+type Nodes<T> = { [id: string]: T };
+
+export class IntegrityService extends BaseService {
+  /**
+   * Scans the base node for relationships whose two sides disagree and reports each one
+   * with the writes that would fix it. With `repair`, all fixes are written in a single
+   * atomic update, which only platform admins may do.
+   */
+  async checkIntegrity(options: IntegrityOptions = {}): Promise<IntegrityReport> {
+    const repair = options.repair === true;
+    if (repair) {
+      await this.authorize(['admin'], {}, 'repair the database');
+    }
+
+    const [users, sessions, teams, artifacts] = await Promise.all([
+      this.getData<Nodes<User>>('users'),
+      this.getData<Nodes<Session>>('sessions'),
+      this.getData<Nodes<Team>>('teams'),
+      this.getData<Nodes<Artifact>>('artifacts')
+    ]);
+
+    const issues = findIssues(users || {}, sessions || {}, teams || {}, artifacts || {});
+
+    if (repair && issues.length > 0) {
+      const updates: { [path: string]: any } = {};
+      for (const issue of issues) {
+        Object.assign(updates, issue.repairs);
+      }
+      await this.updateData(updates);
+    }
+
+    return { repaired: repair && issues.length > 0, issues };
+  }
+}
+
+function findIssues(
+  users: Nodes<User>,
+  sessions: Nodes<Session>,
+  teams: Nodes<Team>,
+  artifacts: Nodes<Artifact>
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+
+  // Links from sessions to things that no longer exist
+  for (const sessionId of Object.keys(sessions)) {
+    const session = sessions[sessionId];
+    for (const userId of Object.keys(session.participants)) {
+      if (!users[userId]) {
+        issues.push({
+          kind: 'missing-reference',
+          message: `Session ${sessionId} lists participant ${userId}, who does not exist`,
+          userId,
+          sessionId,
+          repairs: { [`sessions/${sessionId}/participants/${userId}`]: null }
+        });
+      }
+    }
+    for (const artifactId of Object.keys(session.artifacts)) {
+      if (!artifacts[artifactId]) {
+        issues.push({
+          kind: 'missing-reference',
+          message: `Session ${sessionId} lists artifact ${artifactId}, which does not exist`,
+          sessionId,
+          artifactId,
+          repairs: { [`sessions/${sessionId}/artifacts/${artifactId}`]: null }
+        });
+      }
+    }
+    for (const teamId of Object.keys(session.teams)) {
+      if (!teams[teamId]) {
+        issues.push({
+          kind: 'missing-reference',
+          message: `Session ${sessionId} lists team ${teamId}, which does not exist`,
+          sessionId,
+          teamId,
+          repairs: { [`sessions/${sessionId}/teams/${teamId}`]: null }
+        });
+      }
+    }
+  }
+
+  // Which session each team belongs to once Team.sessionId and Session.teams agree
+  const teamSessions: { [teamId: string]: string } = {};
+  for (const teamId of Object.keys(teams)) {
+    teamSessions[teamId] = reconcileTeamSession(teamId, teams[teamId], sessions, issues);
+  }
+
+  // Team rosters: members must exist and be part of the team's session
+  const rosters: { [sessionId: string]: { [userId: string]: string[] } } = {};
+  for (const teamId of Object.keys(teams)) {
+    const sessionId = teamSessions[teamId];
+    for (const userId of Object.keys(teams[teamId].members)) {
+      const user = users[userId];
+      const joined = sessionId !== '' && (
+        sessions[sessionId].participants[userId] !== undefined ||
+        user?.sessionsJoined[sessionId] !== undefined
+      );
+
+      if (!user || !joined) {
+        issues.push({
+          kind: user ? 'member-outside-session' : 'missing-reference',
+          message: !user
+            ? `Team ${teamId} lists member ${userId}, who does not exist`
+            : sessionId
+              ? `Team ${teamId} lists member ${userId}, who is not part of session ${sessionId}`
+              : `Team ${teamId} lists member ${userId} but is not part of any session`,
+          userId,
+          sessionId: sessionId || undefined,
+          teamId,
+          repairs: { [`teams/${teamId}/members/${userId}`]: null }
+        });
+        continue;
+      }
+
+      const userTeams = (rosters[sessionId] = rosters[sessionId] || {});
+      (userTeams[userId] = userTeams[userId] || []).push(teamId);
+    }
+  }
+
+  // Participants and the session records on their users
+  for (const userId of Object.keys(users)) {
+    const user = users[userId];
+    for (const sessionId of Object.keys(user.sessionsJoined)) {
+      if (!sessions[sessionId]) {
+        issues.push({
+          kind: 'missing-reference',
+          message: `User ${userId} has a record for session ${sessionId}, which does not exist`,
+          userId,
+          sessionId,
+          repairs: {
+            [`users/${userId}/sessionsJoined/${sessionId}`]: null,
+            ...(user.currentSession === sessionId && { [`users/${userId}/currentSession`]: null })
+          }
+        });
+      }
+    }
+    if (user.currentSession && !user.sessionsJoined[user.currentSession] && sessions[user.currentSession]) {
+      issues.push({
+        kind: 'missing-reference',
+        message: `User ${userId} is playing session ${user.currentSession} without having joined it`,
+        userId,
+        sessionId: user.currentSession,
+        repairs: { [`users/${userId}/currentSession`]: null }
+      });
+    }
+  }
+
+  for (const sessionId of Object.keys(sessions)) {
+    const participants = sessions[sessionId].participants;
+    const userIds = new Set([
+      ...Object.keys(participants).filter(userId => users[userId]),
+      ...Object.keys(users).filter(userId => users[userId].sessionsJoined[sessionId])
+    ]);
+
+    for (const userId of Array.from(userIds)) {
+      const progress = users[userId].sessionsJoined[sessionId];
+      const teamIds = rosters[sessionId]?.[userId] || [];
+
+      // A player on several rosters keeps the team their own record names, if any
+      const recordedTeamId = progress?.teamId || '';
+      const teamId = teamIds.includes(recordedTeamId) ? recordedTeamId : teamIds[0] || '';
+      const extraTeams = teamIds.filter(id => id !== teamId);
+      if (extraTeams.length > 0) {
+        issues.push({
+          kind: 'team-assignment-mismatch',
+          message: `User ${userId} is on several teams in session ${sessionId}; keeping team ${teamId}`,
+          userId,
+          sessionId,
+          teamId,
+          repairs: Object.fromEntries(extraTeams.map(id => [`teams/${id}/members/${userId}`, null]))
+        });
+      }
+
+      const participantPath = `sessions/${sessionId}/participants/${userId}`;
+      const progressPath = `users/${userId}/sessionsJoined/${sessionId}`;
+
+      if (!progress) {
+        issues.push({
+          kind: 'session-membership-mismatch',
+          message: `User ${userId} is a participant of session ${sessionId} but has no record of joining it`,
+          userId,
+          sessionId,
+          repairs: { [progressPath]: teamId ? { points: 0, teamId } : { points: 0 } }
+        });
+      } else if (recordedTeamId !== teamId) {
+        issues.push({
+          kind: 'team-assignment-mismatch',
+          message: `User ${userId} is recorded on team ${recordedTeamId || '(none)'} in session ${sessionId} ` +
+            `but is on the roster of ${teamId || 'no team'}`,
+          userId,
+          sessionId,
+          teamId: teamId || recordedTeamId,
+          repairs: { [`${progressPath}/teamId`]: teamId || null }
+        });
+      }
+
+      if (participants[userId] === undefined) {
+        issues.push({
+          kind: 'session-membership-mismatch',
+          message: `User ${userId} has joined session ${sessionId} but is not one of its participants`,
+          userId,
+          sessionId,
+          repairs: { [participantPath]: teamId }
+        });
+      } else if (participants[userId] !== teamId) {
+        issues.push({
+          kind: 'team-assignment-mismatch',
+          message: `Session ${sessionId} has participant ${userId} on team ${participants[userId] || '(none)'} ` +
+            `but they are on the roster of ${teamId || 'no team'}`,
+          userId,
+          sessionId,
+          teamId: teamId || participants[userId],
+          repairs: { [participantPath]: teamId }
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Works out which session a team belongs to, reporting (and planning fixes for) any
+ * disagreement between the team's sessionId and the sessions listing it. A team that
+ * points at a missing session joins the first session listing it, if any.
+ */
+function reconcileTeamSession(
+  teamId: string,
+  team: Team,
+  sessions: Nodes<Session>,
+  issues: IntegrityIssue[]
+): string {
+  const listedBy = Object.keys(sessions).filter(sessionId => sessions[sessionId].teams[teamId]);
+  const sessionId = sessions[team.sessionId] ? team.sessionId : listedBy[0] || '';
+
+  if (sessionId !== team.sessionId) {
+    issues.push({
+      kind: team.sessionId ? 'missing-reference' : 'team-session-mismatch',
+      message: team.sessionId
+        ? `Team ${teamId} belongs to session ${team.sessionId}, which does not exist`
+        : `Team ${teamId} is listed by session ${sessionId} but does not belong to it`,
+      sessionId: sessionId || team.sessionId,
+      teamId,
+      repairs: { [`teams/${teamId}/sessionId`]: sessionId }
+    });
+  }
+
+  if (sessionId && !sessions[sessionId].teams[teamId]) {
+    issues.push({
+      kind: 'team-session-mismatch',
+      message: `Team ${teamId} belongs to session ${sessionId} but the session does not list it`,
+      sessionId,
+      teamId,
+      repairs: { [`sessions/${sessionId}/teams/${teamId}`]: true }
+    });
+  }
+
+  for (const otherSessionId of listedBy.filter(id => id !== sessionId)) {
+    issues.push({
+      kind: 'team-session-mismatch',
+      message: `Session ${otherSessionId} lists team ${teamId}, which belongs to ${sessionId || 'no session'}`,
+      sessionId: otherSessionId,
+      teamId,
+      repairs: { [`sessions/${otherSessionId}/teams/${teamId}`]: null }
+    });
+  }
+
+  return sessionId;
+}
@@ -0,0 +1,225 @@
+import { BaseService } from './BaseService';
+import { Invite, Session, Team, User } from '../types/database';
+import { Unsubscribe } from './storage/StorageAdapter';
+import { sessionStatus } from './lifecycle';
+import {
+  NotFoundError,
+  InvalidAssociationError,
+  InvalidStateError,
+  ValidationError
+} from './errors';
+
+/**
+ * @property teamId - Team in the session that players also join
+ * @property expiresAt - Time the invite stops working; 0 or missing for never
+ * @property maxUses - Number of players who may redeem the invite; 0 or missing for no limit
+ */
+export interface InviteOptions {
+  teamId?: string;
+  expiresAt?: number;
+  maxUses?: number;
+}
+
+/** Letters and digits that can't be mistaken for one another when read aloud or off a screen */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+/** Deep link scheme registered in app.json */
+const INVITE_LINK_PREFIX = 'myapp://join?code=';
+
+/**
+ * The link a QR code for the invite carries; opening it lands on the app's join screen
+ */
+export function inviteLink(code: string): string {
+  return `${INVITE_LINK_PREFIX}${code}`;
+}
+
+/**
+ * Reads an invite code from what a player typed or scanned: the code itself, in any
+ * case and with or without separators, or an invite link. Null when there is no code.
+ */
+export function readInviteCode(text: string): string | null {
+  const match = /[?&]code=([^&#]*)/.exec(text);
+  const code = (match ? decodeURIComponent(match[1]) : text).toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return code || null;
+}
+
+export class InviteService extends BaseService {
+  /**
+   * Creates an invite to a session, or to one of its teams, and returns its code
+   */
+  async createInvite(sessionId: string, options: InviteOptions = {}): Promise<string> {
+    const session = await this.getData<Session>(`sessions/${sessionId}`);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'invite players to this session');
+
+    const status = sessionStatus(session);
+    if (status === 'ended' || status === 'archived') {
+      throw new InvalidStateError(`Cannot invite players while the session is ${status}`, { sessionId });
+    }
+
+    const { teamId, expiresAt = 0, maxUses = 0 } = options;
+    if (teamId) {
+      await this.assertTeamInSession(sessionId, teamId);
+    }
+    if (!Number.isInteger(maxUses) || maxUses < 0) {
+      throw new ValidationError('Invite use limit must be a non-negative whole number', { sessionId });
+    }
+    const now = Date.now();
+    if (expiresAt !== 0 && !(expiresAt > now)) {
+      throw new ValidationError('Invite expiry must be in the future', { sessionId });
+    }
+
+    let code = generateCode();
+    while (await this.exists(`invites/${code}`)) {
+      code = generateCode();
+    }
+
+    const invite: Invite = {
+      sessionId,
+      creatorId: this.actingUserId,
+      createdAt: now,
+      expiresAt,
+      maxUses,
+      redemptions: {}
+    };
+    if (teamId) invite.teamId = teamId;
+
+    await this.setData(`invites/${code}`, invite);
+    return code;
+  }
+
+  /** Looks an invite up by its code as typed or scanned */
+  async getInvite(code: string): Promise<Invite | null> {
+    const inviteCode = readInviteCode(code);
+    return inviteCode ? await this.getData<Invite>(`invites/${inviteCode}`) : null;
+  }
+
+  /** Codes of the session's invites */
+  async listSessionInvites(sessionId: string): Promise<string[]> {
+    const invites = await this.getData<{ [code: string]: Invite }>('invites');
+    return Object.keys(sessionInvites(invites, sessionId)).sort();
+  }
+
+  /**
+   * Emits the session's invites, keyed by code, as they are created, redeemed and revoked
+   */
+  watchSessionInvites(
+    sessionId: string,
+    onChange: (invites: { [code: string]: Invite }) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<{ [code: string]: Invite }>(
+      'invites',
+      invites => onChange(sessionInvites(invites, sessionId)),
+      onError
+    );
+  }
+
+  async revokeInvite(code: string): Promise<void> {
+    const inviteCode = readInviteCode(code) ?? '';
+    const invite = inviteCode ? await this.getData<Invite>(`invites/${inviteCode}`) : null;
+    if (!invite) throw new NotFoundError('Invite not found', { inviteCode });
+    await this.authorize(
+      ['organizer', 'admin'],
+      { sessionId: invite.sessionId, inviteCode },
+      'revoke invites to this session'
+    );
+
+    await this.removeData(`invites/${inviteCode}`);
+  }
+
+  /**
+   * Joins the user to the invite's session, and to its team if it names one, in one
+   * update that also counts the redemption. A player already in the session can
+   * redeem a team invite to switch teams. Returns the redeemed invite.
+   */
+  async redeemInvite(code: string, userId: string): Promise<Invite> {
+    const inviteCode = readInviteCode(code) ?? '';
+    const invite = inviteCode ? await this.getData<Invite>(`invites/${inviteCode}`) : null;
+    if (!invite) throw new NotFoundError('Invite not found', { inviteCode });
+
+    const { sessionId, teamId } = invite;
+    const user = await this.getData<User>(`users/${userId}`);
+    if (!user) throw new NotFoundError('User not found', { userId });
+    await this.authorize(
+      ['self', 'organizer', 'admin'],
+      { userId, sessionId, inviteCode },
+      'redeem invites for this player'
+    );
+
+    const now = Date.now();
+    if (invite.expiresAt > 0 && now >= invite.expiresAt) {
+      throw new InvalidStateError('Invite has expired', { sessionId, inviteCode });
+    }
+
+    const progress = user.sessionsJoined[sessionId];
+    if (progress && (!teamId || progress.teamId === teamId)) {
+      throw new InvalidAssociationError(
+        teamId ? 'User is already on this team' : 'User is already part of this session',
+        { userId, sessionId, teamId }
+      );
+    }
+
+    if (invite.maxUses > 0 && Object.keys(invite.redemptions).length >= invite.maxUses) {
+      throw new InvalidStateError('Invite has no uses left', { sessionId, inviteCode });
+    }
+
+    await this.assertSessionRunning(sessionId, progress ? 'change teams' : 'join');
+    if (teamId) {
+      const team = await this.assertTeamInSession(sessionId, teamId);
+      await this.assertTeamHasRoom(sessionId, teamId, team);
+    }
+
+    const updates: { [path: string]: any } = {
+      [`invites/${inviteCode}/redemptions/${userId}`]: now,
+      [`sessions/${sessionId}/participants/${userId}`]: teamId ?? '',
+      [`users/${userId}/updatedAt`]: now
+    };
+    if (progress) {
+      updates[`users/${userId}/sessionsJoined/${sessionId}/teamId`] = teamId;
+      if (progress.teamId) {
+        updates[`teams/${progress.teamId}/members/${userId}`] = null;
+        Object.assign(updates, await this.captaincyUpdates(progress.teamId, userId));
+      }
+    } else {
+      updates[`users/${userId}/sessionsJoined/${sessionId}`] = teamId
+        ? { points: 0, foundArtifacts: {}, teamId }
+        : { points: 0, foundArtifacts: {} };
+    }
+    if (teamId) {
+      updates[`teams/${teamId}/members/${userId}`] = true;
+    }
+
+    await this.updateData(updates);
+    return { ...invite, redemptions: { ...invite.redemptions, [userId]: now } };
+  }
+
+  private async assertTeamInSession(sessionId: string, teamId: string): Promise<Team> {
+    const team = await this.getData<Team>(`teams/${teamId}`);
+    if (!team) throw new NotFoundError('Team not found', { teamId });
+    if (team.sessionId !== sessionId) {
+      throw new InvalidAssociationError('Team does not belong to this session', { sessionId, teamId });
+    }
+    return team;
+  }
+}
+
+function generateCode(): string {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function sessionInvites(
+  invites: { [code: string]: Invite } | null,
+  sessionId: string
+): { [code: string]: Invite } {
+  const result: { [code: string]: Invite } = {};
+  for (const [code, invite] of Object.entries(invites || {})) {
+    if (invite.sessionId === sessionId) result[code] = invite;
+  }
+  return result;
+}
@@ -0,0 +1,96 @@
+import { BaseService } from './BaseService';
+import { StorageAdapter } from './storage/StorageAdapter';
+import { MemoryStorageAdapter } from './storage/MemoryStorageAdapter';
+import { ValidationError } from './errors';
+import { MIGRATIONS } from './migrations';
+import {
+  Migration,
+  MigrationData,
+  MigrationOptions,
+  MigrationReport,
+  MigrationStep
+} from '../types/migration';
+
+export class MigrationService extends BaseService {
+  private migrations: Migration[];
+
+  constructor(baseNode?: string, storage?: StorageAdapter, migrations: Migration[] = MIGRATIONS) {
+    super(baseNode, storage);
+    migrations.forEach((migration, i) => {
+      if (migration.version !== i + 1) {
+        throw new Error(`Migration "${migration.description}" must be version ${i + 1}`);
+      }
+    });
+    this.migrations = migrations;
+  }
+
+  /** Version of the last migration applied to the base node; 0 if none has run */
+  async getSchemaVersion(): Promise<number> {
+    return (await this.getData<number>('schemaVersion')) ?? 0;
+  }
+
+  /**
+   * Runs the migrations between the stored schema version and the target version (the
+   * latest by default), going up or down as needed. Each migration is written in its
+   * own atomic update together with the version it leaves the data at, so a failed run
+   * can be resumed. A dry run reports the updates without writing anything.
+   */
+  async migrate(options: MigrationOptions = {}): Promise<MigrationReport> {
+    await this.authorize(['admin'], {}, 'migrate the database');
+
+    const latest = this.migrations.length;
+    const target = options.to ?? latest;
+    if (!Number.isInteger(target) || target < 0 || target > latest) {
+      throw new ValidationError(`Unknown schema version ${target}; the latest is ${latest}`);
+    }
+
+    const fromVersion = await this.getSchemaVersion();
+    if (fromVersion > latest) {
+      throw new ValidationError(
+        `Data is at schema version ${fromVersion}, which is newer than the latest known (${latest})`
+      );
+    }
+
+    const dryRun = options.dryRun === true;
+    const steps: MigrationStep[] = [];
+
+    // Later migrations see the data as the earlier ones left it, even in a dry run
+    const preview = new MemoryStorageAdapter(
+      (await this.storage.get<MigrationData>(this.getPath(''))) || {}
+    );
+
+    const pending = target >= fromVersion
+      ? this.migrations.slice(fromVersion, target)
+      : this.migrations.slice(target, fromVersion).reverse();
+    const direction = target >= fromVersion ? 'up' : 'down';
+
+    for (const migration of pending) {
+      const data = (await preview.get<MigrationData>('')) || {};
+      const updates = {
+        ...migration[direction](data),
+        schemaVersion: direction === 'up' ? migration.version : migration.version - 1
+      };
+
+      await preview.update(updates);
+      if (!dryRun) {
+        await this.writeMigration(updates);
+      }
+
+      steps.push({ version: migration.version, description: migration.description, direction, updates });
+    }
+
+    return { dryRun, fromVersion, toVersion: target, steps };
+  }
+
+  /**
+   * Migrations read and write the shapes of other schema versions, so their updates
+   * bypass the schema validation in updateData
+   */
+  private async writeMigration(updates: { [path: string]: any }): Promise<void> {
+    const rootUpdates: { [path: string]: any } = {};
+    for (const path of Object.keys(updates)) {
+      rootUpdates[this.getPath(path)] = updates[path];
+    }
+    await this.storage.update(rootUpdates);
+  }
+}
@@ -1,18 +1,46 @@
 import { BaseService } from './BaseService';
-import { Session, Team } from '../types/database';
+import { Invite, Session, SessionStatus, Team, User, Verification } from '../types/database';
+import { CascadeOptions, CascadeReport, CascadeStep } from '../types/cascade';
+import { Unsubscribe } from './storage/StorageAdapter';
+import { buildLeaderboard, Leaderboard } from './leaderboard';
+import { canTransition, sessionStatus } from './lifecycle';
+import {
+  NotFoundError,
+  AlreadyExistsError,
+  InvalidAssociationError,
+  PrematureDeletionError,
+  ValidationError,
+  InvalidStateError
+} from './errors';
+
+/**
+ * The order autoAssignTeams places players in: by user ID, or shuffled. Either way each
+ * player goes to the smallest team with room.
+ */
+export type TeamAssignmentOrder = 'by-id' | 'shuffled';
+
+/** Team each player was placed on, keyed by user ID */
+export type TeamAssignments = { [userId: string]: string };
 
 export class SessionService extends BaseService {
-  async createSession(sessionId: string, creatorId: string): Promise<void> {
+  async createSession(sessionId: string, creatorId: string, sessionName = ''): Promise<void> {
+    await this.authorize(
+      ['self', 'admin'],
+      { userId: creatorId, sessionId },
+      'create sessions for this organizer'
+    );
+
     const exists = await this.exists(`sessions/${sessionId}`);
     if (exists) {
-      throw new Error('Session already exists');
+      throw new AlreadyExistsError('Session already exists', { sessionId });
     }
 
     const newSession: Session = {
-      sessionName: '',
+      sessionName,
       creatorId,
       startTime: 0,
       endTime: 0,
+      status: 'draft',
       isActive: false,
       teams: {},
       participants: {},
@@ -28,97 +56,249 @@ export class SessionService extends BaseService {
 
   async setSessionName(sessionId: string, name: string): Promise<void> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'manage this session');
     
     await this.setData(`sessions/${sessionId}/sessionName`, name);
   }
 
   async setTimes(sessionId: string, startTime: number, endTime: number): Promise<void> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'manage this session');
     
     if (startTime >= endTime) {
-      throw new Error('Start time must be before end time');
+      throw new ValidationError('Start time must be before end time', { sessionId });
+    }
+
+    const status = sessionStatus(session);
+    if (status === 'ended' || status === 'archived') {
+      throw new InvalidStateError(`Cannot change the times of a session that is ${status}`, { sessionId });
     }
 
-    await this.setData(`sessions/${sessionId}/startTime`, startTime);
-    await this.setData(`sessions/${sessionId}/endTime`, endTime);
+    await this.updateData({
+      [`sessions/${sessionId}/startTime`]: startTime,
+      [`sessions/${sessionId}/endTime`]: endTime
+    });
   }
 
-  async setActiveStatus(sessionId: string, isActive: boolean): Promise<void> {
+  /**
+   * The session's current lifecycle status, accounting for its start and end times
+   */
+  async getStatus(sessionId: string): Promise<SessionStatus> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
-    
-    await this.setData(`sessions/${sessionId}/isActive`, isActive);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+
+    return sessionStatus(session);
+  }
+
+  /**
+   * Moves the session to another lifecycle status. Only the transitions of
+   * draft -> scheduled -> running <-> paused -> ended -> archived are allowed (a draft
+   * may also start right away, or a scheduled session go back to draft), and
+   * scheduling requires start and end times.
+   */
+  async setStatus(sessionId: string, status: SessionStatus): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'manage this session');
+
+    const current = sessionStatus(session);
+    if (!canTransition(current, status)) {
+      throw new InvalidStateError(`Cannot move session from ${current} to ${status}`, { sessionId });
+    }
+
+    if (status === 'scheduled' && !(session.startTime > 0 && session.endTime > session.startTime)) {
+      throw new ValidationError('Set start and end times before scheduling the session', { sessionId });
+    }
+
+    await this.updateData({
+      [`sessions/${sessionId}/status`]: status,
+      [`sessions/${sessionId}/isActive`]: status === 'running'
+    });
+  }
+
+  /**
+   * Limits how many players each team may have; 0 removes the limit. Teams already over
+   * a lowered limit keep their players.
+   */
+  async setMaxTeamSize(sessionId: string, maxTeamSize: number): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'manage this session');
+
+    if (!Number.isInteger(maxTeamSize) || maxTeamSize < 0) {
+      throw new ValidationError('Team size limit must be a non-negative whole number', { sessionId });
+    }
+
+    await this.setData(`sessions/${sessionId}/maxTeamSize`, maxTeamSize);
+  }
+
+  /**
+   * @deprecated Use setStatus. Activating starts or resumes the session and
+   * deactivating pauses it.
+   */
+  async setActiveStatus(sessionId: string, isActive: boolean): Promise<void> {
+    await this.setStatus(sessionId, isActive ? 'running' : 'paused');
   }
 
   async addTeam(sessionId: string, teamId: string): Promise<void> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'manage this session');
 
     const team = await this.getData<Team>(`teams/${teamId}`);
-    if (!team) throw new Error('Team not found');
+    if (!team) throw new NotFoundError('Team not found', { teamId });
 
     if (team.sessionId) {
-      throw new Error('Team is already part of another session');
+      throw new InvalidAssociationError(
+        'Team is already part of another session',
+        { sessionId: team.sessionId, teamId }
+      );
+    }
+
+    if (Object.keys(team.members).length > 0) {
+      throw new InvalidAssociationError('Team must be empty before adding to session', { sessionId, teamId });
     }
 
-    // More defensive check - treat undefined/null members same as empty object
-    if (team.members && Object.keys(team.members).length > 0) {
-      throw new Error('Team must be empty before adding to session');
+    await this.updateData({
+      [`sessions/${sessionId}/teams/${teamId}`]: true,
+      [`teams/${teamId}/sessionId`]: sessionId
+    });
+  }
+
+  /**
+   * Creates a team already in the session, in a single update so a failure leaves no
+   * stray team behind. As with TeamService.createTeam, whoever creates it captains it.
+   */
+  async addNewTeam(sessionId: string, teamId: string, teamName: string): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'manage this session');
+
+    if (await this.exists(`teams/${teamId}`)) {
+      throw new AlreadyExistsError('Team already exists', { teamId });
     }
 
-    await this.setData(`sessions/${sessionId}/teams/${teamId}`, true);
-    await this.setData(`teams/${teamId}/sessionId`, sessionId);
+    const team: Team = { sessionId, teamName, members: {} };
+    if (this.actorId) {
+      team.captainId = this.actorId;
+    }
+
+    await this.updateData({
+      [`teams/${teamId}`]: team,
+      [`sessions/${sessionId}/teams/${teamId}`]: true
+    });
   }
 
   async removeTeam(sessionId: string, teamId: string): Promise<void> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'manage this session');
 
     if (!session.teams || !session.teams[teamId]) {
-      throw new Error('Team is not part of this session');
+      throw new InvalidAssociationError('Team is not part of this session', { sessionId, teamId });
     }
 
     const team = await this.getData<Team>(`teams/${teamId}`);
-    if (!team) throw new Error('Team not found');
+    if (!team) throw new NotFoundError('Team not found', { teamId });
 
-    // More defensive check for team.members
-    if (team.members && Object.keys(team.members).length > 0) {
-      throw new Error('Team must be empty before removing from session');
+    if (Object.keys(team.members).length > 0) {
+      throw new PrematureDeletionError('Team must be empty before removing from session', { sessionId, teamId });
     }
 
-    await this.removeData(`sessions/${sessionId}/teams/${teamId}`);
-    await this.removeData(`teams/${teamId}/sessionId`);
+    await this.updateData({
+      [`sessions/${sessionId}/teams/${teamId}`]: null,
+      [`teams/${teamId}/sessionId`]: ''
+    });
+  }
+
+  /**
+   * Places every participant without a team on one, in a single update. Each player goes
+   * to the team with the fewest members (the first by ID on ties), so teams end up as even
+   * as their current sizes allow and equal teams fill in turn. Throws without placing
+   * anyone if the teams lack room for all of them under the session's maxTeamSize.
+   * Like every other team change, this is only allowed while the session is running.
+   */
+  async autoAssignTeams(
+    sessionId: string,
+    order: TeamAssignmentOrder = 'by-id'
+  ): Promise<TeamAssignments> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'assign players to teams in this session');
+
+    await this.assertSessionRunning(sessionId, 'change teams');
+
+    const unassigned = Object.keys(session.participants)
+      .filter(userId => !session.participants[userId])
+      .sort();
+    if (unassigned.length === 0) return {};
+    if (order === 'shuffled') shuffle(unassigned);
+
+    const teamIds = Object.keys(session.teams).sort();
+    const sizes: { [teamId: string]: number } = {};
+    for (const teamId of teamIds) {
+      const team = await this.getData<Team>(`teams/${teamId}`);
+      sizes[teamId] = Object.keys(team?.members ?? {}).length;
+    }
+
+    const assignments: TeamAssignments = {};
+    const updates: { [path: string]: any } = {};
+    const now = Date.now();
+    for (const userId of unassigned) {
+      const open = teamIds.filter(teamId => !session.maxTeamSize || sizes[teamId] < session.maxTeamSize);
+      if (open.length === 0) {
+        throw new InvalidStateError(
+          teamIds.length === 0
+            ? 'Session has no teams to assign players to'
+            : 'Teams are too full to take every player without one',
+          { sessionId }
+        );
+      }
+
+      const teamId = open.reduce((smallest, id) => (sizes[id] < sizes[smallest] ? id : smallest));
+      sizes[teamId]++;
+      assignments[userId] = teamId;
+      updates[`users/${userId}/sessionsJoined/${sessionId}/teamId`] = teamId;
+      updates[`teams/${teamId}/members/${userId}`] = true;
+      updates[`sessions/${sessionId}/participants/${userId}`] = teamId;
+      updates[`users/${userId}/updatedAt`] = now;
+    }
+
+    await this.updateData(updates);
+    return assignments;
   }
 
   async addArtifact(sessionId: string, artifactId: string): Promise<void> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'manage this session');
 
     const artifactExists = await this.exists(`artifacts/${artifactId}`);
-    if (!artifactExists) throw new Error('Artifact not found');
+    if (!artifactExists) throw new NotFoundError('Artifact not found', { artifactId });
 
     await this.setData(`sessions/${sessionId}/artifacts/${artifactId}`, true);
   }
 
   async removeArtifact(sessionId: string, artifactId: string): Promise<void> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'manage this session');
 
-    if (!session.artifacts || !session.artifacts[artifactId]) {
-      throw new Error('Artifact is not part of this session');
+    if (!session.artifacts[artifactId]) {
+      throw new InvalidAssociationError('Artifact is not part of this session', { sessionId, artifactId });
     }
 
-    // More defensive check - treat undefined/null participants same as empty object
-    if (session.participants) {
-      for (const userId of Object.keys(session.participants)) {
-        const userData = await this.getData(
-          `users/${userId}/sessionsJoined/${sessionId}/foundArtifacts/${artifactId}`
+    for (const userId of Object.keys(session.participants)) {
+      const userData = await this.getData(
+        `users/${userId}/sessionsJoined/${sessionId}/foundArtifacts/${artifactId}`
+      );
+      if (userData) {
+        throw new PrematureDeletionError(
+          'Cannot remove artifact that has been found by users',
+          { sessionId, artifactId, userId }
         );
-        if (userData) {
-          throw new Error('Cannot remove artifact that has been found by users');
-        }
       }
     }
 
@@ -127,38 +307,271 @@ export class SessionService extends BaseService {
 
   async deleteSession(sessionId: string): Promise<void> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'delete this session');
 
-    // More defensive checks for participants and teams
-    if (session.participants && Object.keys(session.participants).length > 0) {
-      throw new Error('Cannot delete session with active participants');
+    if (Object.keys(session.participants).length > 0) {
+      throw new PrematureDeletionError('Cannot delete session with active participants', { sessionId });
     }
 
-    if (session.teams && Object.keys(session.teams).length > 0) {
-      throw new Error('Cannot delete session with associated teams');
+    if (Object.keys(session.teams).length > 0) {
+      throw new PrematureDeletionError('Cannot delete session with associated teams', { sessionId });
     }
 
     await this.removeData(`sessions/${sessionId}`);
   }
 
+  /**
+   * Tears the whole session down: takes every participant out of their team and the
+   * session (clearing their found-artifact records and points), deletes the session's
+   * teams and invites and finally the session itself, in a single atomic update.
+   * Artifacts are shared across sessions and are left in place.
+   * With `dryRun` the steps are reported but nothing is written.
+   */
+  async dissolveSession(sessionId: string, options: CascadeOptions = {}): Promise<CascadeReport> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, 'delete this session');
+
+    const sessionTeams = session.teams;
+    const participants = session.participants;
+    const memberSteps: CascadeStep[] = [];
+    const teamSteps: CascadeStep[] = [];
+    const participantSteps: CascadeStep[] = [];
+    const deleteSteps: CascadeStep[] = [];
+    const updates: { [path: string]: any } = {};
+
+    for (const userId of Object.keys(participants)) {
+      const teamId = participants[userId];
+      if (teamId) {
+        memberSteps.push({ action: 'remove-user-from-team', userId, sessionId, teamId });
+        // Teams of this session are deleted outright below
+        if (!sessionTeams[teamId]) {
+          updates[`teams/${teamId}/members/${userId}`] = null;
+        }
+      }
+
+      const user = await this.getData<User>(`users/${userId}`);
+      const artifactIds = Object.keys(user?.sessionsJoined[sessionId]?.foundArtifacts || {});
+      if (artifactIds.length > 0) {
+        participantSteps.push({ action: 'clear-found-artifacts', userId, sessionId, artifactIds });
+      }
+      participantSteps.push({ action: 'remove-user-from-session', userId, sessionId });
+
+      if (user) {
+        updates[`users/${userId}/sessionsJoined/${sessionId}`] = null;
+        if (user.currentSession === sessionId) {
+          updates[`users/${userId}/currentSession`] = null;
+        }
+        updates[`users/${userId}/updatedAt`] = Date.now();
+      }
+    }
+
+    for (const teamId of Object.keys(sessionTeams)) {
+      teamSteps.push({ action: 'remove-team-from-session', sessionId, teamId });
+      deleteSteps.push({ action: 'delete-team', teamId });
+      updates[`teams/${teamId}`] = null;
+    }
+
+    const invites = await this.getData<{ [code: string]: Invite }>('invites');
+    for (const inviteCode of Object.keys(invites || {}).sort()) {
+      if (invites![inviteCode].sessionId === sessionId) {
+        deleteSteps.push({ action: 'delete-invite', sessionId, inviteCode });
+        updates[`invites/${inviteCode}`] = null;
+      }
+    }
+
+    const verifications = await this.getData<{ [id: string]: Verification }>('verifications');
+    for (const verificationId of Object.keys(verifications || {}).sort()) {
+      if (verifications![verificationId].sessionId === sessionId) {
+        deleteSteps.push({ action: 'delete-verification', sessionId, verificationId });
+        updates[`verifications/${verificationId}`] = null;
+      }
+    }
+
+    if (await this.exists(`pointAdjustments/${sessionId}`)) {
+      deleteSteps.push({ action: 'delete-point-adjustments', sessionId });
+      updates[`pointAdjustments/${sessionId}`] = null;
+    }
+
+    // Removing the session node also clears its teams, participants and artifact list
+    deleteSteps.push({ action: 'delete-session', sessionId });
+    updates[`sessions/${sessionId}`] = null;
+
+    const dryRun = options.dryRun === true;
+    if (!dryRun) {
+      await this.updateData(updates);
+    }
+
+    return {
+      dryRun,
+      steps: [...memberSteps, ...teamSteps, ...participantSteps, ...deleteSteps]
+    };
+  }
+
+  async listSessions(): Promise<string[]> {
+    const sessions = await this.getData<{ [sessionId: string]: Session }>('sessions');
+    return Object.keys(sessions || {});
+  }
+
   async listSessionTeams(sessionId: string): Promise<string[]> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
 
-    return Object.keys(session.teams || {});
+    return Object.keys(session.teams);
   }
 
   async listSessionParticipants(sessionId: string): Promise<string[]> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
 
-    return Object.keys(session.participants || {});
+    return Object.keys(session.participants);
   }
 
   async listSessionArtifacts(sessionId: string): Promise<string[]> {
     const session = await this.getSession(sessionId);
-    if (!session) throw new Error('Session not found');
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+
+    return Object.keys(session.artifacts);
+  }
+
+  /**
+   * Emits every session keyed by ID, for browsing the hunts a player can join
+   */
+  watchSessions(
+    onChange: (sessions: { [sessionId: string]: Session }) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<{ [sessionId: string]: Session }>(
+      'sessions',
+      sessions => onChange(sessions || {}),
+      onError
+    );
+  }
+
+  watchSession(
+    sessionId: string,
+    onChange: (session: Session | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<Session>(`sessions/${sessionId}`, onChange, onError);
+  }
+
+  /**
+   * Emits the session's participants as a map of user IDs to team IDs
+   * ('' for participants without a team).
+   */
+  watchSessionParticipants(
+    sessionId: string,
+    onChange: (participants: Session['participants']) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<Session['participants']>(
+      `sessions/${sessionId}/participants`,
+      participants => onChange(participants || {}),
+      onError
+    );
+  }
+
+  watchSessionArtifacts(
+    sessionId: string,
+    onChange: (artifactIds: string[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<Session['artifacts']>(
+      `sessions/${sessionId}/artifacts`,
+      artifacts => onChange(Object.keys(artifacts || {})),
+      onError
+    );
+  }
+
+  /**
+   * Ranks the session's participants and teams. Team scores are the sum of their
+   * members' session points; ties are broken by who reached their score first.
+   */
+  async getLeaderboard(sessionId: string): Promise<Leaderboard> {
+    const session = await this.getSession(sessionId);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+
+    const users: { [userId: string]: User | null } = {};
+    for (const userId of Object.keys(session.participants)) {
+      users[userId] = await this.getData<User>(`users/${userId}`);
+    }
+
+    const teams: { [teamId: string]: Team | null } = {};
+    for (const teamId of Object.keys(session.teams)) {
+      teams[teamId] = await this.getData<Team>(`teams/${teamId}`);
+    }
+
+    return buildLeaderboard(sessionId, session, users, teams);
+  }
+
+  /**
+   * Live variant of getLeaderboard. Follows participants and teams as they join or
+   * leave and emits a re-ranked leaderboard whenever anyone's points change.
+   */
+  watchLeaderboard(
+    sessionId: string,
+    onChange: (leaderboard: Leaderboard) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    let session: Session | null | undefined;
+    const users: { [userId: string]: User | null } = {};
+    const teams: { [teamId: string]: Team | null } = {};
+    const userListeners = new Map<string, Unsubscribe>();
+    const teamListeners = new Map<string, Unsubscribe>();
+
+    const emit = () => {
+      if (session === undefined) return;
+      // Hold back until every referenced user and team has loaded
+      const loaded = Array.from(userListeners.keys()).every(userId => userId in users) &&
+        Array.from(teamListeners.keys()).every(teamId => teamId in teams);
+      if (loaded) {
+        onChange(buildLeaderboard(sessionId, session, users, teams));
+      }
+    };
+
+    const follow = <T>(
+      listeners: Map<string, Unsubscribe>,
+      cache: { [id: string]: T | null },
+      ids: string[],
+      collection: string
+    ) => {
+      for (const id of Array.from(listeners.keys())) {
+        if (!ids.includes(id)) {
+          listeners.get(id)!();
+          listeners.delete(id);
+          delete cache[id];
+        }
+      }
+      for (const id of ids) {
+        if (listeners.has(id)) continue;
+        listeners.set(id, this.subscribe<T>(`${collection}/${id}`, value => {
+          cache[id] = value;
+          emit();
+        }, onError));
+      }
+    };
+
+    const stopSession = this.subscribe<Session>(`sessions/${sessionId}`, value => {
+      session = value;
+      follow(userListeners, users, Object.keys(value?.participants || {}), 'users');
+      follow(teamListeners, teams, Object.keys(value?.teams || {}), 'teams');
+      emit();
+    }, onError);
+
+    return () => {
+      stopSession();
+      userListeners.forEach(stop => stop());
+      teamListeners.forEach(stop => stop());
+    };
+  }
+}
 
-    return Object.keys(session.artifacts || {});
+/** Shuffles in place (Fisher-Yates) */
+function shuffle<T>(items: T[]): void {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
   }
 }
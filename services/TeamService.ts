@@ -1,11 +1,19 @@
 import { BaseService } from './BaseService';
-import { Team } from '../types/database';
+import { Invite, Team } from '../types/database';
+import { CascadeOptions, CascadeReport, CascadeStep } from '../types/cascade';
+import { Unsubscribe } from './storage/StorageAdapter';
+import {
+  NotFoundError,
+  AlreadyExistsError,
+  InvalidAssociationError,
+  PrematureDeletionError
+} from './errors';
 
 export class TeamService extends BaseService {
   async createTeam(teamId: string): Promise<void> {
     const exists = await this.exists(`teams/${teamId}`);
     if (exists) {
-      throw new Error('Team already exists');
+      throw new AlreadyExistsError('Team already exists', { teamId });
     }
 
     const newTeam: Team = {
@@ -14,6 +22,11 @@ export class TeamService extends BaseService {
       members: {}
     };
 
+    // Whoever creates a team captains it until someone else is named
+    if (this.actorId) {
+      newTeam.captainId = this.actorId;
+    }
+
     await this.setData(`teams/${teamId}`, newTeam);
   }
 
@@ -23,84 +36,201 @@ export class TeamService extends BaseService {
 
   async setTeamName(teamId: string, name: string): Promise<void> {
     const team = await this.getTeam(teamId);
-    if (!team) throw new Error('Team not found');
+    if (!team) throw new NotFoundError('Team not found', { teamId });
+    await this.authorize(['captain', 'organizer', 'admin'], { teamId }, 'rename this team');
     
     await this.setData(`teams/${teamId}/teamName`, name);
   }
 
+  /**
+   * Hands the team's captaincy to one of its members
+   */
+  async setCaptain(teamId: string, userId: string): Promise<void> {
+    const team = await this.getTeam(teamId);
+    if (!team) throw new NotFoundError('Team not found', { teamId });
+    await this.authorize(['captain', 'organizer', 'admin'], { teamId }, 'name the team captain');
+
+    if (!team.members || !team.members[userId]) {
+      throw new InvalidAssociationError('User is not a member of this team', { userId, teamId });
+    }
+
+    await this.setData(`teams/${teamId}/captainId`, userId);
+  }
+
   async addMember(teamId: string, userId: string): Promise<void> {
     const team = await this.getTeam(teamId);
-    if (!team) throw new Error('Team not found');
+    if (!team) throw new NotFoundError('Team not found', { teamId });
+    await this.authorize(
+      ['self', 'organizer', 'admin'],
+      { userId, teamId },
+      'add members to this team'
+    );
 
     if (!team.sessionId) {
-      throw new Error('Team must be assigned to a session before adding members');
+      throw new InvalidAssociationError(
+        'Team must be assigned to a session before adding members',
+        { teamId, userId }
+      );
     }
 
-    // Check if user exists in the team's session
-    const userInSession = await this.exists(
+    // Check if user exists in the team's session; the participant entry holds their current team
+    const currentTeamId = await this.getData<string>(
       `sessions/${team.sessionId}/participants/${userId}`
     );
-    if (!userInSession) {
-      throw new Error('User must be part of the session before joining team');
+    if (currentTeamId === null) {
+      throw new InvalidAssociationError(
+        'User must be part of the session before joining team',
+        { userId, sessionId: team.sessionId, teamId }
+      );
     }
 
-    // More defensive check - make sure members exists
-    if (team.members && team.members[userId]) {
-      throw new Error('User is already a member of this team');
+    if (team.members[userId]) {
+      throw new InvalidAssociationError('User is already a member of this team', { userId, teamId });
     }
 
-    await this.setData(`teams/${teamId}/members/${userId}`, true);
-    await this.setData(
-      `sessions/${team.sessionId}/participants/${userId}`,
-      teamId
-    );
+    await this.assertSessionRunning(team.sessionId, 'change teams');
+    await this.assertTeamHasRoom(team.sessionId, teamId, team);
+
+    const updates: { [path: string]: any } = {
+      [`teams/${teamId}/members/${userId}`]: true,
+      [`sessions/${team.sessionId}/participants/${userId}`]: teamId,
+      [`users/${userId}/sessionsJoined/${team.sessionId}/teamId`]: teamId,
+      [`users/${userId}/updatedAt`]: Date.now()
+    };
+
+    // Users can only be in one team per session, so leave the previous team in the same update
+    if (currentTeamId) {
+      updates[`teams/${currentTeamId}/members/${userId}`] = null;
+      Object.assign(updates, await this.captaincyUpdates(currentTeamId, userId));
+    }
+
+    await this.updateData(updates);
   }
 
   async removeMember(teamId: string, userId: string): Promise<void> {
     const team = await this.getTeam(teamId);
-    if (!team) throw new Error('Team not found');
+    if (!team) throw new NotFoundError('Team not found', { teamId });
+    await this.authorize(
+      ['self', 'organizer', 'admin'],
+      { userId, teamId },
+      'remove members from this team'
+    );
 
-    // More defensive check for members property
-    if (!team.members || !team.members[userId]) {
-      throw new Error('User is not a member of this team');
+    if (!team.members[userId]) {
+      throw new InvalidAssociationError('User is not a member of this team', { userId, teamId });
     }
 
-    await this.removeData(`teams/${teamId}/members/${userId}`);
+    const updates: { [path: string]: any } = {
+      [`teams/${teamId}/members/${userId}`]: null,
+      ...await this.captaincyUpdates(teamId, userId)
+    };
+
     if (team.sessionId) {
-      await this.setData(
-        `sessions/${team.sessionId}/participants/${userId}`,
-        ''
-      );
+      await this.assertSessionRunning(team.sessionId, 'change teams');
+      updates[`sessions/${team.sessionId}/participants/${userId}`] = '';
+      updates[`users/${userId}/sessionsJoined/${team.sessionId}/teamId`] = null;
+      updates[`users/${userId}/updatedAt`] = Date.now();
     }
+
+    await this.updateData(updates);
   }
 
   async deleteTeam(teamId: string): Promise<void> {
     const team = await this.getTeam(teamId);
-    if (!team) throw new Error('Team not found');
+    if (!team) throw new NotFoundError('Team not found', { teamId });
+    await this.authorize(['organizer', 'admin'], { teamId }, 'delete this team');
 
     if (team.sessionId) {
-      throw new Error('Remove team from session before deletion');
+      throw new PrematureDeletionError(
+        'Remove team from session before deletion',
+        { teamId, sessionId: team.sessionId }
+      );
     }
 
-    // More defensive check for members property
-    if (team.members && Object.keys(team.members).length > 0) {
-      throw new Error('Remove all team members before deletion');
+    if (Object.keys(team.members).length > 0) {
+      throw new PrematureDeletionError('Remove all team members before deletion', { teamId });
     }
 
     await this.removeData(`teams/${teamId}`);
   }
 
+  /**
+   * Removes every member from the team, detaches it from its session and deletes it along
+   * with its invites, following the documented deletion order in a single atomic update.
+   * With `dryRun` the steps are reported but nothing is written.
+   */
+  async dissolveTeam(teamId: string, options: CascadeOptions = {}): Promise<CascadeReport> {
+    const team = await this.getTeam(teamId);
+    if (!team) throw new NotFoundError('Team not found', { teamId });
+    await this.authorize(['organizer', 'admin'], { teamId }, 'delete this team');
+
+    const sessionId = team.sessionId || undefined;
+    const steps: CascadeStep[] = [];
+    const updates: { [path: string]: any } = {};
+
+    for (const userId of Object.keys(team.members)) {
+      steps.push({ action: 'remove-user-from-team', userId, sessionId, teamId });
+      if (sessionId) {
+        updates[`users/${userId}/sessionsJoined/${sessionId}/teamId`] = null;
+        updates[`sessions/${sessionId}/participants/${userId}`] = '';
+      }
+    }
+
+    if (sessionId) {
+      steps.push({ action: 'remove-team-from-session', sessionId, teamId });
+      updates[`sessions/${sessionId}/teams/${teamId}`] = null;
+    }
+
+    const invites = await this.getData<{ [code: string]: Invite }>('invites');
+    for (const inviteCode of Object.keys(invites || {}).sort()) {
+      if (invites![inviteCode].teamId === teamId) {
+        steps.push({ action: 'delete-invite', sessionId, teamId, inviteCode });
+        updates[`invites/${inviteCode}`] = null;
+      }
+    }
+
+    // Removing the team node also clears its members
+    steps.push({ action: 'delete-team', teamId });
+    updates[`teams/${teamId}`] = null;
+
+    const dryRun = options.dryRun === true;
+    if (!dryRun) {
+      await this.updateData(updates);
+    }
+
+    return { dryRun, steps };
+  }
+
   async listTeamMembers(teamId: string): Promise<string[]> {
     const team = await this.getTeam(teamId);
-    if (!team) throw new Error('Team not found');
+    if (!team) throw new NotFoundError('Team not found', { teamId });
 
-    // More defensive check when listing members
-    return Object.keys(team.members || {});
+    return Object.keys(team.members);
+  }
+
+  watchTeam(
+    teamId: string,
+    onChange: (team: Team | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<Team>(`teams/${teamId}`, onChange, onError);
+  }
+
+  watchTeamMembers(
+    teamId: string,
+    onChange: (memberIds: string[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<Team['members']>(
+      `teams/${teamId}/members`,
+      members => onChange(Object.keys(members || {})),
+      onError
+    );
   }
 
   async getTeamSession(teamId: string): Promise<string | null> {
     const team = await this.getTeam(teamId);
-    if (!team) throw new Error('Team not found');
+    if (!team) throw new NotFoundError('Team not found', { teamId });
 
     return team.sessionId || null;
   }
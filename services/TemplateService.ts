@@ -0,0 +1,244 @@
+import { BaseService } from './BaseService';
+import { Session, SessionTemplate, Team } from '../types/database';
+import { NotFoundError, AlreadyExistsError, ValidationError } from './errors';
+
+/**
+ * What a template is made of, as passed to createTemplate
+ *
+ * @property teamNames - One team is created per name, in order
+ */
+export interface TemplateDefinition {
+  templateName: string;
+  sessionName: string;
+  startOffset: number;
+  duration: number;
+  artifactIds: string[];
+  teamNames: string[];
+}
+
+/**
+ * @property creatorId - Organizer of the new session
+ * @property sessionName - Overrides the name taken from the template or session
+ * @property startTime - Overrides the start time; the end time keeps the same duration
+ */
+export interface CloneOptions {
+  creatorId: string;
+  sessionName?: string;
+  startTime?: number;
+}
+
+/**
+ * The new session's teams, keyed by the template slot or source team they were made from
+ */
+export type ClonedTeamIds = { [source: string]: string };
+
+export class TemplateService extends BaseService {
+  async createTemplate(
+    templateId: string,
+    creatorId: string,
+    definition: TemplateDefinition
+  ): Promise<void> {
+    await this.authorize(
+      ['self', 'admin'],
+      { userId: creatorId, templateId },
+      'create templates for this organizer'
+    );
+    await this.assertTemplateAvailable(templateId);
+    await this.assertArtifactsExist(definition.artifactIds);
+
+    if (definition.startOffset < 0 || definition.duration < 0) {
+      throw new ValidationError('Template start offset and duration cannot be negative', { templateId });
+    }
+
+    const teams: SessionTemplate['teams'] = {};
+    definition.teamNames.forEach((teamName, i) => {
+      teams[`team${i + 1}`] = teamName;
+    });
+
+    await this.setData(`templates/${templateId}`, {
+      templateName: definition.templateName,
+      creatorId,
+      sessionName: definition.sessionName,
+      startOffset: definition.startOffset,
+      duration: definition.duration,
+      artifacts: toFlags(definition.artifactIds),
+      teams,
+      createdAt: Date.now()
+    });
+  }
+
+  /**
+   * Captures an existing session's name, artifacts, team names and length as a
+   * template. Sessions created from it start `startOffset` after they are created.
+   */
+  async createTemplateFromSession(
+    templateId: string,
+    sessionId: string,
+    templateName: string,
+    startOffset: number = 0
+  ): Promise<void> {
+    const session = await this.getData<Session>(`sessions/${sessionId}`);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId, templateId }, 'manage this session');
+    await this.assertTemplateAvailable(templateId);
+
+    const template: SessionTemplate = {
+      ...(await this.captureSession(session)),
+      templateName,
+      creatorId: this.actorId ?? session.creatorId,
+      startOffset,
+      createdAt: Date.now()
+    };
+
+    await this.setData(`templates/${templateId}`, template);
+  }
+
+  async getTemplate(templateId: string): Promise<SessionTemplate | null> {
+    return await this.getData<SessionTemplate>(`templates/${templateId}`);
+  }
+
+  /** Template IDs, optionally only those created by the given user */
+  async listTemplates(creatorId?: string): Promise<string[]> {
+    const templates = await this.getData<{ [id: string]: SessionTemplate }>('templates');
+    return Object.keys(templates || {}).filter(
+      templateId => creatorId === undefined || templates![templateId].creatorId === creatorId
+    );
+  }
+
+  async deleteTemplate(templateId: string): Promise<void> {
+    const template = await this.getTemplate(templateId);
+    if (!template) throw new NotFoundError('Template not found', { templateId });
+    await this.authorize(
+      ['self', 'admin'],
+      { userId: template.creatorId, templateId },
+      'delete this template'
+    );
+
+    await this.removeData(`templates/${templateId}`);
+  }
+
+  /**
+   * Creates a draft session set up from a template: the template's artifacts, a new team
+   * for each of its team slots, and times offset from now. Everything is written in one
+   * atomic update.
+   */
+  async createSessionFromTemplate(
+    templateId: string,
+    sessionId: string,
+    options: CloneOptions
+  ): Promise<ClonedTeamIds> {
+    const template = await this.getTemplate(templateId);
+    if (!template) throw new NotFoundError('Template not found', { templateId });
+
+    const startTime = options.startTime ?? Date.now() + template.startOffset;
+    return await this.instantiate(sessionId, template, startTime, options);
+  }
+
+  /**
+   * Creates a draft session with the same name, artifacts, team names and length as an
+   * existing one. Players, finds and team rosters are not copied, and the new teams get
+   * fresh IDs. The copy starts at `startTime`, or when the original did.
+   */
+  async cloneSession(
+    sourceSessionId: string,
+    sessionId: string,
+    options: CloneOptions
+  ): Promise<ClonedTeamIds> {
+    const source = await this.getData<Session>(`sessions/${sourceSessionId}`);
+    if (!source) throw new NotFoundError('Session not found', { sessionId: sourceSessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId: sourceSessionId }, 'copy this session');
+
+    const setup = await this.captureSession(source);
+    return await this.instantiate(sessionId, setup, options.startTime ?? source.startTime, options);
+  }
+
+  private async captureSession(
+    session: Session
+  ): Promise<Pick<SessionTemplate, 'sessionName' | 'duration' | 'artifacts' | 'teams'>> {
+    const teams: SessionTemplate['teams'] = {};
+    for (const teamId of Object.keys(session.teams)) {
+      const team = await this.getData<Team>(`teams/${teamId}`);
+      if (team) teams[teamId] = team.teamName;
+    }
+
+    const hasTimes = session.startTime > 0 && session.endTime > session.startTime;
+    return {
+      sessionName: session.sessionName,
+      duration: hasTimes ? session.endTime - session.startTime : 0,
+      artifacts: { ...session.artifacts },
+      teams
+    };
+  }
+
+  private async instantiate(
+    sessionId: string,
+    setup: Pick<SessionTemplate, 'sessionName' | 'duration' | 'artifacts' | 'teams'>,
+    startTime: number,
+    options: CloneOptions
+  ): Promise<ClonedTeamIds> {
+    await this.authorize(
+      ['self', 'admin'],
+      { userId: options.creatorId, sessionId },
+      'create sessions for this organizer'
+    );
+
+    if (await this.exists(`sessions/${sessionId}`)) {
+      throw new AlreadyExistsError('Session already exists', { sessionId });
+    }
+    await this.assertArtifactsExist(Object.keys(setup.artifacts));
+
+    const timed = setup.duration > 0 && startTime > 0;
+    const session: Session = {
+      sessionName: options.sessionName ?? setup.sessionName,
+      creatorId: options.creatorId,
+      startTime: timed ? startTime : 0,
+      endTime: timed ? startTime + setup.duration : 0,
+      status: 'draft',
+      isActive: false,
+      teams: {},
+      participants: {},
+      artifacts: { ...setup.artifacts }
+    };
+
+    const updates: { [path: string]: any } = {};
+    const teamIds: ClonedTeamIds = {};
+    for (const source of Object.keys(setup.teams)) {
+      const teamId = this.generateId();
+      const team: Team = { sessionId, teamName: setup.teams[source], members: {} };
+      // As with createTeam, whoever creates the teams captains them until someone else is named
+      if (this.actorId) {
+        team.captainId = this.actorId;
+      }
+
+      updates[`teams/${teamId}`] = team;
+      session.teams[teamId] = true;
+      teamIds[source] = teamId;
+    }
+    updates[`sessions/${sessionId}`] = session;
+
+    await this.updateData(updates);
+    return teamIds;
+  }
+
+  private async assertTemplateAvailable(templateId: string): Promise<void> {
+    if (await this.exists(`templates/${templateId}`)) {
+      throw new AlreadyExistsError('Template already exists', { templateId });
+    }
+  }
+
+  private async assertArtifactsExist(artifactIds: string[]): Promise<void> {
+    for (const artifactId of artifactIds) {
+      if (!(await this.exists(`artifacts/${artifactId}`))) {
+        throw new NotFoundError('Artifact not found', { artifactId });
+      }
+    }
+  }
+}
+
+function toFlags(ids: string[]): { [id: string]: boolean } {
+  const flags: { [id: string]: boolean } = {};
+  for (const id of ids) {
+    flags[id] = true;
+  }
+  return flags;
+}
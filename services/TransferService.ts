@@ -0,0 +1,476 @@
+import { BaseService } from './BaseService';
+import { Artifact, Session, Team, User } from '../types/database';
+import { NotFoundError, ValidationError, ImportError, TeamFullError } from './errors';
+import { DEFAULT_ARTIFACT_POINTS, DEFAULT_CHALLENGE_BONUS } from './scoring';
+import { isValidCoordinates } from './geo';
+import { sessionStatus } from './lifecycle';
+import { formatCsv, parseCsv } from './csv';
+import { formatGpx, readGeoJson, readGpx, toGeoJson } from './mapFormats';
+import {
+  ArtifactRow,
+  FindRow,
+  ImportOptions,
+  ImportReport,
+  MapFormat,
+  ParticipantRow,
+  RosterRow,
+  RowError,
+  SessionCsvExport,
+  SessionExport,
+  TransferFormat
+} from '../types/transfer';
+
+const ARTIFACT_COLUMNS: (keyof ArtifactRow)[] = [
+  'artifactId', 'name', 'description', 'locationHint', 'latitude', 'longitude', 'isChallenge',
+  'points', 'challengeBonus', 'claimRadius', 'imageUrl', 'audioUrl'
+];
+const ROSTER_COLUMNS: (keyof RosterRow)[] = ['teamId', 'teamName', 'userId'];
+const PARTICIPANT_COLUMNS: (keyof ParticipantRow)[] = ['userId', 'displayName', 'teamId', 'points'];
+const FIND_COLUMNS: (keyof FindRow)[] = ['userId', 'artifactId', 'points', 'foundAt'];
+
+/** Characters the database does not allow in keys */
+const INVALID_KEY = /[.#$[\]/]/;
+
+export class TransferService extends BaseService {
+  /**
+   * Creates an artifact for each row of a CSV or JSON table, or each point of a GeoJSON
+   * or GPX map, and adds them all to the session. Every row is checked before anything
+   * is written: if any row is invalid, an ImportError lists the problems and nothing is
+   * imported. Otherwise the artifacts are written in one atomic update.
+   */
+  async importArtifacts(
+    sessionId: string,
+    content: string,
+    format: TransferFormat | MapFormat,
+    options: ImportOptions = {}
+  ): Promise<ImportReport> {
+    await this.getManagedSession(sessionId, 'import into this session');
+
+    const errors: RowError[] = [];
+    const records = format === 'geojson' || format === 'gpx'
+      ? readArtifactMap(content, format, errors)
+      : readTable(content, format, 'artifacts', ARTIFACT_COLUMNS);
+    const updates: { [path: string]: any } = {};
+    const created: string[] = [];
+    const rowOfId: { [artifactId: string]: number } = {};
+
+    for (const record of records) {
+      const reader = new RowReader(record, errors);
+
+      const artifactId = reader.text('artifactId').trim() || this.generateId();
+      if (INVALID_KEY.test(artifactId)) {
+        reader.fail('artifactId', 'Artifact ID cannot contain ".", "#", "$", "[", "]" or "/"');
+      } else if (rowOfId[artifactId] !== undefined) {
+        reader.fail('artifactId', `Artifact ID is already used in row ${rowOfId[artifactId]}`);
+      } else if (await this.exists(`artifacts/${artifactId}`)) {
+        reader.fail('artifactId', 'Artifact already exists');
+      }
+      rowOfId[artifactId] ??= record.row;
+
+      const points = reader.number('points') ?? DEFAULT_ARTIFACT_POINTS;
+      const challengeBonus = reader.number('challengeBonus') ?? DEFAULT_CHALLENGE_BONUS;
+      const artifact: Artifact = {
+        name: reader.text('name').trim(),
+        description: reader.text('description'),
+        locationHint: reader.text('locationHint'),
+        latitude: reader.number('latitude') ?? NaN,
+        longitude: reader.number('longitude') ?? NaN,
+        isChallenge: reader.boolean('isChallenge'),
+        points,
+        challengeBonus
+      };
+
+      if (!artifact.name) {
+        reader.fail('name', 'Name is required');
+      }
+      if (!isValidCoordinates({ latitude: artifact.latitude, longitude: 0 })) {
+        reader.fail('latitude', 'Latitude must be a number from -90 to 90');
+      }
+      if (!isValidCoordinates({ latitude: 0, longitude: artifact.longitude })) {
+        reader.fail('longitude', 'Longitude must be a number from -180 to 180');
+      }
+      if (!Number.isInteger(points) || points < 0) {
+        reader.fail('points', 'Points must be a non-negative whole number');
+      }
+      if (!Number.isInteger(challengeBonus) || challengeBonus < 0) {
+        reader.fail('challengeBonus', 'Challenge bonus must be a non-negative whole number');
+      }
+
+      const claimRadius = reader.number('claimRadius');
+      if (claimRadius !== undefined) {
+        if (!Number.isFinite(claimRadius) || claimRadius <= 0) {
+          reader.fail('claimRadius', 'Claim radius must be a positive number of meters');
+        }
+        artifact.claimRadius = claimRadius;
+      }
+
+      const imageUrl = reader.url('imageUrl');
+      if (imageUrl) artifact.imageUrl = imageUrl;
+      const audioUrl = reader.url('audioUrl');
+      if (audioUrl) artifact.audioUrl = audioUrl;
+
+      if (this.actorId) {
+        artifact.creatorId = this.actorId;
+      }
+
+      updates[`artifacts/${artifactId}`] = artifact;
+      updates[`sessions/${sessionId}/artifacts/${artifactId}`] = true;
+      created.push(artifactId);
+    }
+
+    return await this.finishImport(sessionId, records.length, created, updates, errors, options);
+  }
+
+  /**
+   * Puts the players listed in a CSV or JSON roster on their teams. Teams are matched
+   * to the session's teams by name, and a team is created for each name the session
+   * does not have yet. Players must already have an account; they are added to the
+   * session if needed, and moved if they are on another of its teams, so the session
+   * must be running. As with importArtifacts, nothing is written unless every row is valid.
+   */
+  async importRoster(
+    sessionId: string,
+    content: string,
+    format: TransferFormat,
+    options: ImportOptions = {}
+  ): Promise<ImportReport> {
+    const session = await this.getManagedSession(sessionId, 'import into this session');
+    // Joining and changing teams one at a time are only allowed then, so the same goes for rosters
+    await this.assertSessionRunning(sessionId, 'import rosters');
+
+    const records = readTable(content, format, 'roster', ROSTER_COLUMNS);
+    const errors: RowError[] = [];
+    const updates: { [path: string]: any } = {};
+    const created: string[] = [];
+    const newTeams: { [teamId: string]: Team } = {};
+    const rowOfUser: { [userId: string]: number } = {};
+
+    const teamIdsByName = new Map<string, string>();
+    const teamSizes: { [teamId: string]: number } = {};
+    for (const teamId of Object.keys(session.teams)) {
+      const team = await this.getData<Team>(`teams/${teamId}`);
+      if (team) {
+        teamIdsByName.set(team.teamName, teamId);
+        teamSizes[teamId] = Object.keys(team.members).length;
+      }
+    }
+
+    for (const record of records) {
+      const reader = new RowReader(record, errors);
+      const teamName = reader.text('teamName').trim();
+      const userId = reader.text('userId').trim();
+
+      if (!teamName) {
+        reader.fail('teamName', 'Team name is required');
+        continue;
+      }
+
+      let teamId = teamIdsByName.get(teamName);
+      if (!teamId) {
+        teamId = this.generateId();
+        teamIdsByName.set(teamName, teamId);
+        newTeams[teamId] = { sessionId, teamName, members: {} };
+        teamSizes[teamId] = 0;
+        // As with createTeam, whoever creates the teams captains them until someone else is named
+        if (this.actorId) {
+          newTeams[teamId].captainId = this.actorId;
+        }
+        created.push(teamId);
+      }
+
+      if (!userId) continue;
+      if (rowOfUser[userId] !== undefined) {
+        reader.fail('userId', `User is already listed in row ${rowOfUser[userId]}`);
+        continue;
+      }
+      rowOfUser[userId] = record.row;
+
+      const user = INVALID_KEY.test(userId) ? null : await this.getData<User>(`users/${userId}`);
+      if (!user) {
+        reader.fail('userId', 'User not found');
+        continue;
+      }
+
+      const joined = user.sessionsJoined[sessionId];
+      if (joined?.teamId !== teamId) {
+        // Rows are placed in order, so a player moving out later does not make room earlier
+        if (session.maxTeamSize && teamSizes[teamId] >= session.maxTeamSize) {
+          reader.fail('teamName', new TeamFullError(session.maxTeamSize).message);
+          continue;
+        }
+        teamSizes[teamId]++;
+        if (joined?.teamId) teamSizes[joined.teamId]--;
+      }
+
+      if (!joined) {
+        updates[`users/${userId}/sessionsJoined/${sessionId}`] = { teamId, points: 0, foundArtifacts: {} };
+      } else if (joined.teamId !== teamId) {
+        updates[`users/${userId}/sessionsJoined/${sessionId}/teamId`] = teamId;
+        if (joined.teamId) {
+          updates[`teams/${joined.teamId}/members/${userId}`] = null;
+        }
+      }
+
+      if (newTeams[teamId]) {
+        newTeams[teamId].members[userId] = true;
+      } else {
+        updates[`teams/${teamId}/members/${userId}`] = true;
+      }
+      updates[`sessions/${sessionId}/participants/${userId}`] = teamId;
+      updates[`users/${userId}/updatedAt`] = Date.now();
+    }
+
+    for (const teamId of Object.keys(newTeams)) {
+      updates[`teams/${teamId}`] = newTeams[teamId];
+      updates[`sessions/${sessionId}/teams/${teamId}`] = true;
+    }
+
+    return await this.finishImport(sessionId, records.length, created, updates, errors, options);
+  }
+
+  /**
+   * Collects a session's artifacts, team rosters, participants, finds and points
+   */
+  async exportSession(sessionId: string): Promise<SessionExport> {
+    const session = await this.getManagedSession(sessionId, 'export this session');
+    const artifacts = await this.collectArtifacts(session);
+
+    const roster: RosterRow[] = [];
+    for (const teamId of Object.keys(session.teams)) {
+      const team = await this.getData<Team>(`teams/${teamId}`);
+      if (!team) continue;
+
+      const members = Object.keys(team.members);
+      if (members.length === 0) {
+        roster.push({ teamId, teamName: team.teamName, userId: '' });
+      }
+      for (const userId of members) {
+        roster.push({ teamId, teamName: team.teamName, userId });
+      }
+    }
+
+    const participants: ParticipantRow[] = [];
+    const finds: FindRow[] = [];
+    for (const userId of Object.keys(session.participants)) {
+      const user = await this.getData<User>(`users/${userId}`);
+      const joined = user?.sessionsJoined[sessionId];
+      participants.push({
+        userId,
+        displayName: user?.displayName ?? '',
+        teamId: joined?.teamId ?? session.participants[userId],
+        points: joined?.points ?? 0
+      });
+
+      for (const artifactId of Object.keys(joined?.foundArtifacts ?? {})) {
+        finds.push({
+          userId,
+          artifactId,
+          points: joined?.foundArtifactPoints?.[artifactId] ?? 0,
+          foundAt: joined?.foundAt?.[artifactId] ?? 0
+        });
+      }
+    }
+
+    return {
+      sessionId,
+      sessionName: session.sessionName,
+      creatorId: session.creatorId,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      status: sessionStatus(session),
+      artifacts,
+      roster,
+      participants,
+      finds
+    };
+  }
+
+  async exportSessionJson(sessionId: string): Promise<string> {
+    return JSON.stringify(await this.exportSession(sessionId), null, 2) + '\n';
+  }
+
+  /** One CSV table per kind of row; the session's own fields are only in the JSON export */
+  async exportSessionCsv(sessionId: string): Promise<SessionCsvExport> {
+    const data = await this.exportSession(sessionId);
+    return {
+      artifacts: formatCsv(ARTIFACT_COLUMNS, data.artifacts),
+      roster: formatCsv(ROSTER_COLUMNS, data.roster),
+      participants: formatCsv(PARTICIPANT_COLUMNS, data.participants),
+      finds: formatCsv(FIND_COLUMNS, data.finds)
+    };
+  }
+
+  /**
+   * The session's artifacts as a GeoJSON FeatureCollection of points, or as GPX
+   * waypoints, for viewing and editing the hunt's layout in mapping tools
+   */
+  async exportArtifactMap(sessionId: string, format: MapFormat): Promise<string> {
+    const session = await this.getManagedSession(sessionId, 'export this session');
+    const artifacts = await this.collectArtifacts(session);
+
+    return format === 'geojson'
+      ? JSON.stringify(toGeoJson(artifacts), null, 2) + '\n'
+      : formatGpx(artifacts, session.sessionName);
+  }
+
+  private async collectArtifacts(session: Session): Promise<ArtifactRow[]> {
+    const artifacts: ArtifactRow[] = [];
+    for (const artifactId of Object.keys(session.artifacts)) {
+      const artifact = await this.getData<Artifact>(`artifacts/${artifactId}`);
+      if (artifact) artifacts.push(toArtifactRow(artifactId, artifact));
+    }
+    return artifacts;
+  }
+
+  private async getManagedSession(sessionId: string, action: string): Promise<Session> {
+    const session = await this.getData<Session>(`sessions/${sessionId}`);
+    if (!session) throw new NotFoundError('Session not found', { sessionId });
+    await this.authorize(['organizer', 'admin'], { sessionId }, action);
+    return session;
+  }
+
+  private async finishImport(
+    sessionId: string,
+    rows: number,
+    created: string[],
+    updates: { [path: string]: any },
+    errors: RowError[],
+    options: ImportOptions
+  ): Promise<ImportReport> {
+    if (errors.length > 0) {
+      throw new ImportError(errors.sort((a, b) => a.row - b.row), { sessionId });
+    }
+
+    const dryRun = options.dryRun === true;
+    if (!dryRun && Object.keys(updates).length > 0) {
+      await this.updateData(updates);
+    }
+    return { dryRun, rows, created };
+  }
+}
+
+/** One row of an imported table, numbered as RowError describes */
+interface ImportRecord {
+  row: number;
+  values: { [column: string]: unknown };
+}
+
+/**
+ * Reads an imported table into records, rejecting columns the table does not have.
+ * A JSON import may be a bare array of rows or a whole exported session.
+ */
+function readTable(
+  content: string,
+  format: TransferFormat,
+  table: keyof SessionExport,
+  columns: readonly string[]
+): ImportRecord[] {
+  let rows: { [column: string]: unknown }[];
+  let rowNumbers: number[];
+  let found: string[];
+
+  if (format === 'csv') {
+    const parsed = parseCsv(content);
+    rows = parsed.rows;
+    rowNumbers = parsed.lines;
+    found = parsed.columns;
+  } else {
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new ValidationError('Import is not valid JSON');
+    }
+
+    const list = Array.isArray(data) ? data : data?.[table];
+    const isRow = (row: unknown) => typeof row === 'object' && row !== null && !Array.isArray(row);
+    if (!Array.isArray(list) || !list.every(isRow)) {
+      throw new ValidationError(`Expected a JSON array of ${table} rows`);
+    }
+    rows = list;
+    rowNumbers = rows.map((_, index) => index + 1);
+    found = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  }
+
+  const unknown = found.find(column => !columns.includes(column));
+  if (unknown !== undefined) {
+    throw new ValidationError(`Unknown column "${unknown}" in ${table}; expected ${columns.join(', ')}`);
+  }
+
+  return rows.map((values, index) => ({ row: rowNumbers[index], values }));
+}
+
+function readArtifactMap(content: string, format: MapFormat, errors: RowError[]): ImportRecord[] {
+  const rows = format === 'geojson' ? readGeoJson(content, errors) : readGpx(content);
+  return rows.map((values, index) => ({ row: index + 1, values }));
+}
+
+/**
+ * Reads typed values out of a record, accepting either the strings a CSV holds or
+ * JSON values, and collects a RowError for each value it cannot read
+ */
+class RowReader {
+  constructor(private record: ImportRecord, private errors: RowError[]) {}
+
+  fail(column: string, message: string): void {
+    this.errors.push({ row: this.record.row, column, message });
+  }
+
+  text(column: string): string {
+    const value = this.record.values[column];
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return String(value);
+    this.fail(column, `${column} must be text`);
+    return '';
+  }
+
+  /** undefined when the value is blank, NaN when it is not a number */
+  number(column: string): number | undefined {
+    const value = this.record.values[column];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') {
+      return value.trim() === '' ? undefined : Number(value);
+    }
+    return NaN;
+  }
+
+  /** Blank values are false */
+  boolean(column: string): boolean {
+    const value = this.record.values[column];
+    if (value === undefined || value === null || typeof value === 'boolean') return value === true;
+
+    const text = String(value).trim().toLowerCase();
+    if (['true', 'yes', 'y', '1'].includes(text)) return true;
+    if (['false', 'no', 'n', '0', ''].includes(text)) return false;
+    this.fail(column, `${column} must be true or false`);
+    return false;
+  }
+
+  url(column: string): string {
+    const url = this.text(column).trim();
+    if (url && !/^https?:\/\/\S+$/i.test(url)) {
+      this.fail(column, `${column} must be an http or https URL`);
+    }
+    return url;
+  }
+}
+
+function toArtifactRow(artifactId: string, artifact: Artifact): ArtifactRow {
+  const row: ArtifactRow = {
+    artifactId,
+    name: artifact.name,
+    description: artifact.description,
+    locationHint: artifact.locationHint,
+    latitude: artifact.latitude,
+    longitude: artifact.longitude,
+    isChallenge: artifact.isChallenge,
+    points: artifact.points ?? DEFAULT_ARTIFACT_POINTS,
+    challengeBonus: artifact.challengeBonus ?? DEFAULT_CHALLENGE_BONUS
+  };
+  if (artifact.claimRadius !== undefined) row.claimRadius = artifact.claimRadius;
+  if (artifact.imageUrl !== undefined) row.imageUrl = artifact.imageUrl;
+  if (artifact.audioUrl !== undefined) row.audioUrl = artifact.audioUrl;
+  return row;
+}
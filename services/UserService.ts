@@ -1,11 +1,28 @@
 import { BaseService } from './BaseService';
-import { User, Team } from '../types/database';
+import { User, Team, Artifact, Invite, PointAdjustment, Verification } from '../types/database';
+import { CascadeOptions, CascadeReport, CascadeStep } from '../types/cascade';
+import { Unsubscribe } from './storage/StorageAdapter';
+import {
+  NotFoundError,
+  AlreadyExistsError,
+  InvalidAssociationError,
+  PrematureDeletionError,
+  ValidationError,
+  OutOfRangeError
+} from './errors';
+import { creditFindUpdates } from './scoring';
+import { Coordinates, DEFAULT_CLAIM_RADIUS_METERS, haversineDistance, isValidCoordinates } from './geo';
+
+/** A user's participation record for one session: team, points and found artifacts */
+export type SessionProgress = User['sessionsJoined'][string];
 
 export class UserService extends BaseService {
   async createUser(userId: string): Promise<void> {
+    await this.authorize(['self', 'admin'], { userId }, 'create this account');
+
     const exists = await this.exists(`users/${userId}`);
     if (exists) {
-      throw new Error('User already exists');
+      throw new AlreadyExistsError('User already exists', { userId });
     }
 
     const newUser: User = {
@@ -26,205 +43,459 @@ export class UserService extends BaseService {
 
   async setDisplayName(userId: string, displayName: string): Promise<void> {  // Renamed from setUsername
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
+    await this.authorize(['self', 'admin'], { userId }, 'update this profile');
     
-    await this.setData(`users/${userId}/displayName`, displayName);  // Changed path
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+    await this.updateData({
+      [`users/${userId}/displayName`]: displayName,  // Changed path
+      [`users/${userId}/updatedAt`]: Date.now()
+    });
   }
 
   async setEmail(userId: string, email: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
+    await this.authorize(['self', 'admin'], { userId }, 'update this profile');
     
-    await this.setData(`users/${userId}/email`, email);
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+    await this.updateData({
+      [`users/${userId}/email`]: email,
+      [`users/${userId}/updatedAt`]: Date.now()
+    });
   }
 
   async setProfilePicture(userId: string, url: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
+    await this.authorize(['self', 'admin'], { userId }, 'update this profile');
     
-    await this.setData(`users/${userId}/profilePictureUrl`, url);
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+    await this.updateData({
+      [`users/${userId}/profilePictureUrl`]: url,
+      [`users/${userId}/updatedAt`]: Date.now()
+    });
   }
 
   async setCurrentSession(userId: string, sessionId: string | null): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
+    await this.authorize(['self', 'admin'], { userId }, 'update this profile');
     
     if (sessionId && (!user.sessionsJoined || !user.sessionsJoined[sessionId])) {
-      throw new Error('User is not part of this session');
+      throw new InvalidAssociationError('User is not part of this session', { userId, sessionId });
     }
 
-    await this.setData(`users/${userId}/currentSession`, sessionId);
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+    await this.updateData({
+      [`users/${userId}/currentSession`]: sessionId,
+      [`users/${userId}/updatedAt`]: Date.now()
+    });
   }
 
   async setAdminStatus(userId: string, isAdmin: boolean): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
+    await this.authorize(['admin'], { userId }, 'change admin status');
     
-    await this.setData(`users/${userId}/isAdmin`, isAdmin);
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+    await this.updateData({
+      [`users/${userId}/isAdmin`]: isAdmin,
+      [`users/${userId}/updatedAt`]: Date.now()
+    });
   }
 
   async addUserToSession(userId: string, sessionId: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
     
     const sessionExists = await this.exists(`sessions/${sessionId}`);
-    if (!sessionExists) throw new Error('Session does not exist');
+    if (!sessionExists) throw new NotFoundError('Session does not exist', { sessionId });
+    await this.authorize(
+      ['self', 'organizer', 'admin'],
+      { userId, sessionId },
+      'add players to this session'
+    );
     
-    // More defensive check - treat undefined sessionsJoined same as empty object
-    if (user.sessionsJoined && user.sessionsJoined[sessionId]) {
-      throw new Error('User is already part of this session');
+    if (user.sessionsJoined[sessionId]) {
+      throw new InvalidAssociationError('User is already part of this session', { userId, sessionId });
     }
 
-    await this.setData(`users/${userId}/sessionsJoined/${sessionId}`, {
-      points: 0,
-      foundArtifacts: {}
+    await this.assertSessionRunning(sessionId, 'join');
+
+    await this.updateData({
+      [`users/${userId}/sessionsJoined/${sessionId}`]: {
+        points: 0,
+        foundArtifacts: {}
+      },
+      [`sessions/${sessionId}/participants/${userId}`]: '',
+      [`users/${userId}/updatedAt`]: Date.now()
     });
-    await this.setData(`sessions/${sessionId}/participants/${userId}`, '');
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
   }
 
   async removeUserFromSession(userId: string, sessionId: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
+    await this.authorize(
+      ['self', 'organizer', 'admin'],
+      { userId, sessionId },
+      'remove players from this session'
+    );
 
     if (!user.sessionsJoined || !user.sessionsJoined[sessionId]) {
-      throw new Error('User is not part of this session');
+      throw new InvalidAssociationError('User is not part of this session', { userId, sessionId });
     }
 
     const sessionData = user.sessionsJoined[sessionId];
     if (sessionData && sessionData.teamId) {
-      throw new Error('Remove user from team first before removing from session');
+      throw new PrematureDeletionError(
+        'Remove user from team first before removing from session',
+        { userId, sessionId, teamId: sessionData.teamId }
+      );
     }
 
-    await this.removeData(`users/${userId}/sessionsJoined/${sessionId}`);
-    await this.removeData(`sessions/${sessionId}/participants/${userId}`);
-    
+    const updates: { [path: string]: any } = {
+      [`users/${userId}/sessionsJoined/${sessionId}`]: null,
+      [`sessions/${sessionId}/participants/${userId}`]: null,
+      [`users/${userId}/updatedAt`]: Date.now()
+    };
+
     if (user.currentSession === sessionId) {
-      await this.setData(`users/${userId}/currentSession`, null);
+      updates[`users/${userId}/currentSession`] = null;
     }
-    
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+
+    await this.updateData(updates);
   }
 
   async assignUserToTeam(userId: string, sessionId: string, teamId: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
 
     if (!user.sessionsJoined || !user.sessionsJoined[sessionId]) {
-      throw new Error('User is not part of this session');
+      throw new InvalidAssociationError('User is not part of this session', { userId, sessionId });
     }
 
     const teamExists = await this.exists(`teams/${teamId}`);
-    if (!teamExists) throw new Error('Team does not exist');
+    if (!teamExists) throw new NotFoundError('Team does not exist', { teamId });
 
     const team = await this.getData<Team>(`teams/${teamId}`);
-    if (!team) throw new Error('Team not found');
+    if (!team) throw new NotFoundError('Team not found', { teamId });
+
+    await this.authorize(
+      ['self', 'organizer', 'admin'],
+      { userId, sessionId, teamId },
+      'assign players to this team'
+    );
 
     if (team.sessionId !== sessionId) {
-      throw new Error('Team does not belong to this session');
+      throw new InvalidAssociationError('Team does not belong to this session', { sessionId, teamId });
+    }
+
+    await this.assertSessionRunning(sessionId, 'change teams');
+    if (!team.members[userId]) {
+      await this.assertTeamHasRoom(sessionId, teamId, team);
     }
 
-    // If user is already in another team in this session, remove them first
+    const updates: { [path: string]: any } = {
+      [`users/${userId}/sessionsJoined/${sessionId}/teamId`]: teamId,
+      [`teams/${teamId}/members/${userId}`]: true,
+      [`sessions/${sessionId}/participants/${userId}`]: teamId,
+      [`users/${userId}/updatedAt`]: Date.now()
+    };
+
+    // If user is already in another team in this session, move them out of it in the same update
     const currentTeamId = user.sessionsJoined[sessionId].teamId;
-    if (currentTeamId) {
-      await this.removeData(`teams/${currentTeamId}/members/${userId}`);
+    if (currentTeamId && currentTeamId !== teamId) {
+      updates[`teams/${currentTeamId}/members/${userId}`] = null;
+      Object.assign(updates, await this.captaincyUpdates(currentTeamId, userId));
     }
 
-    await this.setData(`users/${userId}/sessionsJoined/${sessionId}/teamId`, teamId);
-    await this.setData(`teams/${teamId}/members/${userId}`, true);
-    await this.setData(`sessions/${sessionId}/participants/${userId}`, teamId);
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+    await this.updateData(updates);
   }
 
   async removeUserFromTeam(userId: string, sessionId: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
 
-    const sessionData = user.sessionsJoined?.[sessionId];
-    if (!sessionData) throw new Error('User is not part of this session');
+    const sessionData = user.sessionsJoined[sessionId];
+    if (!sessionData) {
+      throw new InvalidAssociationError('User is not part of this session', { userId, sessionId });
+    }
 
     const teamId = sessionData.teamId;
-    if (!teamId) throw new Error('User is not part of any team in this session');
+    if (!teamId) {
+      throw new InvalidAssociationError('User is not part of any team in this session', { userId, sessionId });
+    }
 
-    await this.removeData(`teams/${teamId}/members/${userId}`);
-    await this.setData(`users/${userId}/sessionsJoined/${sessionId}/teamId`, null);
-    await this.setData(`sessions/${sessionId}/participants/${userId}`, '');
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+    await this.authorize(
+      ['self', 'organizer', 'admin'],
+      { userId, sessionId, teamId },
+      'remove players from this team'
+    );
+
+    await this.assertSessionRunning(sessionId, 'change teams');
+
+    await this.updateData({
+      [`teams/${teamId}/members/${userId}`]: null,
+      ...await this.captaincyUpdates(teamId, userId),
+      [`users/${userId}/sessionsJoined/${sessionId}/teamId`]: null,
+      [`sessions/${sessionId}/participants/${userId}`]: '',
+      [`users/${userId}/updatedAt`]: Date.now()
+    });
   }
 
+  /**
+   * Credits a find directly, without a position check or photo review. Players record
+   * their own finds through claimArtifact or the verification workflow instead.
+   */
   async addFoundArtifact(userId: string, sessionId: string, artifactId: string): Promise<void> {
+    await this.authorize(['organizer', 'admin'], { userId, sessionId, artifactId }, 'credit finds directly');
+    await this.recordFind(userId, sessionId, artifactId);
+  }
+
+  private async recordFind(userId: string, sessionId: string, artifactId: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
 
     if (!user.sessionsJoined || !user.sessionsJoined[sessionId]) {
-      throw new Error('User is not part of this session');
+      throw new InvalidAssociationError('User is not part of this session', { userId, sessionId });
     }
 
     const sessionExists = await this.exists(`sessions/${sessionId}/artifacts/${artifactId}`);
     if (!sessionExists) {
-      throw new Error('Artifact is not part of this session');
+      throw new InvalidAssociationError('Artifact is not part of this session', { sessionId, artifactId });
     }
 
-    await this.setData(
-      `users/${userId}/sessionsJoined/${sessionId}/foundArtifacts/${artifactId}`, 
-      true
-    );
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+    const sessionData = user.sessionsJoined[sessionId];
+    if (sessionData.foundArtifacts && sessionData.foundArtifacts[artifactId]) {
+      throw new InvalidAssociationError(
+        'Artifact has already been found by this user',
+        { userId, sessionId, artifactId }
+      );
+    }
+
+    await this.assertSessionRunning(sessionId, 'record finds');
+
+    const artifact = await this.getData<Artifact>(`artifacts/${artifactId}`);
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+
+    await this.updateData(creditFindUpdates(userId, sessionId, artifactId, sessionData, artifact, Date.now()));
+  }
+
+  /**
+   * Records a find only if the player's reported position is within the artifact's
+   * claim radius. Returns how far the player was from the artifact. The database rules
+   * leave scoring to organizers and admins, so this has to run where the reported
+   * position can be trusted rather than in the player's own client.
+   */
+  async claimArtifact(
+    userId: string,
+    sessionId: string,
+    artifactId: string,
+    position: Coordinates
+  ): Promise<{ distanceMeters: number; radiusMeters: number }> {
+    await this.authorize(['self'], { userId, sessionId, artifactId }, 'claim artifacts for this player');
+
+    if (!isValidCoordinates(position)) {
+      throw new ValidationError('Reported position is not a valid latitude/longitude', { userId });
+    }
+
+    const artifact = await this.getData<Artifact>(`artifacts/${artifactId}`);
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+
+    const radiusMeters = artifact.claimRadius ?? DEFAULT_CLAIM_RADIUS_METERS;
+    const distanceMeters = haversineDistance(position, artifact);
+    if (distanceMeters > radiusMeters) {
+      throw new OutOfRangeError(distanceMeters, radiusMeters, { userId, sessionId, artifactId });
+    }
+
+    await this.recordFind(userId, sessionId, artifactId);
+    return { distanceMeters, radiusMeters };
   }
 
   async removeFoundArtifact(userId: string, sessionId: string, artifactId: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
 
-    const sessionData = user.sessionsJoined?.[sessionId];
-    if (!sessionData) throw new Error('User is not part of this session');
+    const sessionData = user.sessionsJoined[sessionId];
+    if (!sessionData) {
+      throw new InvalidAssociationError('User is not part of this session', { userId, sessionId });
+    }
 
     if (!sessionData.foundArtifacts || !sessionData.foundArtifacts[artifactId]) {
-      throw new Error('Artifact is not in user\'s found artifacts');
+      throw new InvalidAssociationError(
+        'Artifact is not in user\'s found artifacts',
+        { userId, sessionId, artifactId }
+      );
     }
 
-    await this.removeData(
-      `users/${userId}/sessionsJoined/${sessionId}/foundArtifacts/${artifactId}`
-    );
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+    await this.authorize(['organizer', 'admin'], { userId, sessionId, artifactId }, 'remove credited finds');
+
+    // Finds recorded before automatic scoring carry no award, so nothing is deducted for them
+    const awarded = sessionData.foundArtifactPoints?.[artifactId] || 0;
+    const sessionPath = `users/${userId}/sessionsJoined/${sessionId}`;
+    await this.updateData({
+      [`${sessionPath}/foundArtifacts/${artifactId}`]: null,
+      [`${sessionPath}/foundArtifactPoints/${artifactId}`]: null,
+      [`${sessionPath}/foundAt/${artifactId}`]: null,
+      [`${sessionPath}/points`]: (sessionData.points || 0) - awarded,
+      [`users/${userId}/updatedAt`]: Date.now()
+    });
   }
 
-  async updatePoints(userId: string, sessionId: string, points: number): Promise<void> {
+  /**
+   * Manually overrides a user's session points. Finding artifacts already scores
+   * automatically, so this is reserved for corrections by a platform admin or the
+   * session organizer, and every change is recorded in the session's audit log along
+   * with the acting user and the reason given.
+   */
+  async updatePoints(userId: string, sessionId: string, points: number, reason: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
 
     if (!user.sessionsJoined || !user.sessionsJoined[sessionId]) {
-      throw new Error('User is not part of this session');
+      throw new InvalidAssociationError('User is not part of this session', { userId, sessionId });
     }
 
-    await this.setData(
-      `users/${userId}/sessionsJoined/${sessionId}/points`,
-      points
+    await this.authorize(['admin', 'organizer'], { userId, sessionId }, 'adjust points');
+
+    const record: PointAdjustment = {
+      userId,
+      adminId: this.actingUserId,
+      previousPoints: user.sessionsJoined[sessionId].points || 0,
+      points,
+      reason,
+      createdAt: Date.now()
+    };
+
+    await this.updateData({
+      [`users/${userId}/sessionsJoined/${sessionId}/points`]: points,
+      [`users/${userId}/updatedAt`]: Date.now(),
+      [`pointAdjustments/${sessionId}/${this.generateId()}`]: record
+    });
+  }
+
+  async listPointAdjustments(sessionId: string): Promise<PointAdjustment[]> {
+    const adjustments = await this.getData<{ [adjustmentId: string]: PointAdjustment }>(
+      `pointAdjustments/${sessionId}`
     );
-    await this.setData(`users/${userId}/updatedAt`, Date.now());
+    return Object.keys(adjustments || {})
+      .sort()
+      .map(adjustmentId => adjustments![adjustmentId]);
   }
 
   async deleteUser(userId: string): Promise<void> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
-
-    // More defensive check for sessionsJoined
-    if (user.sessionsJoined && Object.keys(user.sessionsJoined).length > 0) {
-      throw new Error('User still has session associations. Remove from all sessions first');
+    if (!user) throw new NotFoundError('User not found', { userId });
+    await this.authorize(['self', 'admin'], { userId }, 'delete this account');
+
+    if (Object.keys(user.sessionsJoined).length > 0) {
+      throw new PrematureDeletionError(
+        'User still has session associations. Remove from all sessions first',
+        { userId }
+      );
     }
 
     await this.removeData(`users/${userId}`);
   }
 
+  /**
+   * Removes the user from every team and session they belong to and from the invites they
+   * redeemed, then deletes them, following the documented deletion order in a single atomic update.
+   * With `dryRun` the steps are reported but nothing is written.
+   */
+  async purgeUser(userId: string, options: CascadeOptions = {}): Promise<CascadeReport> {
+    const user = await this.getUser(userId);
+    if (!user) throw new NotFoundError('User not found', { userId });
+    await this.authorize(['self', 'admin'], { userId }, 'delete this account');
+
+    const sessionsJoined = user.sessionsJoined;
+    const teamSteps: CascadeStep[] = [];
+    const sessionSteps: CascadeStep[] = [];
+    const updates: { [path: string]: any } = {};
+
+    for (const sessionId of Object.keys(sessionsJoined)) {
+      const { teamId, foundArtifacts } = sessionsJoined[sessionId];
+
+      if (teamId) {
+        teamSteps.push({ action: 'remove-user-from-team', userId, sessionId, teamId });
+        updates[`teams/${teamId}/members/${userId}`] = null;
+        Object.assign(updates, await this.captaincyUpdates(teamId, userId));
+      }
+
+      const artifactIds = Object.keys(foundArtifacts);
+      if (artifactIds.length > 0) {
+        sessionSteps.push({ action: 'clear-found-artifacts', userId, sessionId, artifactIds });
+      }
+      sessionSteps.push({ action: 'remove-user-from-session', userId, sessionId });
+      updates[`sessions/${sessionId}/participants/${userId}`] = null;
+    }
+
+    // Removing the user node also clears sessionsJoined and currentSession
+    updates[`users/${userId}`] = null;
+
+    const invites = await this.getData<{ [code: string]: Invite }>('invites');
+    for (const inviteCode of Object.keys(invites || {}).sort()) {
+      const invite = invites![inviteCode];
+      if (invite.redemptions[userId] !== undefined) {
+        sessionSteps.push({
+          action: 'remove-invite-redemption',
+          userId,
+          sessionId: invite.sessionId,
+          inviteCode
+        });
+        updates[`invites/${inviteCode}/redemptions/${userId}`] = null;
+      }
+    }
+
+    const verifications = await this.getData<{ [id: string]: Verification }>('verifications');
+    for (const verificationId of Object.keys(verifications || {}).sort()) {
+      const verification = verifications![verificationId];
+      if (verification.userId === userId) {
+        sessionSteps.push({
+          action: 'delete-verification',
+          userId,
+          sessionId: verification.sessionId,
+          verificationId
+        });
+        updates[`verifications/${verificationId}`] = null;
+      }
+    }
+
+    const steps: CascadeStep[] = [
+      ...teamSteps,
+      ...sessionSteps,
+      { action: 'delete-user', userId }
+    ];
+
+    const dryRun = options.dryRun === true;
+    if (!dryRun) {
+      await this.updateData(updates);
+    }
+
+    return { dryRun, steps };
+  }
+
+  watchUser(
+    userId: string,
+    onChange: (user: User | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<User>(`users/${userId}`, onChange, onError);
+  }
+
+  /**
+   * Emits the user's points and found artifacts in a session, or null once they are
+   * no longer part of it.
+   */
+  watchSessionProgress(
+    userId: string,
+    sessionId: string,
+    onChange: (progress: SessionProgress | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<SessionProgress>(`users/${userId}/sessionsJoined/${sessionId}`, onChange, onError);
+  }
+
   async listUserSessions(userId: string): Promise<string[]> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) throw new NotFoundError('User not found', { userId });
 
-    return Object.keys(user.sessionsJoined || {});
+    return Object.keys(user.sessionsJoined);
   }
 }
@@ -0,0 +1,196 @@
+import { BaseService } from './BaseService';
+import { Artifact, User, Verification } from '../types/database';
+import { Unsubscribe } from './storage/StorageAdapter';
+import { creditFindUpdates } from './scoring';
+import {
+  NotFoundError,
+  AlreadyExistsError,
+  InvalidAssociationError,
+  ValidationError
+} from './errors';
+
+/** A verification together with its ID */
+export type VerificationRecord = Verification & { verificationId: string };
+
+export class VerificationService extends BaseService {
+  /**
+   * Submits a find with a photo for review. Nothing is credited until a session
+   * organizer or admin approves it. Returns the ID of the new verification.
+   */
+  async submitVerification(
+    userId: string,
+    sessionId: string,
+    artifactId: string,
+    photoUrl: string
+  ): Promise<string> {
+    await this.authorize(['self'], { userId, sessionId, artifactId }, 'submit finds for this player');
+
+    if (!photoUrl.trim()) {
+      throw new ValidationError('A photo is required to verify a find', { userId, artifactId });
+    }
+
+    const user = await this.getData<User>(`users/${userId}`);
+    if (!user) throw new NotFoundError('User not found', { userId });
+
+    const progress = user.sessionsJoined[sessionId];
+    if (!progress) {
+      throw new InvalidAssociationError('User is not part of this session', { userId, sessionId });
+    }
+
+    const artifactInSession = await this.exists(`sessions/${sessionId}/artifacts/${artifactId}`);
+    if (!artifactInSession) {
+      throw new InvalidAssociationError('Artifact is not part of this session', { sessionId, artifactId });
+    }
+
+    if (progress.foundArtifacts?.[artifactId]) {
+      throw new InvalidAssociationError(
+        'Artifact has already been found by this user',
+        { userId, sessionId, artifactId }
+      );
+    }
+
+    await this.assertSessionRunning(sessionId, 'record finds');
+
+    const submitted = await this.listVerifications(v => v.userId === userId && v.sessionId === sessionId);
+    if (submitted.some(v => v.artifactId === artifactId && v.status === 'pending')) {
+      throw new AlreadyExistsError(
+        'A verification for this artifact is already pending',
+        { userId, sessionId, artifactId }
+      );
+    }
+
+    const verificationId = this.generateId();
+    const verification: Verification = {
+      userId,
+      artifactId,
+      sessionId,
+      photoUrl,
+      status: 'pending',
+      submittedAt: Date.now()
+    };
+    await this.setData(`verifications/${verificationId}`, verification);
+    return verificationId;
+  }
+
+  async getVerification(verificationId: string): Promise<Verification | null> {
+    return await this.getData<Verification>(`verifications/${verificationId}`);
+  }
+
+  /**
+   * Approves a pending verification and credits the find and its points to the player
+   * in the same update. Only the session organizer or a platform admin may review. As
+   * with crediting a find directly, the session must be running and still have the artifact.
+   */
+  async approveVerification(verificationId: string): Promise<void> {
+    const verification = await this.getPendingVerification(verificationId);
+    const { userId, sessionId, artifactId } = verification;
+
+    const user = await this.getData<User>(`users/${userId}`);
+    const progress = user?.sessionsJoined[sessionId];
+    if (!progress) {
+      throw new InvalidAssociationError('User is not part of this session', { userId, sessionId });
+    }
+
+    if (progress.foundArtifacts?.[artifactId]) {
+      throw new InvalidAssociationError(
+        'Artifact has already been found by this user',
+        { userId, sessionId, artifactId }
+      );
+    }
+
+    const artifactInSession = await this.exists(`sessions/${sessionId}/artifacts/${artifactId}`);
+    if (!artifactInSession) {
+      throw new InvalidAssociationError('Artifact is not part of this session', { sessionId, artifactId });
+    }
+
+    await this.assertSessionRunning(sessionId, 'record finds');
+
+    const artifact = await this.getData<Artifact>(`artifacts/${artifactId}`);
+    if (!artifact) throw new NotFoundError('Artifact not found', { artifactId });
+
+    const now = Date.now();
+    await this.updateData({
+      ...creditFindUpdates(userId, sessionId, artifactId, progress, artifact, now),
+      [`verifications/${verificationId}/status`]: 'approved',
+      [`verifications/${verificationId}/reviewedBy`]: this.actingUserId,
+      [`verifications/${verificationId}/reviewedAt`]: now
+    });
+  }
+
+  async rejectVerification(verificationId: string, reason = ''): Promise<void> {
+    await this.getPendingVerification(verificationId);
+
+    await this.updateData({
+      [`verifications/${verificationId}/status`]: 'rejected',
+      [`verifications/${verificationId}/reviewedBy`]: this.actingUserId,
+      [`verifications/${verificationId}/reviewedAt`]: Date.now(),
+      [`verifications/${verificationId}/rejectionReason`]: reason || null
+    });
+  }
+
+  /**
+   * Lists a session's verifications, oldest submission first, optionally only those
+   * with the given status
+   */
+  async listSessionVerifications(
+    sessionId: string,
+    status?: Verification['status']
+  ): Promise<VerificationRecord[]> {
+    return await this.listVerifications(
+      v => v.sessionId === sessionId && (!status || v.status === status)
+    );
+  }
+
+  async listUserVerifications(userId: string, sessionId: string): Promise<VerificationRecord[]> {
+    return await this.listVerifications(v => v.userId === userId && v.sessionId === sessionId);
+  }
+
+  /**
+   * Emits the session's pending verifications, oldest first, as they are submitted and reviewed
+   */
+  watchPendingVerifications(
+    sessionId: string,
+    onChange: (pending: VerificationRecord[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.subscribe<{ [verificationId: string]: Verification }>(
+      'verifications',
+      verifications => onChange(toRecords(
+        verifications,
+        v => v.sessionId === sessionId && v.status === 'pending'
+      )),
+      onError
+    );
+  }
+
+  private async getPendingVerification(verificationId: string): Promise<Verification> {
+    const verification = await this.getVerification(verificationId);
+    if (!verification) throw new NotFoundError('Verification not found', { verificationId });
+
+    const { sessionId } = verification;
+    await this.authorize(['admin', 'organizer'], { sessionId, verificationId }, 'review verifications');
+
+    if (verification.status !== 'pending') {
+      throw new ValidationError('Verification has already been reviewed', { verificationId });
+    }
+
+    return verification;
+  }
+
+  private async listVerifications(
+    predicate: (verification: Verification) => boolean
+  ): Promise<VerificationRecord[]> {
+    const verifications = await this.getData<{ [verificationId: string]: Verification }>('verifications');
+    return toRecords(verifications, predicate);
+  }
+}
+
+function toRecords(
+  verifications: { [verificationId: string]: Verification } | null,
+  predicate: (verification: Verification) => boolean
+): VerificationRecord[] {
+  return Object.entries(verifications || {})
+    .filter(([, verification]) => predicate(verification))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([verificationId, verification]) => ({ ...verification, verificationId }));
+}
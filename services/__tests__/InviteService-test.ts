@@ -0,0 +1,149 @@
+import { UserService } from '../UserService';
+import { TeamService } from '../TeamService';
+import { SessionService } from '../SessionService';
+import { InviteService, inviteLink, readInviteCode } from '../InviteService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+
+const baseNode = 'SchemaTest_Invites';
+const HOUR = 3600000;
+
+describe('session invites', () => {
+  let userService: UserService;
+  let teamService: TeamService;
+  let sessionService: SessionService;
+  let inviteService: InviteService;
+  let organizer: InviteService;
+
+  // session1 (organizer) is running with teams red and blue; user_A and user_B have not joined
+  beforeEach(async () => {
+    const storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    teamService = new TeamService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    inviteService = new InviteService(baseNode, storage);
+    organizer = inviteService.asUser('organizer');
+
+    await userService.createUser('organizer');
+    await sessionService.createSession('session1', 'organizer');
+    for (const teamId of ['red', 'blue']) {
+      await teamService.createTeam(teamId);
+      await sessionService.addTeam('session1', teamId);
+    }
+    await sessionService.setStatus('session1', 'running');
+    await userService.createUser('user_A');
+    await userService.createUser('user_B');
+  });
+
+  it('joins the session and team named by the invite', async () => {
+    const code = await organizer.createInvite('session1', { teamId: 'red', maxUses: 10 });
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+    expect(await organizer.listSessionInvites('session1')).toEqual([code]);
+
+    const typed = `${code.slice(0, 3).toLowerCase()}-${code.slice(3)}`;
+    const invite = await inviteService.asUser('user_A').redeemInvite(typed, 'user_A');
+    expect(invite).toMatchObject({ sessionId: 'session1', teamId: 'red', creatorId: 'organizer' });
+
+    expect((await userService.getUser('user_A'))?.sessionsJoined.session1).toMatchObject({
+      points: 0,
+      teamId: 'red'
+    });
+    expect((await sessionService.getSession('session1'))?.participants).toEqual({ user_A: 'red' });
+    expect(await teamService.listTeamMembers('red')).toEqual(['user_A']);
+    expect(Object.keys((await inviteService.getInvite(code))!.redemptions)).toEqual(['user_A']);
+  });
+
+  it('moves players who already joined to the invite team', async () => {
+    await userService.addUserToSession('user_A', 'session1');
+    await userService.assignUserToTeam('user_A', 'session1', 'blue');
+    const sessionCode = await organizer.createInvite('session1');
+    const redCode = await organizer.createInvite('session1', { teamId: 'red' });
+
+    await expect(inviteService.redeemInvite(sessionCode, 'user_A')).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      message: 'User is already part of this session'
+    });
+
+    await inviteService.redeemInvite(redCode, 'user_A');
+    expect(await teamService.listTeamMembers('red')).toEqual(['user_A']);
+    expect(await teamService.listTeamMembers('blue')).toEqual([]);
+    expect((await sessionService.getSession('session1'))?.participants).toEqual({ user_A: 'red' });
+
+    await expect(inviteService.redeemInvite(redCode, 'user_A')).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      message: 'User is already on this team'
+    });
+  });
+
+  it('stops working once expired or used up', async () => {
+    const once = await organizer.createInvite('session1', { maxUses: 1 });
+    await inviteService.redeemInvite(once, 'user_A');
+    await expect(inviteService.redeemInvite(once, 'user_B')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      code: 'invalid-state',
+      message: 'Invite has no uses left',
+      entities: { sessionId: 'session1', inviteCode: once }
+    });
+
+    const soon = await organizer.createInvite('session1', { expiresAt: Date.now() + HOUR });
+    const later = Date.now() + 2 * HOUR;
+    jest.spyOn(Date, 'now').mockReturnValue(later);
+    try {
+      await expect(inviteService.redeemInvite(soon, 'user_B')).rejects.toMatchObject({
+        name: 'InvalidStateError',
+        message: 'Invite has expired'
+      });
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    await organizer.revokeInvite(soon);
+    await expect(inviteService.redeemInvite(soon, 'user_B')).rejects.toMatchObject({
+      name: 'NotFoundError',
+      entities: { inviteCode: soon }
+    });
+  });
+
+  it('rejects invalid invites and players outside the running window', async () => {
+    await expect(inviteService.asUser('user_A').createInvite('session1')).rejects.toMatchObject({
+      name: 'PermissionDeniedError'
+    });
+    await teamService.createTeam('green');
+    await expect(organizer.createInvite('session1', { teamId: 'green' })).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      message: 'Team does not belong to this session'
+    });
+    await expect(organizer.createInvite('session1', { maxUses: -1 })).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Invite use limit must be a non-negative whole number'
+    });
+    await expect(organizer.createInvite('session1', { expiresAt: Date.now() - 1 })).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Invite expiry must be in the future'
+    });
+
+    const code = await organizer.createInvite('session1');
+    await expect(inviteService.asUser('user_B').redeemInvite(code, 'user_A')).rejects.toMatchObject({
+      name: 'PermissionDeniedError'
+    });
+
+    await sessionService.setStatus('session1', 'paused');
+    await expect(inviteService.redeemInvite(code, 'user_A')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Cannot join while the session is paused'
+    });
+    expect((await inviteService.getInvite(code))?.redemptions).toEqual({});
+
+    await sessionService.setStatus('session1', 'ended');
+    await expect(organizer.createInvite('session1')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Cannot invite players while the session is ended'
+    });
+  });
+
+  it('reads codes from typed text and invite links', () => {
+    expect(inviteLink('ABC234')).toBe('myapp://join?code=ABC234');
+    expect(readInviteCode(inviteLink('ABC234'))).toBe('ABC234');
+    expect(readInviteCode(' abc 234 ')).toBe('ABC234');
+    expect(readInviteCode('myapp://join?code=')).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { UserService } from '../UserService';
+import { TeamService } from '../TeamService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { TemplateService } from '../TemplateService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+
+const baseNode = 'SchemaTest_Templates';
+const HOUR = 3600000;
+
+describe('session templates and cloning', () => {
+  let userService: UserService;
+  let teamService: TeamService;
+  let sessionService: SessionService;
+  let templateService: TemplateService;
+
+  // session1 (organizer) runs for two hours from an hour ago, with artifact1, artifact2 and
+  // teams red and blue; user_A plays on red
+  beforeEach(async () => {
+    const storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    teamService = new TeamService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    templateService = new TemplateService(baseNode, storage);
+    const artifactService = new ArtifactService(baseNode, storage);
+
+    await sessionService.createSession('session1', 'organizer');
+    await sessionService.setSessionName('session1', 'Spring Hunt');
+    const start = Date.now() - HOUR;
+    await sessionService.setTimes('session1', start, start + 2 * HOUR);
+    for (const artifactId of ['artifact1', 'artifact2']) {
+      await artifactService.createArtifact(artifactId);
+      await sessionService.addArtifact('session1', artifactId);
+    }
+    for (const [teamId, teamName] of [['red', 'Red'], ['blue', 'Blue']]) {
+      await teamService.createTeam(teamId);
+      await teamService.setTeamName(teamId, teamName);
+      await sessionService.addTeam('session1', teamId);
+    }
+
+    await sessionService.setStatus('session1', 'running');
+    await userService.createUser('user_A');
+    await userService.addUserToSession('user_A', 'session1');
+    await userService.assignUserToTeam('user_A', 'session1', 'red');
+  });
+
+  it('clones a session with fresh teams and none of its players', async () => {
+    const teamIds = await templateService.asUser('organizer').cloneSession('session1', 'session2', {
+      creatorId: 'organizer',
+      startTime: 34 * HOUR
+    });
+
+    expect(Object.keys(teamIds).sort()).toEqual(['blue', 'red']);
+    expect(teamIds.red).not.toBe('red');
+
+    expect(await sessionService.getSession('session2')).toEqual({
+      sessionName: 'Spring Hunt',
+      creatorId: 'organizer',
+      startTime: 34 * HOUR,
+      endTime: 36 * HOUR,
+      status: 'draft',
+      isActive: false,
+      teams: { [teamIds.red]: true, [teamIds.blue]: true },
+      participants: {},
+      artifacts: { artifact1: true, artifact2: true }
+    });
+    expect(await teamService.getTeam(teamIds.red)).toEqual({
+      sessionId: 'session2',
+      teamName: 'Red',
+      members: {},
+      captainId: 'organizer'
+    });
+
+    // The original keeps its teams and players
+    expect(await teamService.listTeamMembers('red')).toEqual(['user_A']);
+  });
+
+  it('saves a session as a template and creates sessions from it', async () => {
+    await templateService.createTemplateFromSession('spring', 'session1', 'Spring template', HOUR);
+    expect(await templateService.getTemplate('spring')).toMatchObject({
+      templateName: 'Spring template',
+      creatorId: 'organizer',
+      sessionName: 'Spring Hunt',
+      startOffset: HOUR,
+      duration: 2 * HOUR,
+      artifacts: { artifact1: true, artifact2: true },
+      teams: { red: 'Red', blue: 'Blue' }
+    });
+
+    const before = Date.now();
+    await templateService.createSessionFromTemplate('spring', 'session2', {
+      creatorId: 'organizer',
+      sessionName: 'Fall Hunt'
+    });
+
+    const session = await sessionService.getSession('session2');
+    expect(session?.sessionName).toBe('Fall Hunt');
+    expect(session!.startTime).toBeGreaterThanOrEqual(before + HOUR);
+    expect(session!.endTime - session!.startTime).toBe(2 * HOUR);
+    expect(Object.keys(session!.teams)).toHaveLength(2);
+  });
+
+  it('creates templates from a definition', async () => {
+    await templateService.asUser('organizer').createTemplate('quick', 'organizer', {
+      templateName: 'Quick hunt',
+      sessionName: 'Lunch hunt',
+      startOffset: 0,
+      duration: 0,
+      artifactIds: ['artifact2'],
+      teamNames: ['Gold', 'White', 'Navy']
+    });
+
+    const teamIds = await templateService.createSessionFromTemplate('quick', 'session2', {
+      creatorId: 'organizer'
+    });
+    expect(Object.keys(teamIds)).toEqual(['team1', 'team2', 'team3']);
+    expect((await teamService.getTeam(teamIds.team3))?.teamName).toBe('Navy');
+
+    // Templates without a duration leave the new session's times unset
+    expect(await sessionService.getSession('session2')).toMatchObject({
+      startTime: 0,
+      endTime: 0,
+      artifacts: { artifact2: true }
+    });
+    expect(await templateService.listTemplates('organizer')).toEqual(['quick']);
+  });
+
+  it('rejects missing artifacts, taken IDs and other organizers', async () => {
+    await expect(templateService.createTemplate('broken', 'organizer', {
+      templateName: 'Broken',
+      sessionName: '',
+      startOffset: 0,
+      duration: 0,
+      artifactIds: ['artifact9'],
+      teamNames: []
+    })).rejects.toMatchObject({
+      name: 'NotFoundError',
+      message: 'Artifact not found',
+      entities: { artifactId: 'artifact9' }
+    });
+
+    await expect(templateService.cloneSession('session1', 'session1', { creatorId: 'organizer' }))
+      .rejects.toMatchObject({ name: 'AlreadyExistsError', message: 'Session already exists' });
+
+    await expect(
+      templateService.asUser('organizer').cloneSession('session1', 'session2', { creatorId: 'user_A' })
+    ).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      message: 'Only the user themselves or a platform admin can create sessions for this organizer'
+    });
+    // Players can create their own sessions, but not by copying someone else's
+    await expect(
+      templateService.asUser('user_A').cloneSession('session1', 'session2', { creatorId: 'user_A' })
+    ).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      message: 'Only the session organizer or a platform admin can copy this session',
+      entities: { userId: 'user_A', sessionId: 'session1' }
+    });
+    expect(await sessionService.getSession('session2')).toBeNull();
+
+    await templateService.createTemplateFromSession('spring', 'session1', 'Spring template');
+    await expect(templateService.asUser('user_A').deleteTemplate('spring')).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      entities: { userId: 'user_A', templateId: 'spring' }
+    });
+    await templateService.asUser('organizer').deleteTemplate('spring');
+    expect(await templateService.getTemplate('spring')).toBeNull();
+  });
+});
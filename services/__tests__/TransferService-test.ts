@@ -0,0 +1,307 @@
+import { UserService } from '../UserService';
+import { TeamService } from '../TeamService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { TransferService } from '../TransferService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+import { formatCsv, parseCsv } from '../csv';
+
+const baseNode = 'SchemaTest_Transfer';
+const HOUR = 3600000;
+
+describe('csv', () => {
+  it('reads quoted fields and writes them back', () => {
+    const text = 'name,description\r\n"Tower, clock","Say ""hi""\nthen leave"\r\n\r\nBench,\r\n';
+    const table = parseCsv(text);
+
+    expect(table).toEqual({
+      columns: ['name', 'description'],
+      rows: [
+        { name: 'Tower, clock', description: 'Say "hi"\nthen leave' },
+        { name: 'Bench', description: '' }
+      ],
+      lines: [2, 5]
+    });
+    expect(formatCsv(table.columns, table.rows)).toBe(
+      'name,description\r\n"Tower, clock","Say ""hi""\nthen leave"\r\nBench,\r\n'
+    );
+  });
+
+  it('rejects unterminated quotes', () => {
+    expect(() => parseCsv('name\n"Tower\n')).toThrow('CSV has an unterminated quoted field in row 2');
+  });
+});
+
+describe('bulk import and export', () => {
+  let userService: UserService;
+  let teamService: TeamService;
+  let sessionService: SessionService;
+  let artifactService: ArtifactService;
+  let transferService: TransferService;
+
+  // session1 (organizer) is running with team red; user_A plays on red, user_B and user_C
+  // have accounts but have not joined
+  beforeEach(async () => {
+    const storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    teamService = new TeamService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    artifactService = new ArtifactService(baseNode, storage);
+    transferService = new TransferService(baseNode, storage);
+
+    await sessionService.createSession('session1', 'organizer');
+    const start = Date.now() - HOUR;
+    await sessionService.setTimes('session1', start, start + 2 * HOUR);
+    await teamService.createTeam('red');
+    await teamService.setTeamName('red', 'Red');
+    await sessionService.addTeam('session1', 'red');
+    await sessionService.setStatus('session1', 'running');
+
+    for (const userId of ['user_A', 'user_B', 'user_C']) {
+      await userService.createUser(userId);
+    }
+    await userService.addUserToSession('user_A', 'session1');
+    await userService.assignUserToTeam('user_A', 'session1', 'red');
+  });
+
+  it('imports artifacts from CSV into the session', async () => {
+    const csv = [
+      'artifactId,name,description,locationHint,latitude,longitude,isChallenge,points,imageUrl',
+      'tower,Tech Tower,"The big ""T""",Look up,33.7724,-84.3948,yes,20,https://example.com/t.jpg',
+      ',Kessler Campanile,,,33.7746,-84.3973,,,'
+    ].join('\n');
+
+    const report = await transferService.asUser('organizer').importArtifacts('session1', csv, 'csv');
+    expect(report).toMatchObject({ dryRun: false, rows: 2 });
+    expect(report.created[0]).toBe('tower');
+
+    expect(await artifactService.getArtifact('tower')).toEqual({
+      name: 'Tech Tower',
+      description: 'The big "T"',
+      locationHint: 'Look up',
+      latitude: 33.7724,
+      longitude: -84.3948,
+      isChallenge: true,
+      points: 20,
+      challengeBonus: 10,
+      imageUrl: 'https://example.com/t.jpg',
+      creatorId: 'organizer'
+    });
+    expect(Object.keys((await sessionService.getSession('session1'))!.artifacts).sort())
+      .toEqual(report.created.slice().sort());
+  });
+
+  it('reports every invalid row and imports nothing', async () => {
+    const rows = [
+      { artifactId: 'tower', name: 'Tech Tower', latitude: 33.77, longitude: -84.39 },
+      { artifactId: 'tower', name: '', latitude: 95, longitude: -84.39, points: 2.5 },
+      { name: 'Bench', latitude: '33.77', longitude: 'west', isChallenge: 'maybe', audioUrl: 'ftp://x' }
+    ];
+
+    await expect(
+      transferService.importArtifacts('session1', JSON.stringify(rows), 'json')
+    ).rejects.toMatchObject({
+      name: 'ImportError',
+      code: 'validation',
+      message: '2 rows of the import could not be read',
+      entities: { sessionId: 'session1' },
+      rows: [
+        { row: 2, column: 'artifactId', message: 'Artifact ID is already used in row 1' },
+        { row: 2, column: 'name', message: 'Name is required' },
+        { row: 2, column: 'latitude', message: 'Latitude must be a number from -90 to 90' },
+        { row: 2, column: 'points', message: 'Points must be a non-negative whole number' },
+        { row: 3, column: 'isChallenge', message: 'isChallenge must be true or false' },
+        { row: 3, column: 'longitude', message: 'Longitude must be a number from -180 to 180' },
+        { row: 3, column: 'audioUrl', message: 'audioUrl must be an http or https URL' }
+      ]
+    });
+    expect((await sessionService.getSession('session1'))!.artifacts).toEqual({});
+
+    await expect(
+      transferService.importArtifacts('session1', 'name,latitude,longitude,colour\n', 'csv')
+    ).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: expect.stringMatching(/^Unknown column "colour" in artifacts; expected artifactId, name/)
+    });
+  });
+
+  it('numbers CSV rows by the line they start on', async () => {
+    const csv = [
+      'name,description,latitude,longitude',
+      'Tech Tower,"Look up,',
+      'then left",33.77,-84.39',
+      '',
+      ',,33.77,-84.39'
+    ].join('\r\n');
+
+    await expect(transferService.importArtifacts('session1', csv, 'csv')).rejects.toMatchObject({
+      name: 'ImportError',
+      rows: [{ row: 5, column: 'name', message: 'Name is required' }]
+    });
+  });
+
+  it('imports rosters, creating teams and moving players', async () => {
+    const csv = 'teamName,userId\nBlue,user_A\nBlue,user_B\nRed,user_C\nGold,\n';
+
+    const dryRun = await transferService.importRoster('session1', csv, 'csv', { dryRun: true });
+    expect(dryRun).toMatchObject({ dryRun: true, rows: 4 });
+    expect(dryRun.created).toHaveLength(2);
+    expect(await teamService.listTeamMembers('red')).toEqual(['user_A']);
+
+    const report = await transferService.importRoster('session1', csv, 'csv');
+    const [blue, gold] = report.created;
+    expect(await teamService.getTeam(blue)).toEqual({
+      sessionId: 'session1',
+      teamName: 'Blue',
+      members: { user_A: true, user_B: true }
+    });
+    expect((await teamService.getTeam(gold))?.members).toEqual({});
+    expect(await teamService.listTeamMembers('red')).toEqual(['user_C']);
+
+    expect((await sessionService.getSession('session1'))!.participants).toEqual({
+      user_A: blue,
+      user_B: blue,
+      user_C: 'red'
+    });
+    expect((await userService.getUser('user_B'))!.sessionsJoined.session1).toMatchObject({
+      teamId: blue,
+      points: 0,
+      foundArtifacts: {}
+    });
+  });
+
+  it('rejects unknown and repeated players and closed sessions', async () => {
+    const csv = 'teamName,userId\nRed,user_Z\nRed,user_B\n,user_C\nBlue,user_B\n';
+    await expect(transferService.importRoster('session1', csv, 'csv')).rejects.toMatchObject({
+      name: 'ImportError',
+      rows: [
+        { row: 2, column: 'userId', message: 'User not found' },
+        { row: 4, column: 'teamName', message: 'Team name is required' },
+        { row: 5, column: 'userId', message: 'User is already listed in row 3' }
+      ]
+    });
+
+    await sessionService.setStatus('session1', 'paused');
+    await expect(transferService.importRoster('session1', 'teamName\nRed\n', 'csv')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Cannot import rosters while the session is paused'
+    });
+    await sessionService.setStatus('session1', 'ended');
+    await expect(transferService.importRoster('session1', 'teamName\nRed\n', 'csv')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Cannot import rosters while the session is ended'
+    });
+    await expect(
+      transferService.asUser('user_A').importRoster('session1', 'teamName\nRed\n', 'csv')
+    ).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      message: 'Only the session organizer or a platform admin can import into this session'
+    });
+  });
+
+  it('exports the session and imports the export into another session', async () => {
+    await transferService.importArtifacts('session1', JSON.stringify([
+      { artifactId: 'tower', name: 'Tech Tower', latitude: 33.7724, longitude: -84.3948, claimRadius: 50 }
+    ]), 'json');
+    await userService.addFoundArtifact('user_A', 'session1', 'tower');
+
+    const data = await transferService.exportSession('session1');
+    expect(data).toMatchObject({ sessionId: 'session1', creatorId: 'organizer', status: 'running' });
+    expect(data.roster).toEqual([{ teamId: 'red', teamName: 'Red', userId: 'user_A' }]);
+    expect(data.participants).toEqual([{ userId: 'user_A', displayName: '', teamId: 'red', points: 10 }]);
+    expect(data.finds).toEqual([
+      { userId: 'user_A', artifactId: 'tower', points: 10, foundAt: expect.any(Number) }
+    ]);
+
+    const csv = await transferService.exportSessionCsv('session1');
+    expect(csv.artifacts).toBe(
+      'artifactId,name,description,locationHint,latitude,longitude,isChallenge,points,challengeBonus,' +
+      'claimRadius,imageUrl,audioUrl\r\n' +
+      'tower,Tech Tower,,,33.7724,-84.3948,false,10,10,50,,\r\n'
+    );
+    expect(csv.participants).toBe('userId,displayName,teamId,points\r\nuser_A,,red,10\r\n');
+
+    // Artifacts are shared between sessions, so they are re-imported under new IDs
+    const json = await transferService.exportSessionJson('session1');
+    const copy = JSON.parse(json);
+    copy.artifacts[0].artifactId = '';
+
+    await sessionService.createSession('session2', 'organizer');
+    await transferService.importArtifacts('session2', JSON.stringify(copy), 'json');
+    await sessionService.setStatus('session2', 'running');
+    await transferService.importRoster('session2', csv.roster, 'csv');
+
+    const session2 = (await sessionService.getSession('session2'))!;
+    expect(Object.keys(session2.artifacts)).toHaveLength(1);
+    expect(Object.values(session2.participants)).toEqual([Object.keys(session2.teams)[0]]);
+  });
+
+  it('exports and imports the artifact map as GeoJSON and GPX', async () => {
+    await transferService.importArtifacts('session1', JSON.stringify([
+      { artifactId: 'tower', name: 'Tech Tower', locationHint: 'Look <up>', latitude: 33.7724,
+        longitude: -84.3948, isChallenge: true }
+    ]), 'json');
+
+    const geoJson = JSON.parse(await transferService.exportArtifactMap('session1', 'geojson'));
+    expect(geoJson).toEqual({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        id: 'tower',
+        geometry: { type: 'Point', coordinates: [-84.3948, 33.7724] },
+        properties: {
+          name: 'Tech Tower',
+          description: '',
+          locationHint: 'Look <up>',
+          isChallenge: true,
+          points: 10,
+          challengeBonus: 10
+        }
+      }]
+    });
+
+    const gpx = await transferService.exportArtifactMap('session1', 'gpx');
+    expect(gpx).toContain('<wpt lat="33.7724" lon="-84.3948">');
+    expect(gpx).toContain('<cmt>Look &lt;up&gt;</cmt>');
+    expect(gpx).toContain('<type>challenge</type>');
+
+    // Re-imported under new IDs into another session, the points come back unchanged
+    await sessionService.createSession('session2', 'organizer');
+    geoJson.features[0].id = 'tower_copy';
+    await transferService.importArtifacts('session2', JSON.stringify(geoJson), 'geojson');
+    await transferService.importArtifacts('session2', gpx.replace('>tower<', '>tower_gpx<'), 'gpx');
+
+    const original = await artifactService.getArtifact('tower');
+    expect(await artifactService.getArtifact('tower_copy')).toEqual(original);
+    expect(await artifactService.getArtifact('tower_gpx')).toEqual(original);
+  });
+
+  it('reports features that are not points', async () => {
+    const geoJson = {
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [-84.39, 33.77] }, properties: {} },
+        { type: 'Feature', geometry: { type: 'LineString', coordinates: [] }, properties: { name: 'Path' } }
+      ]
+    };
+
+    await expect(
+      transferService.importArtifacts('session1', JSON.stringify(geoJson), 'geojson')
+    ).rejects.toMatchObject({
+      name: 'ImportError',
+      rows: [
+        { row: 1, column: 'name', message: 'Name is required' },
+        { row: 2, column: 'geometry', message: 'Only Point features can be imported' }
+      ]
+    });
+    await expect(transferService.importArtifacts('session1', '<kml></kml>', 'gpx')).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Import is not a GPX file'
+    });
+    const gpx = '<gpx><wpt lat="33.77" lon="-84.39"><name>Tower &#99999999;</name></wpt></gpx>';
+    await expect(transferService.importArtifacts('session1', gpx, 'gpx')).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Import has an invalid character reference &#99999999;'
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { UserService } from '../UserService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+import { NotFoundError, ServiceError } from '../errors';
+
+const baseNode = 'SchemaTest_UserService';
+
+describe('UserService', () => {
+  let storage: MemoryStorageAdapter;
+  let userService: UserService;
+  let sessionService: SessionService;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    await sessionService.createSession('testSession123', 'admin1');
+    await sessionService.setStatus('testSession123', 'running');
+  });
+
+  it('creates a blank user and sets attributes separately', async () => {
+    await userService.createUser('testUser123');
+    await userService.setDisplayName('testUser123', 'TestUser');
+    await userService.setEmail('testUser123', 'test@gatech.edu');
+
+    expect(await userService.getUser('testUser123')).toEqual({
+      displayName: 'TestUser',
+      email: 'test@gatech.edu',
+      isAdmin: false,
+      sessionsJoined: {},
+      createdAt: expect.any(Number),
+      updatedAt: expect.any(Number)
+    });
+  });
+
+  it('rejects creating a user twice', async () => {
+    await userService.createUser('testUser123');
+    await expect(userService.createUser('testUser123')).rejects.toMatchObject({
+      name: 'AlreadyExistsError',
+      code: 'already-exists',
+      message: 'User already exists',
+      entities: { userId: 'testUser123' }
+    });
+  });
+
+  describe('scoring', () => {
+    let artifactService: ArtifactService;
+
+    beforeEach(async () => {
+      artifactService = new ArtifactService(baseNode, storage);
+      await artifactService.createArtifact('statue');
+      await artifactService.setPoints('statue', 25);
+      await artifactService.createArtifact('riddle');
+      await artifactService.setPoints('riddle', 5);
+      await artifactService.setChallengeBonus('riddle', 20);
+      await artifactService.setChallengeStatus('riddle', true);
+      await sessionService.addArtifact('testSession123', 'statue');
+      await sessionService.addArtifact('testSession123', 'riddle');
+
+      await userService.createUser('testUser123');
+      await userService.addUserToSession('testUser123', 'testSession123');
+    });
+
+    it('credits points when an artifact is found and takes them back when un-found', async () => {
+      await userService.addFoundArtifact('testUser123', 'testSession123', 'statue');
+      await userService.addFoundArtifact('testUser123', 'testSession123', 'riddle');
+
+      let user = await userService.getUser('testUser123');
+      expect(user?.sessionsJoined['testSession123'].points).toBe(50);
+
+      // Changing the artifact's value later does not change what was awarded
+      await artifactService.setPoints('statue', 100);
+      await userService.removeFoundArtifact('testUser123', 'testSession123', 'statue');
+
+      user = await userService.getUser('testUser123');
+      expect(user?.sessionsJoined['testSession123'].points).toBe(25);
+    });
+
+    it('rejects finding the same artifact twice', async () => {
+      await userService.addFoundArtifact('testUser123', 'testSession123', 'statue');
+      await expect(
+        userService.addFoundArtifact('testUser123', 'testSession123', 'statue')
+      ).rejects.toMatchObject({
+        code: 'invalid-association',
+        message: 'Artifact has already been found by this user'
+      });
+    });
+
+    it('records manual adjustments by the organizer in the audit log', async () => {
+      await userService.asUser('admin1').updatePoints(
+        'testUser123', 'testSession123', 100, 'Found a hidden bonus'
+      );
+
+      const user = await userService.getUser('testUser123');
+      expect(user?.sessionsJoined['testSession123'].points).toBe(100);
+      expect(await userService.listPointAdjustments('testSession123')).toEqual([{
+        userId: 'testUser123',
+        adminId: 'admin1',
+        previousPoints: 0,
+        points: 100,
+        reason: 'Found a hidden bonus',
+        createdAt: expect.any(Number)
+      }]);
+    });
+
+    it('only lets platform admins and the organizer adjust points', async () => {
+      await expect(
+        userService.asUser('testUser123').updatePoints('testUser123', 'testSession123', 1000, 'Trust me')
+      ).rejects.toMatchObject({
+        name: 'PermissionDeniedError',
+        code: 'permission-denied',
+        message: 'Only a platform admin or the session organizer can adjust points',
+        entities: { userId: 'testUser123', sessionId: 'testSession123' }
+      });
+
+      await userService.createUser('staff');
+      await userService.setAdminStatus('staff', true);
+      await userService.asUser('staff').updatePoints('testUser123', 'testSession123', 5, 'Penalty');
+      expect(await userService.listPointAdjustments('testSession123')).toHaveLength(1);
+    });
+  });
+
+  it('only allows the current session to be one the user has joined', async () => {
+    await userService.createUser('testUser123');
+    await expect(
+      userService.setCurrentSession('testUser123', 'testSession123')
+    ).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      code: 'invalid-association',
+      message: 'User is not part of this session',
+      entities: { userId: 'testUser123', sessionId: 'testSession123' }
+    });
+
+    await userService.addUserToSession('testUser123', 'testSession123');
+    await userService.setCurrentSession('testUser123', 'testSession123');
+    expect((await userService.getUser('testUser123'))?.currentSession).toBe('testSession123');
+
+    await userService.removeUserFromSession('testUser123', 'testSession123');
+    expect((await userService.getUser('testUser123'))?.currentSession).toBeUndefined();
+  });
+
+  it('rejects joining a session that does not exist', async () => {
+    await userService.createUser('testUser123');
+    await expect(
+      userService.addUserToSession('testUser123', 'missingSession')
+    ).rejects.toMatchObject({
+      name: 'NotFoundError',
+      code: 'not-found',
+      message: 'Session does not exist',
+      entities: { sessionId: 'missingSession' }
+    });
+  });
+
+  it('throws errors that can be told apart by class', async () => {
+    const error = await userService.setEmail('ghost', 'ghost@gatech.edu').catch(e => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toBeInstanceOf(ServiceError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.entities).toEqual({ userId: 'ghost' });
+  });
+});
@@ -0,0 +1,158 @@
+import { UserService } from '../UserService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { VerificationService } from '../VerificationService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+
+const baseNode = 'SchemaTest_Verification';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('photo verification of finds', () => {
+  let userService: UserService;
+  let sessionService: SessionService;
+  let verificationService: VerificationService;
+
+  const progressOf = async (userId: string) =>
+    (await userService.getUser(userId))?.sessionsJoined.session1;
+
+  // admin1 organizes session1; user_A plays in it
+  beforeEach(async () => {
+    const storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    verificationService = new VerificationService(baseNode, storage);
+    const artifactService = new ArtifactService(baseNode, storage);
+
+    await userService.createUser('admin1');
+    await sessionService.createSession('session1', 'admin1');
+    await sessionService.setStatus('session1', 'running');
+    await artifactService.createArtifact('artifact1');
+    await sessionService.addArtifact('session1', 'artifact1');
+    await userService.createUser('user_A');
+    await userService.addUserToSession('user_A', 'session1');
+  });
+
+  it('credits the find only once the organizer approves it', async () => {
+    const id = await verificationService.submitVerification(
+      'user_A', 'session1', 'artifact1', 'https://example.com/photo.jpg'
+    );
+
+    expect(await verificationService.getVerification(id)).toMatchObject({ status: 'pending' });
+    expect(await progressOf('user_A')).toMatchObject({ points: 0, foundArtifacts: {} });
+
+    await verificationService.asUser('admin1').approveVerification(id);
+
+    expect(await verificationService.getVerification(id)).toMatchObject({
+      status: 'approved',
+      reviewedBy: 'admin1',
+      reviewedAt: expect.any(Number)
+    });
+    expect(await progressOf('user_A')).toMatchObject({
+      points: 10,
+      foundArtifacts: { artifact1: true }
+    });
+  });
+
+  it('records a rejection without crediting the find and allows resubmitting', async () => {
+    const first = await verificationService.submitVerification('user_A', 'session1', 'artifact1', 'blurry.jpg');
+    await expect(
+      verificationService.submitVerification('user_A', 'session1', 'artifact1', 'again.jpg')
+    ).rejects.toMatchObject({
+      name: 'AlreadyExistsError',
+      message: 'A verification for this artifact is already pending'
+    });
+
+    await verificationService.asUser('admin1').rejectVerification(first, 'Artifact not visible');
+    expect(await verificationService.getVerification(first)).toMatchObject({
+      status: 'rejected',
+      rejectionReason: 'Artifact not visible'
+    });
+    expect(await progressOf('user_A')).toMatchObject({ points: 0, foundArtifacts: {} });
+
+    await expect(verificationService.asUser('admin1').approveVerification(first)).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Verification has already been reviewed'
+    });
+
+    const second = await verificationService.submitVerification('user_A', 'session1', 'artifact1', 'clear.jpg');
+    const history = await verificationService.listUserVerifications('user_A', 'session1');
+    expect(history.map(v => [v.verificationId, v.status])).toEqual([
+      [first, 'rejected'],
+      [second, 'pending']
+    ]);
+  });
+
+  it('only lets the organizer or a platform admin review', async () => {
+    const id = await verificationService.submitVerification('user_A', 'session1', 'artifact1', 'photo.jpg');
+
+    await expect(verificationService.asUser('user_A').approveVerification(id)).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      code: 'permission-denied',
+      entities: { userId: 'user_A', sessionId: 'session1', verificationId: id }
+    });
+
+    await userService.createUser('staff');
+    await userService.setAdminStatus('staff', true);
+    await verificationService.asUser('staff').approveVerification(id);
+    expect(await progressOf('user_A')).toMatchObject({ points: 10 });
+  });
+
+  it('rejects submissions without a photo or for artifacts already found', async () => {
+    await expect(
+      verificationService.submitVerification('user_A', 'session1', 'artifact1', ' ')
+    ).rejects.toMatchObject({ name: 'ValidationError', message: 'A photo is required to verify a find' });
+
+    await userService.addFoundArtifact('user_A', 'session1', 'artifact1');
+    await expect(
+      verificationService.submitVerification('user_A', 'session1', 'artifact1', 'photo.jpg')
+    ).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      message: 'Artifact has already been found by this user'
+    });
+  });
+
+  it('re-checks the artifact and the session when approving', async () => {
+    const id = await verificationService.submitVerification('user_A', 'session1', 'artifact1', 'photo.jpg');
+    const admin = verificationService.asUser('admin1');
+
+    await sessionService.setStatus('session1', 'paused');
+    await expect(admin.approveVerification(id)).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Cannot record finds while the session is paused'
+    });
+
+    await sessionService.setStatus('session1', 'running');
+    await sessionService.removeArtifact('session1', 'artifact1');
+    await expect(admin.approveVerification(id)).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      message: 'Artifact is not part of this session',
+      entities: { sessionId: 'session1', artifactId: 'artifact1' }
+    });
+
+    expect(await verificationService.getVerification(id)).toMatchObject({ status: 'pending' });
+    expect(await progressOf('user_A')).toMatchObject({ points: 0, foundArtifacts: {} });
+  });
+
+  it('emits the pending queue for a session as it changes', async () => {
+    const queues: string[][] = [];
+    const unsubscribe = verificationService.watchPendingVerifications(
+      'session1',
+      pending => queues.push(pending.map(v => v.photoUrl || ''))
+    );
+    await flush();
+
+    const id = await verificationService.submitVerification('user_A', 'session1', 'artifact1', 'photo.jpg');
+    await verificationService.asUser('admin1').approveVerification(id);
+    unsubscribe();
+
+    expect(queues).toEqual([[], ['photo.jpg'], []]);
+  });
+
+  it('is cleaned up when the session is dissolved', async () => {
+    await verificationService.submitVerification('user_A', 'session1', 'artifact1', 'photo.jpg');
+    await sessionService.dissolveSession('session1');
+
+    expect(await verificationService.listSessionVerifications('session1')).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import { UserService } from '../UserService';
+import { TeamService } from '../TeamService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+import { describeRoles } from '../authorization';
+
+const baseNode = 'SchemaTest_Authorization';
+
+describe('describeRoles', () => {
+  it('lists the roles allowed to act', () => {
+    expect(describeRoles(['admin'])).toBe('a platform admin');
+    expect(describeRoles(['self', 'captain', 'organizer'])).toBe(
+      'the user themselves, the team captain or the session organizer'
+    );
+  });
+});
+
+describe('acting-user authorization', () => {
+  let userService: UserService;
+  let teamService: TeamService;
+  let sessionService: SessionService;
+  let artifactService: ArtifactService;
+
+  // organizer runs session1; staff is a platform admin; alice and bob play, alice captains red
+  beforeEach(async () => {
+    const storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    teamService = new TeamService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    artifactService = new ArtifactService(baseNode, storage);
+
+    for (const userId of ['organizer', 'staff', 'alice', 'bob']) {
+      await userService.asUser(userId).createUser(userId);
+    }
+    await userService.setAdminStatus('staff', true);
+
+    const organizer = sessionService.asUser('organizer');
+    await organizer.createSession('session1', 'organizer');
+    await organizer.setStatus('session1', 'running');
+    await teamService.asUser('alice').createTeam('red');
+    await organizer.addTeam('session1', 'red');
+
+    await userService.asUser('alice').addUserToSession('alice', 'session1');
+    await userService.asUser('bob').addUserToSession('bob', 'session1');
+    await userService.asUser('alice').assignUserToTeam('alice', 'session1', 'red');
+  });
+
+  it('lets only platform admins grant admin status', async () => {
+    await expect(userService.asUser('alice').setAdminStatus('alice', true)).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      code: 'permission-denied',
+      message: 'Only a platform admin can change admin status',
+      entities: { userId: 'alice' }
+    });
+
+    await userService.asUser('staff').setAdminStatus('alice', true);
+    expect((await userService.getUser('alice'))?.isAdmin).toBe(true);
+  });
+
+  it('lets players edit only their own profile', async () => {
+    await userService.asUser('alice').setDisplayName('alice', 'Alice');
+    await expect(userService.asUser('bob').setDisplayName('alice', 'Bobbed')).rejects.toMatchObject({
+      message: 'Only the user themselves or a platform admin can update this profile'
+    });
+  });
+
+  it('keeps session management to the organizer and admins', async () => {
+    const alice = sessionService.asUser('alice');
+    await expect(alice.setSessionName('session1', 'Mine now')).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      message: 'Only the session organizer or a platform admin can manage this session',
+      entities: { userId: 'alice', sessionId: 'session1' }
+    });
+    await expect(sessionService.asUser('bob').dissolveSession('session1')).rejects.toMatchObject({
+      message: 'Only the session organizer or a platform admin can delete this session'
+    });
+    await expect(alice.createSession('session2', 'organizer')).rejects.toMatchObject({
+      message: 'Only the user themselves or a platform admin can create sessions for this organizer'
+    });
+
+    await sessionService.asUser('staff').setSessionName('session1', 'Spring Hunt');
+    expect((await sessionService.getSession('session1'))?.sessionName).toBe('Spring Hunt');
+  });
+
+  it('lets the captain name the team and hand it on, but not manage its roster', async () => {
+    const alice = teamService.asUser('alice');
+    expect((await teamService.getTeam('red'))?.captainId).toBe('alice');
+
+    await expect(alice.addMember('red', 'bob')).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      message: 'Only the user themselves, the session organizer or a platform admin can add members to this team'
+    });
+    await teamService.asUser('bob').addMember('red', 'bob');
+    await alice.setTeamName('red', 'Red Team');
+
+    await expect(teamService.asUser('bob').setTeamName('red', 'Bob Team')).rejects.toMatchObject({
+      message: 'Only the team captain, the session organizer or a platform admin can rename this team'
+    });
+
+    await alice.setCaptain('red', 'bob');
+    await teamService.asUser('bob').setTeamName('red', 'Bob Team');
+    await expect(teamService.asUser('bob').removeMember('red', 'alice')).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      entities: { teamId: 'red' }
+    });
+    await expect(teamService.asUser('bob').dissolveTeam('red')).rejects.toMatchObject({
+      message: 'Only the session organizer or a platform admin can delete this team'
+    });
+
+    // Players can always leave a team themselves
+    await alice.removeMember('red', 'alice');
+    expect(await teamService.listTeamMembers('red')).toEqual(['bob']);
+  });
+
+  it('hands the captaincy on when the captain leaves the team', async () => {
+    await teamService.asUser('bob').addMember('red', 'bob');
+
+    await teamService.asUser('alice').removeMember('red', 'alice');
+    expect((await teamService.getTeam('red'))?.captainId).toBe('bob');
+
+    await userService.asUser('bob').removeUserFromTeam('bob', 'session1');
+    const team = await teamService.getTeam('red');
+    expect(team?.members).toEqual({});
+    expect(team?.captainId).toBeUndefined();
+  });
+
+  it('hands the captaincy on when the captain deletes their account', async () => {
+    await teamService.asUser('bob').addMember('red', 'bob');
+    await userService.asUser('alice').purgeUser('alice');
+
+    expect(await teamService.getTeam('red')).toMatchObject({ members: { bob: true }, captainId: 'bob' });
+  });
+
+  it("keeps players' finds and points in the hands of the organizer", async () => {
+    await artifactService.asUser('organizer').createArtifact('artifact1');
+    await sessionService.asUser('organizer').addArtifact('session1', 'artifact1');
+
+    const alice = userService.asUser('alice');
+    await expect(alice.addFoundArtifact('alice', 'session1', 'artifact1')).rejects.toMatchObject({
+      message: 'Only the session organizer or a platform admin can credit finds directly'
+    });
+    await expect(alice.updatePoints('alice', 'session1', 500, 'Self-awarded')).rejects.toMatchObject({
+      code: 'permission-denied'
+    });
+
+    await userService.asUser('organizer').addFoundArtifact('alice', 'session1', 'artifact1');
+    await userService.asUser('organizer').updatePoints('bob', 'session1', 3, 'Helped set up');
+
+    const adjustments = await userService.listPointAdjustments('session1');
+    expect(adjustments[0]).toMatchObject({ adminId: 'organizer', reason: 'Helped set up' });
+  });
+
+  it('lets only the creator or an admin edit an artifact', async () => {
+    await artifactService.asUser('organizer').createArtifact('artifact1');
+    expect((await artifactService.getArtifact('artifact1'))?.creatorId).toBe('organizer');
+
+    await expect(artifactService.asUser('alice').setPoints('artifact1', 100)).rejects.toMatchObject({
+      message: 'Only the artifact creator or a platform admin can edit this artifact',
+      entities: { userId: 'alice', artifactId: 'artifact1' }
+    });
+    await artifactService.asUser('staff').setPoints('artifact1', 20);
+    await artifactService.asUser('organizer').deleteArtifact('artifact1');
+    expect(await artifactService.getArtifact('artifact1')).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { UserService } from '../UserService';
+import { TeamService } from '../TeamService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { InviteService } from '../InviteService';
+import { VerificationService } from '../VerificationService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+
+const baseNode = 'SchemaTest_Cascade';
+
+describe('cascading teardown', () => {
+  let storage: MemoryStorageAdapter;
+  let userService: UserService;
+  let teamService: TeamService;
+  let sessionService: SessionService;
+  let sessionInvite: string;
+  let teamInvite: string;
+  let secondSessionInvite: string;
+  let verificationId: string;
+
+  // session1 has team1 (user_A, user_B) and team2 (empty), plus user_C without a team, and
+  // invites to the session and to team1. user_A found artifact1, is waiting for a photo of
+  // artifact2 to be verified, and also joined session2, without a team, through an invite.
+  // user_B's points in session1 were adjusted by hand.
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    teamService = new TeamService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    const artifactService = new ArtifactService(baseNode, storage);
+    const inviteService = new InviteService(baseNode, storage);
+
+    await sessionService.createSession('session1', 'admin1');
+    await sessionService.setStatus('session1', 'running');
+    await sessionService.createSession('session2', 'admin1');
+    await sessionService.setStatus('session2', 'running');
+    await teamService.createTeam('team1');
+    await teamService.createTeam('team2');
+    await sessionService.addTeam('session1', 'team1');
+    await sessionService.addTeam('session1', 'team2');
+    await artifactService.createArtifact('artifact1');
+    await sessionService.addArtifact('session1', 'artifact1');
+    await artifactService.createArtifact('artifact2');
+    await sessionService.addArtifact('session1', 'artifact2');
+
+    for (const userId of ['user_A', 'user_B', 'user_C']) {
+      await userService.createUser(userId);
+      await userService.addUserToSession(userId, 'session1');
+    }
+    await userService.assignUserToTeam('user_A', 'session1', 'team1');
+    await userService.assignUserToTeam('user_B', 'session1', 'team1');
+    await userService.addFoundArtifact('user_A', 'session1', 'artifact1');
+    await userService.setCurrentSession('user_A', 'session1');
+    await userService.updatePoints('user_B', 'session1', 3, 'Helped set up');
+
+    sessionInvite = await inviteService.createInvite('session1');
+    teamInvite = await inviteService.createInvite('session1', { teamId: 'team1' });
+    secondSessionInvite = await inviteService.createInvite('session2');
+    await inviteService.redeemInvite(secondSessionInvite, 'user_A');
+
+    verificationId = await new VerificationService(baseNode, storage).submitVerification(
+      'user_A', 'session1', 'artifact2', 'photo.jpg'
+    );
+  });
+
+  describe('UserService.purgeUser', () => {
+    it('reports the steps without writing in a dry run', async () => {
+      const before = await storage.get(baseNode);
+      const report = await userService.purgeUser('user_A', { dryRun: true });
+
+      expect(report).toEqual({
+        dryRun: true,
+        steps: [
+          { action: 'remove-user-from-team', userId: 'user_A', sessionId: 'session1', teamId: 'team1' },
+          {
+            action: 'clear-found-artifacts',
+            userId: 'user_A',
+            sessionId: 'session1',
+            artifactIds: ['artifact1']
+          },
+          { action: 'remove-user-from-session', userId: 'user_A', sessionId: 'session1' },
+          { action: 'remove-user-from-session', userId: 'user_A', sessionId: 'session2' },
+          {
+            action: 'remove-invite-redemption',
+            userId: 'user_A',
+            sessionId: 'session2',
+            inviteCode: secondSessionInvite
+          },
+          { action: 'delete-verification', userId: 'user_A', sessionId: 'session1', verificationId },
+          { action: 'delete-user', userId: 'user_A' }
+        ]
+      });
+      expect(await storage.get(baseNode)).toEqual(before);
+    });
+
+    it('removes the user from everything and deletes them', async () => {
+      await userService.purgeUser('user_A');
+
+      expect(await userService.getUser('user_A')).toBeNull();
+      expect(await teamService.listTeamMembers('team1')).toEqual(['user_B']);
+      expect(await sessionService.listSessionParticipants('session1')).toEqual(['user_B', 'user_C']);
+      expect(await sessionService.listSessionParticipants('session2')).toEqual([]);
+      const invite = await storage.get<any>(`${baseNode}/invites/${secondSessionInvite}`);
+      expect(invite.redemptions).toBeUndefined();
+      expect(await storage.get(`${baseNode}/verifications`)).toBeNull();
+    });
+  });
+
+  describe('TeamService.dissolveTeam', () => {
+    it('releases the members, detaches the team and deletes it', async () => {
+      const report = await teamService.dissolveTeam('team1');
+
+      expect(report.steps.map(step => step.action)).toEqual([
+        'remove-user-from-team',
+        'remove-user-from-team',
+        'remove-team-from-session',
+        'delete-invite',
+        'delete-team'
+      ]);
+      expect(report.steps[3]).toEqual({
+        action: 'delete-invite',
+        sessionId: 'session1',
+        teamId: 'team1',
+        inviteCode: teamInvite
+      });
+      expect(await teamService.getTeam('team1')).toBeNull();
+      expect(await storage.get(`${baseNode}/invites/${teamInvite}`)).toBeNull();
+      expect(await storage.get(`${baseNode}/invites/${sessionInvite}`)).not.toBeNull();
+      expect(await sessionService.listSessionTeams('session1')).toEqual(['team2']);
+
+      const session = await sessionService.getSession('session1');
+      expect(session?.participants).toEqual({ user_A: '', user_B: '', user_C: '' });
+      const userA = await userService.getUser('user_A');
+      expect(userA?.sessionsJoined['session1'].teamId).toBeUndefined();
+    });
+  });
+
+  describe('SessionService.dissolveSession', () => {
+    it('reports the documented deletion order in a dry run', async () => {
+      const report = await sessionService.dissolveSession('session1', { dryRun: true });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.steps).toEqual([
+        { action: 'remove-user-from-team', userId: 'user_A', sessionId: 'session1', teamId: 'team1' },
+        { action: 'remove-user-from-team', userId: 'user_B', sessionId: 'session1', teamId: 'team1' },
+        { action: 'remove-team-from-session', sessionId: 'session1', teamId: 'team1' },
+        { action: 'remove-team-from-session', sessionId: 'session1', teamId: 'team2' },
+        {
+          action: 'clear-found-artifacts',
+          userId: 'user_A',
+          sessionId: 'session1',
+          artifactIds: ['artifact1']
+        },
+        { action: 'remove-user-from-session', userId: 'user_A', sessionId: 'session1' },
+        { action: 'remove-user-from-session', userId: 'user_B', sessionId: 'session1' },
+        { action: 'remove-user-from-session', userId: 'user_C', sessionId: 'session1' },
+        { action: 'delete-team', teamId: 'team1' },
+        { action: 'delete-team', teamId: 'team2' },
+        ...[sessionInvite, teamInvite].sort().map(inviteCode => (
+          { action: 'delete-invite', sessionId: 'session1', inviteCode }
+        )),
+        { action: 'delete-verification', sessionId: 'session1', verificationId },
+        { action: 'delete-point-adjustments', sessionId: 'session1' },
+        { action: 'delete-session', sessionId: 'session1' }
+      ]);
+      expect(await sessionService.getSession('session1')).not.toBeNull();
+    });
+
+    it('removes teams, participants and found-artifact records', async () => {
+      await sessionService.dissolveSession('session1');
+
+      const tree = await storage.get<any>(baseNode);
+      expect(Object.keys(tree.sessions)).toEqual(['session2']);
+      expect(tree.teams).toBeUndefined();
+      expect(tree.artifacts).toEqual({ artifact1: expect.any(Object), artifact2: expect.any(Object) });
+      expect(Object.keys(tree.invites)).toEqual([secondSessionInvite]);
+      expect(tree.verifications).toBeUndefined();
+      expect(tree.pointAdjustments).toBeUndefined();
+      expect(tree.users.user_A.sessionsJoined).toEqual({ session2: { points: 0 } });
+      expect(tree.users.user_A.currentSession).toBeUndefined();
+      expect(tree.users.user_B.sessionsJoined).toBeUndefined();
+
+      // Everyone left is now unassociated and can be deleted the normal way
+      await userService.deleteUser('user_B');
+      await userService.deleteUser('user_C');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { UserService } from '../UserService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+import { OutOfRangeError } from '../errors';
+import { haversineDistance } from '../geo';
+
+const baseNode = 'SchemaTest_Geofence';
+
+// The Ferry Building in San Francisco
+const artifactPosition = { latitude: 37.7955, longitude: -122.3937 };
+
+describe('haversineDistance', () => {
+  it('measures great-circle distances in meters', () => {
+    expect(haversineDistance(artifactPosition, artifactPosition)).toBe(0);
+    // One degree of latitude is about 111.2 km
+    expect(haversineDistance({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 }))
+      .toBeCloseTo(111195, -1);
+    // London to Paris
+    expect(haversineDistance(
+      { latitude: 51.5074, longitude: -0.1278 },
+      { latitude: 48.8566, longitude: 2.3522 }
+    ) / 1000).toBeCloseTo(343.6, 0);
+  });
+});
+
+describe('claiming artifacts by position', () => {
+  let storage: MemoryStorageAdapter;
+  let userService: UserService;
+  let artifactService: ArtifactService;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    artifactService = new ArtifactService(baseNode, storage);
+    const sessionService = new SessionService(baseNode, storage);
+
+    await sessionService.createSession('session1', 'admin1');
+    await sessionService.setStatus('session1', 'running');
+    await artifactService.createArtifact('artifact1');
+    await artifactService.setCoordinates('artifact1', artifactPosition.latitude, artifactPosition.longitude);
+    await sessionService.addArtifact('session1', 'artifact1');
+    await userService.createUser('user_A');
+    await userService.addUserToSession('user_A', 'session1');
+  });
+
+  it('records the find when the player is within the default radius', async () => {
+    // About 11 m north of the artifact
+    const result = await userService.claimArtifact('user_A', 'session1', 'artifact1', {
+      latitude: 37.7956,
+      longitude: -122.3937
+    });
+
+    expect(result.radiusMeters).toBe(30);
+    expect(result.distanceMeters).toBeCloseTo(11.1, 0);
+    const progress = (await userService.getUser('user_A'))?.sessionsJoined.session1;
+    expect(progress).toMatchObject({ points: 10, foundArtifacts: { artifact1: true } });
+  });
+
+  it('rejects a claim from outside the radius with the distance', async () => {
+    // About 111 m north of the artifact
+    const claim = userService.claimArtifact('user_A', 'session1', 'artifact1', {
+      latitude: 37.7965,
+      longitude: -122.3937
+    });
+
+    await expect(claim).rejects.toBeInstanceOf(OutOfRangeError);
+    await expect(claim).rejects.toMatchObject({
+      code: 'out-of-range',
+      message: 'Artifact is 111 m away. Get within 30 m to claim it',
+      radiusMeters: 30,
+      entities: { userId: 'user_A', sessionId: 'session1', artifactId: 'artifact1' }
+    });
+    const progress = (await userService.getUser('user_A'))?.sessionsJoined.session1;
+    expect(progress?.points).toBe(0);
+  });
+
+  it("uses the artifact's own claim radius when set", async () => {
+    await artifactService.setClaimRadius('artifact1', 150);
+
+    const result = await userService.claimArtifact('user_A', 'session1', 'artifact1', {
+      latitude: 37.7965,
+      longitude: -122.3937
+    });
+    expect(result.radiusMeters).toBe(150);
+
+    await expect(artifactService.setClaimRadius('artifact1', 0)).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Claim radius must be a positive number of meters'
+    });
+  });
+
+  it('rejects positions that are not valid coordinates', async () => {
+    await expect(userService.claimArtifact('user_A', 'session1', 'artifact1', {
+      latitude: 95,
+      longitude: -122.3937
+    })).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Reported position is not a valid latitude/longitude'
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { UserService } from '../UserService';
+import { TeamService } from '../TeamService';
+import { SessionService } from '../SessionService';
+import { IntegrityService } from '../IntegrityService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+
+const baseNode = 'SchemaTest_Integrity';
+
+describe('integrity check', () => {
+  let storage: MemoryStorageAdapter;
+  let userService: UserService;
+  let integrityService: IntegrityService;
+
+  // session1 has team1 (user_A, user_B); user_C plays without a team
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    integrityService = new IntegrityService(baseNode, storage);
+    const teamService = new TeamService(baseNode, storage);
+    const sessionService = new SessionService(baseNode, storage);
+
+    await sessionService.createSession('session1', 'admin1');
+    await sessionService.setStatus('session1', 'running');
+    await teamService.createTeam('team1');
+    await sessionService.addTeam('session1', 'team1');
+
+    for (const userId of ['admin1', 'user_A', 'user_B', 'user_C']) {
+      await userService.createUser(userId);
+    }
+    await userService.setAdminStatus('admin1', true);
+    for (const userId of ['user_A', 'user_B', 'user_C']) {
+      await userService.addUserToSession(userId, 'session1');
+    }
+    await userService.assignUserToTeam('user_A', 'session1', 'team1');
+    await userService.assignUserToTeam('user_B', 'session1', 'team1');
+  });
+
+  // Writes straight to storage, the way a failed or hand-made write would
+  const corrupt = (updates: { [path: string]: any }) => {
+    const rootUpdates: { [path: string]: any } = {};
+    for (const path of Object.keys(updates)) {
+      rootUpdates[`${baseNode}/${path}`] = updates[path];
+    }
+    return storage.update(rootUpdates);
+  };
+
+  it('finds nothing wrong with data written through the services', async () => {
+    expect(await integrityService.checkIntegrity()).toEqual({ repaired: false, issues: [] });
+  });
+
+  it('reports a team assignment left behind on the user and repairs it', async () => {
+    await corrupt({
+      'teams/team1/members/user_B': null,
+      'sessions/session1/participants/user_B': ''
+    });
+
+    const report = await integrityService.checkIntegrity();
+    expect(report).toEqual({
+      repaired: false,
+      issues: [{
+        kind: 'team-assignment-mismatch',
+        message: 'User user_B is recorded on team team1 in session session1 but is on the roster of no team',
+        userId: 'user_B',
+        sessionId: 'session1',
+        teamId: 'team1',
+        repairs: { 'users/user_B/sessionsJoined/session1/teamId': null }
+      }]
+    });
+
+    const repaired = await integrityService.checkIntegrity({ repair: true });
+    expect(repaired.repaired).toBe(true);
+    expect((await userService.getUser('user_B'))?.sessionsJoined.session1.teamId).toBeUndefined();
+    expect((await integrityService.checkIntegrity()).issues).toEqual([]);
+  });
+
+  it('reports every kind of drift and repairs them in one update', async () => {
+    await corrupt({
+      // user_D was deleted without leaving the session or team
+      'sessions/session1/participants/user_D': 'team1',
+      'teams/team1/members/user_D': true,
+      // user_C's join only reached the session
+      'users/user_C/sessionsJoined/session1': null,
+      // session2 was deleted but team2 and user_A still point at it
+      'teams/team2': { sessionId: 'session2', teamName: '', members: { user_A: true } },
+      'users/user_A/sessionsJoined/session2': { points: 0 },
+      'users/user_A/currentSession': 'session2',
+      // team1 forgot its session
+      'teams/team1/sessionId': ''
+    });
+
+    const report = await integrityService.checkIntegrity();
+    expect(report.issues.map(issue => [issue.kind, issue.message])).toEqual([
+      ['missing-reference', 'Session session1 lists participant user_D, who does not exist'],
+      ['team-session-mismatch', 'Team team1 is listed by session session1 but does not belong to it'],
+      ['missing-reference', 'Team team2 belongs to session session2, which does not exist'],
+      ['missing-reference', 'Team team1 lists member user_D, who does not exist'],
+      ['member-outside-session', 'Team team2 lists member user_A but is not part of any session'],
+      ['missing-reference', 'User user_A has a record for session session2, which does not exist'],
+      ['session-membership-mismatch',
+        'User user_C is a participant of session session1 but has no record of joining it']
+    ]);
+
+    await integrityService.asUser('admin1').checkIntegrity({ repair: true });
+
+    expect((await integrityService.checkIntegrity()).issues).toEqual([]);
+    const userA = await userService.getUser('user_A');
+    expect(Object.keys(userA!.sessionsJoined)).toEqual(['session1']);
+    expect(userA?.currentSession).toBeUndefined();
+    expect((await userService.getUser('user_C'))?.sessionsJoined.session1).toEqual({
+      points: 0,
+      foundArtifacts: {},
+      foundArtifactPoints: {},
+      foundAt: {}
+    });
+  });
+
+  it('lets only platform admins repair', async () => {
+    await corrupt({ 'teams/team1/members/user_C': true });
+
+    await expect(integrityService.asUser('user_A').checkIntegrity({ repair: true })).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      message: 'Only a platform admin can repair the database'
+    });
+
+    const report = await integrityService.asUser('user_A').checkIntegrity();
+    expect(report.issues.map(issue => issue.kind)).toEqual([
+      'team-assignment-mismatch',
+      'team-assignment-mismatch'
+    ]);
+  });
+});
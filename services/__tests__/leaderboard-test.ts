@@ -0,0 +1,124 @@
+import { UserService } from '../UserService';
+import { TeamService } from '../TeamService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+import { Leaderboard } from '../leaderboard';
+
+const baseNode = 'SchemaTest_Leaderboard';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('session leaderboards', () => {
+  let userService: UserService;
+  let sessionService: SessionService;
+  let clock: number;
+
+  const findAt = async (time: number, userId: string, artifactId: string) => {
+    clock = time;
+    await userService.addFoundArtifact(userId, 'session1', artifactId);
+  };
+
+  // Red: Alice, Ben. Blue: Chris. Dan has no team. Every artifact is worth 10 points.
+  beforeEach(async () => {
+    clock = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+
+    const storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    const teamService = new TeamService(baseNode, storage);
+    const artifactService = new ArtifactService(baseNode, storage);
+
+    await sessionService.createSession('session1', 'admin1');
+    await sessionService.setStatus('session1', 'running');
+    for (const [teamId, name] of [['red', 'Red Team'], ['blue', 'Blue Team']]) {
+      await teamService.createTeam(teamId);
+      await teamService.setTeamName(teamId, name);
+      await sessionService.addTeam('session1', teamId);
+    }
+    for (const artifactId of ['a1', 'a2', 'a3', 'a4']) {
+      await artifactService.createArtifact(artifactId);
+      await sessionService.addArtifact('session1', artifactId);
+    }
+    for (const [userId, name, teamId] of [
+      ['alice', 'Alice', 'red'], ['ben', 'Ben', 'red'], ['chris', 'Chris', 'blue'], ['dan', 'Dan', '']
+    ]) {
+      await userService.createUser(userId);
+      await userService.setDisplayName(userId, name);
+      await userService.addUserToSession(userId, 'session1');
+      if (teamId) await userService.assignUserToTeam(userId, 'session1', teamId);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('ranks players by points and breaks ties by the earlier last find', async () => {
+    await findAt(100, 'chris', 'a1');
+    await findAt(200, 'alice', 'a1');
+    await findAt(300, 'chris', 'a2');
+    await findAt(400, 'ben', 'a2');
+    await findAt(500, 'alice', 'a3');
+
+    const { players } = await sessionService.getLeaderboard('session1');
+
+    // Alice and Chris both have 20 points, but Chris got there first
+    expect(players.map(p => [p.rank, p.userId, p.points, p.lastFoundAt])).toEqual([
+      [1, 'chris', 20, 300],
+      [2, 'alice', 20, 500],
+      [3, 'ben', 10, 400],
+      [4, 'dan', 0, null]
+    ]);
+    expect(players[0]).toEqual({
+      rank: 1,
+      userId: 'chris',
+      displayName: 'Chris',
+      teamId: 'blue',
+      points: 20,
+      artifactsFound: 2,
+      lastFoundAt: 300
+    });
+  });
+
+  it('aggregates team scores from their members', async () => {
+    await findAt(100, 'chris', 'a1');
+    await findAt(200, 'chris', 'a2');
+    await findAt(300, 'alice', 'a1');
+    await findAt(400, 'dan', 'a1');
+
+    const { teams } = await sessionService.getLeaderboard('session1');
+
+    // Both teams have 20 points; Blue reached it first. Dan's points count for no team.
+    expect(teams).toEqual([
+      { rank: 1, teamId: 'blue', teamName: 'Blue Team', points: 20, memberIds: ['chris'], lastFoundAt: 200 },
+      { rank: 2, teamId: 'red', teamName: 'Red Team', points: 10, memberIds: ['alice', 'ben'], lastFoundAt: 300 }
+    ]);
+  });
+
+  it('gives players with identical scores and timing the same rank', async () => {
+    const { players } = await sessionService.getLeaderboard('session1');
+    expect(players.map(p => p.rank)).toEqual([1, 1, 1, 1]);
+  });
+
+  it('emits an updated leaderboard as finds and team changes happen', async () => {
+    const emitted: Leaderboard[] = [];
+    const unsubscribe = sessionService.watchLeaderboard('session1', board => emitted.push(board));
+    await flush();
+
+    await findAt(100, 'ben', 'a1');
+    await userService.removeUserFromTeam('ben', 'session1');
+    await userService.assignUserToTeam('ben', 'session1', 'blue');
+    await flush();
+    unsubscribe();
+
+    const latest = emitted[emitted.length - 1];
+    expect(latest.players[0]).toMatchObject({ userId: 'ben', teamId: 'blue', points: 10 });
+    expect(latest.teams.map(t => [t.teamId, t.points, t.memberIds])).toEqual([
+      ['blue', 10, ['ben', 'chris']],
+      ['red', 0, ['alice']]
+    ]);
+    expect(emitted.some(board => board.teams.find(t => t.teamId === 'red')?.points === 10)).toBe(true);
+  });
+});
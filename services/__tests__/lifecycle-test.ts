@@ -0,0 +1,154 @@
+import { UserService } from '../UserService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { TeamService } from '../TeamService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+import { sessionStatus } from '../lifecycle';
+import { Session } from '../../types/database';
+
+const baseNode = 'SchemaTest_Lifecycle';
+
+describe('sessionStatus', () => {
+  const session = (fields: Partial<Session>): Session => ({
+    sessionName: '',
+    creatorId: 'admin1',
+    startTime: 1000,
+    endTime: 2000,
+    isActive: false,
+    teams: {},
+    participants: {},
+    artifacts: {},
+    ...fields
+  });
+
+  it('starts scheduled sessions at their start time and ends any session at its end time', () => {
+    expect(sessionStatus(session({ status: 'scheduled' }), 999)).toBe('scheduled');
+    expect(sessionStatus(session({ status: 'scheduled' }), 1000)).toBe('running');
+    expect(sessionStatus(session({ status: 'running' }), 1500)).toBe('running');
+    expect(sessionStatus(session({ status: 'paused' }), 2000)).toBe('ended');
+    expect(sessionStatus(session({ status: 'draft' }), 5000)).toBe('draft');
+  });
+
+  it('derives a status for sessions created before statuses existed', () => {
+    expect(sessionStatus(session({ isActive: true }), 1500)).toBe('running');
+    expect(sessionStatus(session({ isActive: false }), 1500)).toBe('draft');
+  });
+});
+
+describe('session lifecycle', () => {
+  let userService: UserService;
+  let sessionService: SessionService;
+  let teamService: TeamService;
+
+  beforeEach(async () => {
+    const storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    teamService = new TeamService(baseNode, storage);
+    const artifactService = new ArtifactService(baseNode, storage);
+
+    await sessionService.createSession('session1', 'admin1');
+    await artifactService.createArtifact('artifact1');
+    await sessionService.addArtifact('session1', 'artifact1');
+    await userService.createUser('user_A');
+  });
+
+  it('moves through the lifecycle and keeps isActive in sync', async () => {
+    const now = Date.now();
+    await sessionService.setTimes('session1', now + 60000, now + 3600000);
+
+    const statuses: [string, boolean | undefined][] = [];
+    for (const status of ['scheduled', 'running', 'paused', 'running', 'ended', 'archived'] as const) {
+      await sessionService.setStatus('session1', status);
+      const session = await sessionService.getSession('session1');
+      statuses.push([await sessionService.getStatus('session1'), session?.isActive]);
+    }
+
+    expect(statuses).toEqual([
+      ['scheduled', false],
+      ['running', true],
+      ['paused', false],
+      ['running', true],
+      ['ended', false],
+      ['archived', false]
+    ]);
+  });
+
+  it('rejects transitions the lifecycle does not allow', async () => {
+    await expect(sessionService.setStatus('session1', 'paused')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      code: 'invalid-state',
+      message: 'Cannot move session from draft to paused',
+      entities: { sessionId: 'session1' }
+    });
+
+    await expect(sessionService.setStatus('session1', 'scheduled')).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Set start and end times before scheduling the session'
+    });
+
+    await sessionService.setStatus('session1', 'running');
+    await sessionService.setStatus('session1', 'ended');
+    await expect(sessionService.setStatus('session1', 'running')).rejects.toMatchObject({
+      message: 'Cannot move session from ended to running'
+    });
+    await expect(sessionService.setTimes('session1', 1000, 2000)).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Cannot change the times of a session that is ended'
+    });
+  });
+
+  it('only accepts joins and finds while the session is running', async () => {
+    await expect(userService.addUserToSession('user_A', 'session1')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Cannot join while the session is draft'
+    });
+
+    await sessionService.setStatus('session1', 'running');
+    await userService.addUserToSession('user_A', 'session1');
+    await sessionService.setStatus('session1', 'paused');
+
+    await expect(userService.addFoundArtifact('user_A', 'session1', 'artifact1')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Cannot record finds while the session is paused'
+    });
+
+    await sessionService.setStatus('session1', 'running');
+    await userService.addFoundArtifact('user_A', 'session1', 'artifact1');
+    expect((await userService.getUser('user_A'))?.sessionsJoined.session1.points).toBe(10);
+  });
+
+  it('only lets players leave their team while the session is running', async () => {
+    await teamService.createTeam('team1');
+    await sessionService.addTeam('session1', 'team1');
+    await sessionService.setStatus('session1', 'running');
+    await userService.addUserToSession('user_A', 'session1');
+    await userService.assignUserToTeam('user_A', 'session1', 'team1');
+    await sessionService.setStatus('session1', 'paused');
+
+    await expect(userService.removeUserFromTeam('user_A', 'session1')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Cannot change teams while the session is paused',
+      entities: { sessionId: 'session1' }
+    });
+    await expect(teamService.removeMember('team1', 'user_A')).rejects.toMatchObject({
+      message: 'Cannot change teams while the session is paused'
+    });
+    expect(await teamService.listTeamMembers('team1')).toEqual(['user_A']);
+
+    await sessionService.setStatus('session1', 'running');
+    await teamService.removeMember('team1', 'user_A');
+    expect(await teamService.listTeamMembers('team1')).toEqual([]);
+  });
+
+  it('counts a running session as ended once its end time has passed', async () => {
+    const now = Date.now();
+    await sessionService.setTimes('session1', now - 3600000, now - 1000);
+    await sessionService.setStatus('session1', 'running');
+
+    expect(await sessionService.getStatus('session1')).toBe('ended');
+    await expect(userService.addUserToSession('user_A', 'session1')).rejects.toMatchObject({
+      message: 'Cannot join while the session is ended'
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { MigrationService } from '../MigrationService';
+import { UserService } from '../UserService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+import { LATEST_SCHEMA_VERSION } from '../migrations';
+
+const baseNode = 'SchemaTest_Migration';
+
+// Data as the first version of the app wrote it
+const legacyData = {
+  [baseNode]: {
+    users: {
+      user_A: { username: 'Alice', email: 'a@gatech.edu', isAdmin: false },
+      user_B: { username: 'Old name', displayName: 'Bob', email: 'b@gatech.edu', isAdmin: false }
+    },
+    teams: {
+      team1: { sessionId: 'session1', teamName: 'Red', score: 40, members: { user_A: true } }
+    }
+  }
+};
+
+describe('schema migrations', () => {
+  let storage: MemoryStorageAdapter;
+  let migrationService: MigrationService;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter(legacyData);
+    migrationService = new MigrationService(baseNode, storage);
+  });
+
+  it('upgrades legacy users and teams to the latest version', async () => {
+    expect(await migrationService.getSchemaVersion()).toBe(0);
+
+    const report = await migrationService.migrate();
+    expect(report).toMatchObject({ dryRun: false, fromVersion: 0, toVersion: LATEST_SCHEMA_VERSION });
+    expect(report.steps.map(step => [step.version, step.direction])).toEqual([[1, 'up'], [2, 'up']]);
+
+    expect(await storage.get(baseNode)).toEqual({
+      schemaVersion: 2,
+      users: {
+        user_A: { displayName: 'Alice', email: 'a@gatech.edu', isAdmin: false },
+        user_B: { displayName: 'Bob', email: 'b@gatech.edu', isAdmin: false }
+      },
+      teams: {
+        team1: { sessionId: 'session1', teamName: 'Red', members: { user_A: true } }
+      }
+    });
+
+    // The services accept the migrated data
+    await new UserService(baseNode, storage).setEmail('user_A', 'alice@gatech.edu');
+    expect((await migrationService.migrate()).steps).toEqual([]);
+  });
+
+  it('reports the updates of a dry run without writing them', async () => {
+    const report = await migrationService.migrate({ dryRun: true });
+
+    expect(report.steps[0].updates).toEqual({
+      'users/user_A/displayName': 'Alice',
+      'users/user_A/username': null,
+      'users/user_B/username': null,
+      schemaVersion: 1
+    });
+    expect(report.steps[1].updates).toEqual({ 'teams/team1/score': null, schemaVersion: 2 });
+    expect(await storage.get(baseNode)).toEqual(legacyData[baseNode]);
+  });
+
+  it('migrates down to an earlier version', async () => {
+    await migrationService.migrate();
+
+    const report = await migrationService.migrate({ to: 1 });
+    expect(report.steps.map(step => [step.version, step.direction])).toEqual([[2, 'down']]);
+    expect(await storage.get(`${baseNode}/teams/team1/score`)).toBe(0);
+    expect(await migrationService.getSchemaVersion()).toBe(1);
+
+    await migrationService.migrate({ to: 0 });
+    expect(await storage.get(`${baseNode}/users/user_A`)).toEqual({
+      username: 'Alice',
+      email: 'a@gatech.edu',
+      isAdmin: false
+    });
+  });
+
+  it('rejects unknown versions and non-admins', async () => {
+    await expect(migrationService.migrate({ to: 7 })).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: `Unknown schema version 7; the latest is ${LATEST_SCHEMA_VERSION}`
+    });
+    await expect(migrationService.asUser('user_A').migrate()).rejects.toMatchObject({
+      name: 'PermissionDeniedError',
+      message: 'Only a platform admin can migrate the database'
+    });
+  });
+});
@@ -0,0 +1,511 @@
+/**
+ * Service Layer Scenario Tests
+ * ============================
+ *
+ * These tests verify the data integrity and operation sequencing of the service layer.
+ * They ensure proper creation, association, and deletion of objects following the schema rules.
+ *
+ * Every scenario runs against a fresh in-memory storage adapter, so no network access
+ * or Firebase project is needed. Assertions are made on the resulting database tree
+ * and on the exact error thrown for each rule violation.
+ *
+ * Scenarios:
+ * 1. Basic CRUD - object creation, attribute setting, simple associations, deletion order
+ * 2. Complex Operations - multi-session scenarios, team assignments, artifact finding
+ * 3. Validation Rules - invalid operations, operation sequencing, final database state
+ */
+
+import { UserService } from '../UserService';
+import { TeamService } from '../TeamService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+
+function createServices(baseNode: string) {
+  const storage = new MemoryStorageAdapter();
+  return {
+    storage,
+    userService: new UserService(baseNode, storage),
+    teamService: new TeamService(baseNode, storage),
+    sessionService: new SessionService(baseNode, storage),
+    artifactService: new ArtifactService(baseNode, storage)
+  };
+}
+
+const timestamps = {
+  createdAt: expect.any(Number),
+  updatedAt: expect.any(Number)
+};
+
+describe('Scenario 1: basic CRUD operations', () => {
+  const baseNode = 'SchemaTest_Test1';
+
+  it('creates, associates and tears down objects in the documented order', async () => {
+    const { storage, userService, teamService, sessionService, artifactService } =
+      createServices(baseNode);
+
+    // Step 1: Create blank objects
+    await userService.createUser('user1');
+    await userService.createUser('user2');
+    await teamService.createTeam('team1');
+    await teamService.createTeam('team2');
+    await sessionService.createSession('session1', 'admin1');
+    await sessionService.setStatus('session1', 'running');
+    await artifactService.createArtifact('artifact1');
+
+    // Step 2: Set basic attributes
+    await userService.setDisplayName('user1', 'Alice');
+    await userService.setEmail('user1', 'alice@test.com');
+    await userService.setDisplayName('user2', 'Bob');
+    await userService.setEmail('user2', 'bob@test.com');
+
+    await teamService.setTeamName('team1', 'Red Team');
+    await teamService.setTeamName('team2', 'Blue Team');
+
+    await sessionService.setSessionName('session1', 'Test Hunt');
+    // A one-hour hunt that is under way
+    const startTime = Date.now() - 60000;
+    const endTime = startTime + 3600000;
+    await sessionService.setTimes('session1', startTime, endTime);
+
+    await artifactService.setName('artifact1', 'Golden Key');
+    await artifactService.setDescription('artifact1', 'A special key');
+    await artifactService.setCoordinates('artifact1', 1.234, 5.678);
+
+    // Step 3: Associations in the correct order
+    await sessionService.addArtifact('session1', 'artifact1');
+    await sessionService.addTeam('session1', 'team1');
+    await sessionService.addTeam('session1', 'team2');
+    await userService.addUserToSession('user1', 'session1');
+    await userService.addUserToSession('user2', 'session1');
+    await userService.assignUserToTeam('user1', 'session1', 'team1');
+    await userService.assignUserToTeam('user2', 'session1', 'team2');
+    await userService.addFoundArtifact('user1', 'session1', 'artifact1');
+
+    expect(await storage.get(baseNode)).toEqual({
+      users: {
+        user1: {
+          displayName: 'Alice',
+          email: 'alice@test.com',
+          isAdmin: false,
+          sessionsJoined: {
+            session1: {
+              teamId: 'team1',
+              points: 10,
+              foundArtifacts: { artifact1: true },
+              foundArtifactPoints: { artifact1: 10 },
+              foundAt: { artifact1: expect.any(Number) }
+            }
+          },
+          ...timestamps
+        },
+        user2: {
+          displayName: 'Bob',
+          email: 'bob@test.com',
+          isAdmin: false,
+          sessionsJoined: {
+            session1: { teamId: 'team2', points: 0 }
+          },
+          ...timestamps
+        }
+      },
+      sessions: {
+        session1: {
+          sessionName: 'Test Hunt',
+          creatorId: 'admin1',
+          startTime,
+          endTime,
+          status: 'running',
+          isActive: true,
+          teams: { team1: true, team2: true },
+          participants: { user1: 'team1', user2: 'team2' },
+          artifacts: { artifact1: true }
+        }
+      },
+      teams: {
+        team1: { sessionId: 'session1', teamName: 'Red Team', members: { user1: true } },
+        team2: { sessionId: 'session1', teamName: 'Blue Team', members: { user2: true } }
+      },
+      artifacts: {
+        artifact1: {
+          name: 'Golden Key',
+          description: 'A special key',
+          locationHint: '',
+          latitude: 1.234,
+          longitude: 5.678,
+          isChallenge: false,
+          points: 10,
+          challengeBonus: 10
+        }
+      }
+    });
+
+    // Step 4: Removal in reverse order
+    await userService.removeFoundArtifact('user1', 'session1', 'artifact1');
+    await userService.removeUserFromTeam('user1', 'session1');
+    await userService.removeUserFromTeam('user2', 'session1');
+    await userService.removeUserFromSession('user1', 'session1');
+    await userService.removeUserFromSession('user2', 'session1');
+    await sessionService.removeTeam('session1', 'team1');
+    await sessionService.removeTeam('session1', 'team2');
+    await sessionService.removeArtifact('session1', 'artifact1');
+
+    // Step 5: Delete the now blank objects
+    await sessionService.deleteSession('session1');
+    await teamService.deleteTeam('team1');
+    await teamService.deleteTeam('team2');
+    await userService.deleteUser('user1');
+    await userService.deleteUser('user2');
+    await artifactService.deleteArtifact('artifact1');
+
+    expect(await storage.get(baseNode)).toBeNull();
+  });
+});
+
+describe('Scenario 2: complex operations and validation', () => {
+  const baseNode = 'SchemaTest_Test2';
+
+  it('handles multi-session membership, team moves and artifact finds', async () => {
+    const { storage, userService, teamService, sessionService, artifactService } =
+      createServices(baseNode);
+
+    // Section 1: Initial session setup
+    await sessionService.createSession('session1', 'admin1');
+    await sessionService.setStatus('session1', 'running');
+    await sessionService.createSession('session2', 'admin1');
+    await sessionService.deleteSession('session2');
+    expect(await sessionService.getSession('session2')).toBeNull();
+
+    // Section 2: User creation and session association
+    const names: [string, string][] = [
+      ['user_A', 'Alice'], ['user_B', 'Ben'], ['user_C', 'Chris'], ['user_D', 'Dan']
+    ];
+    for (const [userId, name] of names) {
+      await userService.createUser(userId);
+      await userService.setDisplayName(userId, name);
+      await userService.addUserToSession(userId, 'session1');
+    }
+
+    await expect(userService.deleteUser('user_A')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'User still has session associations. Remove from all sessions first',
+      entities: { userId: 'user_A' }
+    });
+    await expect(sessionService.deleteSession('session1')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'Cannot delete session with active participants',
+      entities: { sessionId: 'session1' }
+    });
+
+    // Section 3: Team creation and session association
+    await teamService.createTeam('team1');
+    await teamService.createTeam('team2');
+    await teamService.createTeam('team3');
+    await sessionService.addTeam('session1', 'team1');
+    await sessionService.addTeam('session1', 'team2');
+    await sessionService.addTeam('session1', 'team3');
+
+    await expect(teamService.deleteTeam('team1')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'Remove team from session before deletion',
+      entities: { teamId: 'team1', sessionId: 'session1' }
+    });
+
+    // Section 4: Team assignment
+    await userService.assignUserToTeam('user_A', 'session1', 'team1');
+    await userService.assignUserToTeam('user_B', 'session1', 'team1');
+    await userService.assignUserToTeam('user_C', 'session1', 'team2');
+    await userService.assignUserToTeam('user_D', 'session1', 'team2');
+    await sessionService.removeTeam('session1', 'team3');
+
+    // Section 5: Artifact setup and find mechanics
+    await artifactService.createArtifact('artifact1');
+    await artifactService.createArtifact('artifact2');
+    await artifactService.createArtifact('artifact3');
+    await sessionService.addArtifact('session1', 'artifact1');
+    await sessionService.addArtifact('session1', 'artifact2');
+    await sessionService.addArtifact('session1', 'artifact3');
+
+    // Finds are scored automatically at the default 10 points per artifact
+    await userService.addFoundArtifact('user_B', 'session1', 'artifact1');
+    await userService.addFoundArtifact('user_B', 'session1', 'artifact2');
+    await userService.addFoundArtifact('user_D', 'session1', 'artifact3');
+
+    await expect(artifactService.deleteArtifact('artifact1')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'Cannot delete artifact that is part of an active session',
+      entities: { artifactId: 'artifact1', sessionId: 'session1' }
+    });
+
+    // Section 6: User removal and deletion restrictions
+    await userService.removeUserFromTeam('user_A', 'session1');
+    await expect(userService.deleteUser('user_A')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'User still has session associations. Remove from all sessions first',
+      entities: { userId: 'user_A' }
+    });
+    await expect(userService.removeUserFromSession('user_B', 'session1')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'Remove user from team first before removing from session',
+      entities: { userId: 'user_B', sessionId: 'session1', teamId: 'team1' }
+    });
+
+    // Section 7: Multi-session membership
+    await sessionService.createSession('session2', 'admin1');
+    await sessionService.setStatus('session2', 'running');
+    for (const userId of ['user_B', 'user_C', 'user_D']) {
+      await userService.addUserToSession(userId, 'session2');
+    }
+    for (const userId of ['user_B', 'user_C', 'user_D']) {
+      await userService.removeUserFromSession(userId, 'session2');
+    }
+    await expect(userService.deleteUser('user_B')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'User still has session associations. Remove from all sessions first',
+      entities: { userId: 'user_B' }
+    });
+
+    for (const userId of ['user_B', 'user_C', 'user_D']) {
+      await userService.addUserToSession(userId, 'session2');
+    }
+    await expect(sessionService.deleteSession('session2')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'Cannot delete session with active participants',
+      entities: { sessionId: 'session2' }
+    });
+
+    // Section 8: Final users and teams
+    const newcomers: [string, string][] = [
+      ['user_E', 'Emily'], ['user_F', 'Felix'], ['user_G', 'Gabby'], ['user_H', 'Hannah']
+    ];
+    for (const [userId, name] of newcomers) {
+      await userService.createUser(userId);
+      await userService.setDisplayName(userId, name);
+      await userService.addUserToSession(userId, 'session2');
+    }
+
+    await sessionService.addTeam('session2', 'team3');
+    await userService.assignUserToTeam('user_B', 'session2', 'team3');
+    await userService.assignUserToTeam('user_C', 'session2', 'team3');
+    await userService.assignUserToTeam('user_D', 'session2', 'team3');
+
+    const userB = await userService.getUser('user_B');
+    expect(userB?.sessionsJoined['session2'].foundArtifacts).toEqual({});
+
+    await expect(sessionService.removeTeam('session2', 'team3')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'Team must be empty before removing from session',
+      entities: { sessionId: 'session2', teamId: 'team3' }
+    });
+
+    await userService.removeUserFromSession('user_H', 'session2');
+
+    // Verify the resulting tree
+    const tree = await storage.get<any>(baseNode);
+    expect(tree.sessions).toEqual({
+      session1: {
+        sessionName: '',
+        creatorId: 'admin1',
+        startTime: 0,
+        endTime: 0,
+        status: 'running',
+        isActive: true,
+        teams: { team1: true, team2: true },
+        participants: { user_A: '', user_B: 'team1', user_C: 'team2', user_D: 'team2' },
+        artifacts: { artifact1: true, artifact2: true, artifact3: true }
+      },
+      session2: {
+        sessionName: '',
+        creatorId: 'admin1',
+        startTime: 0,
+        endTime: 0,
+        status: 'running',
+        isActive: true,
+        teams: { team3: true },
+        participants: {
+          user_B: 'team3', user_C: 'team3', user_D: 'team3',
+          user_E: '', user_F: '', user_G: ''
+        }
+      }
+    });
+    expect(tree.teams).toEqual({
+      team1: { sessionId: 'session1', teamName: '', members: { user_B: true } },
+      team2: { sessionId: 'session1', teamName: '', members: { user_C: true, user_D: true } },
+      team3: {
+        sessionId: 'session2',
+        teamName: '',
+        members: { user_B: true, user_C: true, user_D: true }
+      }
+    });
+    expect(tree.users.user_A.sessionsJoined).toEqual({ session1: { points: 0 } });
+    expect(tree.users.user_B.sessionsJoined).toEqual({
+      session1: {
+        teamId: 'team1',
+        points: 20,
+        foundArtifacts: { artifact1: true, artifact2: true },
+        foundArtifactPoints: { artifact1: 10, artifact2: 10 },
+        foundAt: { artifact1: expect.any(Number), artifact2: expect.any(Number) }
+      },
+      session2: { teamId: 'team3', points: 0 }
+    });
+    expect(tree.users.user_D.sessionsJoined).toEqual({
+      session1: {
+        teamId: 'team2',
+        points: 10,
+        foundArtifacts: { artifact3: true },
+        foundArtifactPoints: { artifact3: 10 },
+        foundAt: { artifact3: expect.any(Number) }
+      },
+      session2: { teamId: 'team3', points: 0 }
+    });
+    expect(tree.users.user_H).toEqual({
+      displayName: 'Hannah',
+      email: '',
+      isAdmin: false,
+      ...timestamps
+    });
+  });
+});
+
+describe('Scenario 3: validation rules and state transitions', () => {
+  const baseNode = 'SchemaTest_Test3';
+
+  it('rejects invalid operations and keeps a consistent final state', async () => {
+    const { storage, userService, teamService, sessionService, artifactService } =
+      createServices(baseNode);
+
+    // Initial setup
+    for (const userId of ['user_A', 'user_B', 'user_C', 'user_D']) {
+      await userService.createUser(userId);
+    }
+    await sessionService.createSession('session1', 'admin1');
+    await sessionService.setStatus('session1', 'running');
+    await teamService.createTeam('team1');
+    await teamService.createTeam('team2');
+    await teamService.createTeam('team3');
+
+    // Invalid team assignment: user is not in the session yet
+    await expect(
+      userService.assignUserToTeam('user_A', 'session1', 'team1')
+    ).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      code: 'invalid-association',
+      message: 'User is not part of this session',
+      entities: { userId: 'user_A', sessionId: 'session1' }
+    });
+
+    await sessionService.addTeam('session1', 'team1');
+    await expect(
+      userService.assignUserToTeam('user_A', 'session1', 'team1')
+    ).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      code: 'invalid-association',
+      message: 'User is not part of this session',
+      entities: { userId: 'user_A', sessionId: 'session1' }
+    });
+
+    await userService.addUserToSession('user_A', 'session1');
+
+    // Invalid team assignment: team is not in the session
+    await expect(
+      userService.assignUserToTeam('user_A', 'session1', 'team2')
+    ).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      code: 'invalid-association',
+      message: 'Team does not belong to this session',
+      entities: { sessionId: 'session1', teamId: 'team2' }
+    });
+
+    // Invalid team removal
+    await expect(sessionService.removeTeam('session1', 'team2')).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      code: 'invalid-association',
+      message: 'Team is not part of this session',
+      entities: { sessionId: 'session1', teamId: 'team2' }
+    });
+
+    // Add remaining users and teams
+    await userService.addUserToSession('user_B', 'session1');
+    await userService.addUserToSession('user_C', 'session1');
+    await userService.addUserToSession('user_D', 'session1');
+    await sessionService.addTeam('session1', 'team2');
+    await sessionService.addTeam('session1', 'team3');
+
+    // Artifacts must be part of the session before they can be found
+    await artifactService.createArtifact('at1');
+    await artifactService.createArtifact('at2');
+    await artifactService.createArtifact('at3');
+    await expect(userService.addFoundArtifact('user_A', 'session1', 'at1')).rejects.toMatchObject({
+      name: 'InvalidAssociationError',
+      code: 'invalid-association',
+      message: 'Artifact is not part of this session',
+      entities: { sessionId: 'session1', artifactId: 'at1' }
+    });
+
+    await sessionService.addArtifact('session1', 'at1');
+    await sessionService.addArtifact('session1', 'at2');
+    await sessionService.addArtifact('session1', 'at3');
+
+    // Assign users to teams and record finds
+    await userService.assignUserToTeam('user_A', 'session1', 'team1');
+    await userService.assignUserToTeam('user_B', 'session1', 'team1');
+    await userService.assignUserToTeam('user_C', 'session1', 'team2');
+    await userService.assignUserToTeam('user_D', 'session1', 'team2');
+
+    await userService.addFoundArtifact('user_A', 'session1', 'at1');
+    await userService.addFoundArtifact('user_B', 'session1', 'at2');
+
+    // Removal restrictions
+    await expect(userService.removeUserFromSession('user_A', 'session1')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'Remove user from team first before removing from session',
+      entities: { userId: 'user_A', sessionId: 'session1', teamId: 'team1' }
+    });
+    await expect(sessionService.removeTeam('session1', 'team2')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'Team must be empty before removing from session',
+      entities: { sessionId: 'session1', teamId: 'team2' }
+    });
+    await expect(sessionService.removeArtifact('session1', 'at1')).rejects.toMatchObject({
+      name: 'PrematureDeletionError',
+      code: 'premature-deletion',
+      message: 'Cannot remove artifact that has been found by users',
+      entities: { sessionId: 'session1', artifactId: 'at1', userId: 'user_A' }
+    });
+
+    // Remove and delete artifact at2
+    await userService.removeFoundArtifact('user_B', 'session1', 'at2');
+    await sessionService.removeArtifact('session1', 'at2');
+    await artifactService.deleteArtifact('at2');
+
+    // Verify final state
+    expect(await sessionService.listSessionTeams('session1')).toEqual(['team1', 'team2', 'team3']);
+    expect(await teamService.listTeamMembers('team1')).toEqual(['user_A', 'user_B']);
+    expect(await teamService.listTeamMembers('team2')).toEqual(['user_C', 'user_D']);
+    expect(await teamService.listTeamMembers('team3')).toEqual([]);
+    expect(await sessionService.listSessionArtifacts('session1')).toEqual(['at1', 'at3']);
+
+    const tree = await storage.get<any>(baseNode);
+    expect(Object.keys(tree.artifacts)).toEqual(['at1', 'at3']);
+    expect(tree.users.user_A.sessionsJoined.session1).toEqual({
+      teamId: 'team1',
+      points: 10,
+      foundArtifacts: { at1: true },
+      foundArtifactPoints: { at1: 10 },
+      foundAt: { at1: expect.any(Number) }
+    });
+    // Un-finding at2 took back the points it had awarded
+    expect(tree.users.user_B.sessionsJoined.session1).toEqual({ teamId: 'team1', points: 0 });
+  });
+});
@@ -0,0 +1,121 @@
+import { UserService } from '../UserService';
+import { TeamService } from '../TeamService';
+import { SessionService } from '../SessionService';
+import { ArtifactService } from '../ArtifactService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+
+const baseNode = 'SchemaTest_Subscriptions';
+
+// Initial values are delivered asynchronously, like the database SDK does
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('service subscriptions', () => {
+  let userService: UserService;
+  let teamService: TeamService;
+  let sessionService: SessionService;
+  let artifactService: ArtifactService;
+
+  beforeEach(async () => {
+    const storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    teamService = new TeamService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+    artifactService = new ArtifactService(baseNode, storage);
+
+    await sessionService.createSession('session1', 'admin1');
+    await sessionService.setStatus('session1', 'running');
+    await teamService.createTeam('team1');
+    await sessionService.addTeam('session1', 'team1');
+    await userService.createUser('user_A');
+  });
+
+  it('emits session participants as users join teams', async () => {
+    const emitted: object[] = [];
+    const unsubscribe = sessionService.watchSessionParticipants('session1', p => emitted.push(p));
+    await flush();
+
+    await userService.addUserToSession('user_A', 'session1');
+    await userService.assignUserToTeam('user_A', 'session1', 'team1');
+    unsubscribe();
+    await userService.removeUserFromTeam('user_A', 'session1');
+
+    expect(emitted).toEqual([{}, { user_A: '' }, { user_A: 'team1' }]);
+  });
+
+  it('emits team members and the typed team', async () => {
+    const members: string[][] = [];
+    const names: (string | undefined)[] = [];
+    const stopMembers = teamService.watchTeamMembers('team1', ids => members.push(ids));
+    const stopTeam = teamService.watchTeam('team1', team => names.push(team?.teamName));
+    await flush();
+
+    await userService.addUserToSession('user_A', 'session1');
+    await teamService.addMember('team1', 'user_A');
+    await teamService.setTeamName('team1', 'Red Team');
+    stopMembers();
+    stopTeam();
+
+    expect(members).toEqual([[], ['user_A']]);
+    expect(names).toEqual(['', '', 'Red Team']);
+  });
+
+  it("emits a user's found artifacts and points, then null when they leave", async () => {
+    await artifactService.createArtifact('artifact1');
+    await sessionService.addArtifact('session1', 'artifact1');
+    await userService.addUserToSession('user_A', 'session1');
+
+    const progress: any[] = [];
+    const unsubscribe = userService.watchSessionProgress('user_A', 'session1', p => progress.push(p));
+    await flush();
+
+    await userService.addFoundArtifact('user_A', 'session1', 'artifact1');
+    await userService.removeFoundArtifact('user_A', 'session1', 'artifact1');
+    await userService.removeUserFromSession('user_A', 'session1');
+    unsubscribe();
+
+    expect(progress).toEqual([
+      { points: 0, foundArtifacts: {}, foundArtifactPoints: {}, foundAt: {} },
+      {
+        points: 10,
+        foundArtifacts: { artifact1: true },
+        foundArtifactPoints: { artifact1: 10 },
+        foundAt: { artifact1: expect.any(Number) }
+      },
+      { points: 0, foundArtifacts: {}, foundArtifactPoints: {}, foundAt: {} },
+      null
+    ]);
+  });
+
+  it("emits a session's artifact list", async () => {
+    const emitted: string[][] = [];
+    const unsubscribe = sessionService.watchSessionArtifacts('session1', ids => emitted.push(ids));
+    await flush();
+
+    await artifactService.createArtifact('artifact1');
+    await sessionService.addArtifact('session1', 'artifact1');
+    await sessionService.removeArtifact('session1', 'artifact1');
+    unsubscribe();
+
+    expect(emitted).toEqual([[], ['artifact1'], []]);
+  });
+
+  it("emits a session's artifacts as they are added and edited", async () => {
+    const emitted: { [artifactId: string]: string }[] = [];
+    const unsubscribe = artifactService.watchSessionArtifacts('session1', artifacts => {
+      const names: { [artifactId: string]: string } = {};
+      for (const artifactId of Object.keys(artifacts)) names[artifactId] = artifacts[artifactId].name;
+      emitted.push(names);
+    });
+    await flush();
+
+    await artifactService.createArtifact('artifact1');
+    await sessionService.addArtifact('session1', 'artifact1');
+    await flush();
+    await artifactService.setName('artifact1', 'Tech Tower');
+    await sessionService.removeArtifact('session1', 'artifact1');
+    unsubscribe();
+    await sessionService.addArtifact('session1', 'artifact1');
+
+    expect(emitted).toEqual([{}, { artifact1: '' }, { artifact1: 'Tech Tower' }, {}]);
+  });
+});
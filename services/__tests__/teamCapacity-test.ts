@@ -0,0 +1,154 @@
+import { UserService } from '../UserService';
+import { TeamService } from '../TeamService';
+import { SessionService } from '../SessionService';
+import { InviteService } from '../InviteService';
+import { TransferService } from '../TransferService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+
+const baseNode = 'SchemaTest_TeamCapacity';
+
+describe('team size limits and balancing', () => {
+  let userService: UserService;
+  let teamService: TeamService;
+  let sessionService: SessionService;
+  let storage: MemoryStorageAdapter;
+
+  // session1 (organizer) is running with teams blue, green and red; user_A plays on red and
+  // user_B to user_F have joined without a team
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    userService = new UserService(baseNode, storage);
+    teamService = new TeamService(baseNode, storage);
+    sessionService = new SessionService(baseNode, storage);
+
+    await sessionService.createSession('session1', 'organizer');
+    for (const teamId of ['blue', 'green', 'red']) {
+      await teamService.createTeam(teamId);
+      await sessionService.addTeam('session1', teamId);
+    }
+    await sessionService.setStatus('session1', 'running');
+
+    for (const userId of ['user_A', 'user_B', 'user_C', 'user_D', 'user_E', 'user_F']) {
+      await userService.createUser(userId);
+      await userService.addUserToSession(userId, 'session1');
+    }
+    await userService.assignUserToTeam('user_A', 'session1', 'red');
+  });
+
+  const members = async (teamId: string) => (await teamService.listTeamMembers(teamId)).sort();
+
+  it('turns players away from full teams however they try to join', async () => {
+    await sessionService.asUser('organizer').setMaxTeamSize('session1', 1);
+
+    await expect(userService.assignUserToTeam('user_B', 'session1', 'red')).rejects.toMatchObject({
+      name: 'TeamFullError',
+      code: 'team-full',
+      message: 'Team is full (1 player)',
+      entities: { sessionId: 'session1', teamId: 'red' },
+      maxTeamSize: 1
+    });
+    await expect(teamService.addMember('red', 'user_B')).rejects.toMatchObject({ name: 'TeamFullError' });
+
+    const code = await new InviteService(baseNode, storage).createInvite('session1', { teamId: 'red' });
+    await userService.createUser('user_G');
+    await expect(new InviteService(baseNode, storage).redeemInvite(code, 'user_G')).rejects.toMatchObject({
+      name: 'TeamFullError'
+    });
+    expect((await sessionService.getSession('session1'))?.participants.user_G).toBeUndefined();
+
+    // Staying put doesn't need room, and lifting the limit lets players in again
+    await userService.assignUserToTeam('user_A', 'session1', 'red');
+    await sessionService.setMaxTeamSize('session1', 0);
+    await userService.assignUserToTeam('user_B', 'session1', 'red');
+    expect(await members('red')).toEqual(['user_A', 'user_B']);
+  });
+
+  it('rejects roster rows that would overfill a team', async () => {
+    await sessionService.setMaxTeamSize('session1', 2);
+    await teamService.setTeamName('red', 'red');
+    const csv = ['teamName,userId', 'red,user_B', 'red,user_C'].join('\n');
+
+    await expect(new TransferService(baseNode, storage).importRoster('session1', csv, 'csv')).rejects
+      .toMatchObject({
+        name: 'ImportError',
+        rows: [{ row: 3, column: 'teamName', message: 'Team is full (2 players)' }]
+      });
+  });
+
+  it('validates the limit and who may set it', async () => {
+    await expect(sessionService.setMaxTeamSize('session1', 1.5)).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Team size limit must be a non-negative whole number'
+    });
+    await expect(sessionService.asUser('user_A').setMaxTeamSize('session1', 3)).rejects.toMatchObject({
+      name: 'PermissionDeniedError'
+    });
+    expect((await sessionService.getSession('session1'))?.maxTeamSize).toBeUndefined();
+  });
+
+  it('puts each unassigned player, in ID order, on the smallest team', async () => {
+    const assignments = await sessionService.asUser('organizer').autoAssignTeams('session1');
+
+    expect(assignments).toEqual({
+      user_B: 'blue',
+      user_C: 'green',
+      user_D: 'blue',
+      user_E: 'green',
+      user_F: 'red'
+    });
+    expect(await members('blue')).toEqual(['user_B', 'user_D']);
+    expect(await members('red')).toEqual(['user_A', 'user_F']);
+    expect((await userService.getUser('user_C'))?.sessionsJoined.session1.teamId).toBe('green');
+    expect((await sessionService.getSession('session1'))?.participants.user_E).toBe('green');
+
+    expect(await sessionService.autoAssignTeams('session1')).toEqual({});
+  });
+
+  it('shuffles players when asked, keeping teams even', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    try {
+      const assignments = await sessionService.autoAssignTeams('session1', 'shuffled');
+      // Always swapping with the first player rotates the order to C, D, E, F, B
+      expect(assignments).toEqual({
+        user_C: 'blue',
+        user_D: 'green',
+        user_E: 'blue',
+        user_F: 'green',
+        user_B: 'red'
+      });
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('only assigns teams while the session is running', async () => {
+    await sessionService.setStatus('session1', 'paused');
+    await expect(sessionService.autoAssignTeams('session1')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Cannot change teams while the session is paused',
+      entities: { sessionId: 'session1' }
+    });
+
+    await sessionService.setStatus('session1', 'ended');
+    await expect(sessionService.autoAssignTeams('session1')).rejects.toMatchObject({
+      message: 'Cannot change teams while the session is ended'
+    });
+    expect(await members('blue')).toEqual([]);
+  });
+
+  it('places nobody when the teams lack room for everyone', async () => {
+    await sessionService.setMaxTeamSize('session1', 2);
+    await userService.createUser('user_G');
+    await userService.addUserToSession('user_G', 'session1');
+
+    await expect(sessionService.autoAssignTeams('session1')).rejects.toMatchObject({
+      name: 'InvalidStateError',
+      message: 'Teams are too full to take every player without one'
+    });
+    expect(await members('blue')).toEqual([]);
+
+    await expect(sessionService.asUser('user_A').autoAssignTeams('session1')).rejects.toMatchObject({
+      name: 'PermissionDeniedError'
+    });
+  });
+});
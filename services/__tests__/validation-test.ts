@@ -0,0 +1,115 @@
+import { SessionService } from '../SessionService';
+import { TeamService } from '../TeamService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+import { assertValidWrite, parseStored, schemaAt } from '../validation';
+
+const baseNode = 'SchemaTest_Validation';
+
+describe('schema validators', () => {
+  it('restores pruned collections and accepts well-formed nodes', () => {
+    expect(parseStored('users/user_A', { displayName: 'A', email: 'a@gatech.edu', isAdmin: false })).toEqual({
+      displayName: 'A',
+      email: 'a@gatech.edu',
+      isAdmin: false,
+      sessionsJoined: {}
+    });
+
+    const session = parseStored('sessions/session1', {
+      sessionName: 'Spring Hunt',
+      creatorId: 'admin1',
+      startTime: 0,
+      endTime: 0,
+      isActive: false
+    });
+    expect(session).toMatchObject({ teams: {}, participants: {}, artifacts: {} });
+  });
+
+  it('rejects malformed nodes with the path of the first problem', () => {
+    expect(() => parseStored('users/user_A', { displayName: 'A', email: 'a@gatech.edu' })).toThrow(
+      'Invalid data at users/user_A/isAdmin: required field is missing'
+    );
+    expect(() => parseStored('sessions/session1', {
+      sessionName: 'Spring Hunt',
+      creatorId: 'admin1',
+      startTime: '9am',
+      endTime: 0,
+      isActive: false
+    })).toThrow('Invalid data at sessions/session1/startTime: expected a number');
+    expect(() => parseStored('users/user_A', 'A')).toThrow('Invalid data at users/user_A: expected an object');
+    expect(parseStored('users/user_A', null)).toBeNull();
+  });
+
+  it('resolves paths through maps and reports the IDs along the way', () => {
+    expect(schemaAt('users/user_A/sessionsJoined/session1/teamId')).toMatchObject({
+      schema: { type: 'string' },
+      required: false,
+      entities: { userId: 'user_A', sessionId: 'session1' }
+    });
+    expect(schemaAt('sessions/session1/sessionName')?.required).toBe(true);
+    expect(schemaAt('sessions/session1/nickname')).toBeNull();
+  });
+
+  it('checks writes, including removals of required fields', () => {
+    expect(() => assertValidWrite('users/user_A/sessionsJoined/session1/teamId', null)).not.toThrow();
+    expect(() => assertValidWrite('users/user_A/email', null)).toThrow(
+      'Invalid data at users/user_A/email: required field cannot be removed'
+    );
+    expect(() => assertValidWrite('sessions/session1/status', 'finished')).toThrow(
+      'Invalid data at sessions/session1/status: expected one of draft, scheduled, running, paused, ended, archived'
+    );
+    expect(() => assertValidWrite('leaderboards/session1', {})).toThrow(
+      'Invalid data at leaderboards/session1: path is not part of the schema'
+    );
+  });
+});
+
+describe('services reading and writing through the validators', () => {
+  let storage: MemoryStorageAdapter;
+  let sessionService: SessionService;
+  let teamService: TeamService;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    sessionService = new SessionService(baseNode, storage);
+    teamService = new TeamService(baseNode, storage);
+    await sessionService.createSession('session1', 'admin1');
+  });
+
+  it('sees empty collections where the database stored none', async () => {
+    expect(await storage.get(`${baseNode}/sessions/session1/teams`)).toBeNull();
+
+    const session = await sessionService.getSession('session1');
+    expect(session).toMatchObject({ teams: {}, participants: {}, artifacts: {} });
+
+    await teamService.createTeam('team1');
+    expect((await teamService.getTeam('team1'))?.members).toEqual({});
+  });
+
+  it('rejects writes that break the schema without writing anything', async () => {
+    await expect(sessionService.setSessionName('session1', 42 as any)).rejects.toMatchObject({
+      name: 'ValidationError',
+      code: 'validation',
+      message: 'Invalid data at sessions/session1/sessionName: expected a string',
+      entities: { sessionId: 'session1' }
+    });
+    expect((await sessionService.getSession('session1'))?.sessionName).toBe('');
+  });
+
+  it('rejects corrupted nodes on read and reports them to subscribers', async () => {
+    await storage.set(`${baseNode}/sessions/session1/startTime`, 'tomorrow');
+
+    await expect(sessionService.getSession('session1')).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'Invalid data at sessions/session1/startTime: expected a number',
+      entities: { sessionId: 'session1' }
+    });
+
+    const onChange = jest.fn();
+    const onError = jest.fn();
+    const stop = sessionService.watchSession('session1', onChange, onError);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    stop();
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ name: 'ValidationError' }));
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Roles an acting user can hold relative to the entities an operation touches
+ *
+ * - admin: a platform admin (`User.isAdmin`)
+ * - organizer: the creator of the session involved (`Session.creatorId`)
+ * - captain: the captain of the team involved (`Team.captainId`)
+ * - creator: the creator of the artifact involved (`Artifact.creatorId`)
+ * - self: the user the operation is about
+ */
+export type Role = 'admin' | 'organizer' | 'captain' | 'creator' | 'self';
+
+/** Recorded as the acting user for writes made by unscoped services (scripts, migrations) */
+export const SYSTEM_ACTOR_ID = 'system';
+
+const ROLE_LABELS: { [role in Role]: string } = {
+  admin: 'a platform admin',
+  organizer: 'the session organizer',
+  captain: 'the team captain',
+  creator: 'the artifact creator',
+  self: 'the user themselves'
+};
+
+/** e.g. "the user themselves, the team captain or a platform admin" */
+export function describeRoles(roles: Role[]): string {
+  const labels = roles.map(role => ROLE_LABELS[role]);
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}`;
+}
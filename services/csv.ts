@@ -0,0 +1,104 @@
+import { ValidationError } from './errors';
+
+/**
+ * A table read from CSV: one object per data row, keyed by the header row's column names,
+ * and the line of the file each data row starts on, counting from 1
+ */
+export interface CsvTable {
+  columns: string[];
+  rows: { [column: string]: string }[];
+  lines: number[];
+}
+
+/**
+ * Parses RFC 4180 CSV as written by spreadsheet apps: fields may be quoted, quoted
+ * fields may contain commas, line breaks and doubled quotes, and lines end in LF or CRLF.
+ * The first row names the columns. Blank lines are skipped.
+ */
+export function parseCsv(text: string): CsvTable {
+  const records: string[][] = [];
+  const starts: number[] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;  // Skip the byte order mark Excel writes
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+      starts.push(start);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+        // Line breaks inside quotes belong to the field, but still start a new line of the file
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      start = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError(`CSV has an unterminated quoted field in row ${start}`);
+  }
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  const [header = [], ...data] = records;
+  const lines = starts.slice(1);
+  const columns = header.map(column => column.trim());
+  const rows = data.map(values => {
+    const row: { [column: string]: string } = {};
+    columns.forEach((column, index) => {
+      row[column] = values[index] ?? '';
+    });
+    return row;
+  });
+
+  return { columns, rows, lines };
+}
+
+/**
+ * Writes rows as CSV under a header row of the given columns, quoting fields that
+ * contain commas, quotes or line breaks. Missing values are written as empty fields.
+ */
+export function formatCsv<Row extends object>(
+  columns: readonly (keyof Row & string)[],
+  rows: readonly Row[]
+): string {
+  const lines = [columns.map(formatField).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => formatField(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function formatField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,139 @@
+/**
+ * Typed errors thrown by the service layer.
+ *
+ * Each error carries a stable `code` the UI can switch on instead of matching
+ * message text, plus the IDs of the entities involved in the violation.
+ */
+
+import { RowError } from '../types/transfer';
+
+export type ServiceErrorCode =
+  | 'not-found'
+  | 'already-exists'
+  | 'invalid-association'
+  | 'premature-deletion'
+  | 'validation'
+  | 'permission-denied'
+  | 'out-of-range'
+  | 'invalid-state'
+  | 'team-full';
+
+export interface ErrorEntities {
+  userId?: string;
+  sessionId?: string;
+  teamId?: string;
+  artifactId?: string;
+  verificationId?: string;
+  templateId?: string;
+  inviteCode?: string;
+}
+
+export class ServiceError extends Error {
+  readonly code: ServiceErrorCode;
+  readonly entities: ErrorEntities;
+
+  constructor(code: ServiceErrorCode, message: string, entities: ErrorEntities = {}) {
+    super(message);
+    // Keep instanceof working when classes are compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'ServiceError';
+    this.code = code;
+    this.entities = entities;
+  }
+}
+
+/** A referenced user, session, team or artifact does not exist. */
+export class NotFoundError extends ServiceError {
+  constructor(message: string, entities: ErrorEntities = {}) {
+    super('not-found', message, entities);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** An object with the requested ID has already been created. */
+export class AlreadyExistsError extends ServiceError {
+  constructor(message: string, entities: ErrorEntities = {}) {
+    super('already-exists', message, entities);
+    this.name = 'AlreadyExistsError';
+  }
+}
+
+/** An association was requested that the schema's association rules do not allow. */
+export class InvalidAssociationError extends ServiceError {
+  constructor(message: string, entities: ErrorEntities = {}) {
+    super('invalid-association', message, entities);
+    this.name = 'InvalidAssociationError';
+  }
+}
+
+/** An object or association was removed before its dependent associations. */
+export class PrematureDeletionError extends ServiceError {
+  constructor(message: string, entities: ErrorEntities = {}) {
+    super('premature-deletion', message, entities);
+    this.name = 'PrematureDeletionError';
+  }
+}
+
+/** A value passed to the service is not valid for the field it targets. */
+export class ValidationError extends ServiceError {
+  constructor(message: string, entities: ErrorEntities = {}) {
+    super('validation', message, entities);
+    this.name = 'ValidationError';
+  }
+}
+
+/** The acting user is not allowed to perform the operation. */
+export class PermissionDeniedError extends ServiceError {
+  constructor(message: string, entities: ErrorEntities = {}) {
+    super('permission-denied', message, entities);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/** The operation is not allowed in the session's current lifecycle status. */
+export class InvalidStateError extends ServiceError {
+  constructor(message: string, entities: ErrorEntities = {}) {
+    super('invalid-state', message, entities);
+    this.name = 'InvalidStateError';
+  }
+}
+
+/** A player tried to claim an artifact from too far away. */
+export class OutOfRangeError extends ServiceError {
+  readonly distanceMeters: number;
+  readonly radiusMeters: number;
+
+  constructor(distanceMeters: number, radiusMeters: number, entities: ErrorEntities = {}) {
+    super(
+      'out-of-range',
+      `Artifact is ${Math.round(distanceMeters)} m away. Get within ${radiusMeters} m to claim it`,
+      entities
+    );
+    this.name = 'OutOfRangeError';
+    this.distanceMeters = distanceMeters;
+    this.radiusMeters = radiusMeters;
+  }
+}
+
+/** A team already has as many players as its session allows. */
+export class TeamFullError extends ServiceError {
+  readonly maxTeamSize: number;
+
+  constructor(maxTeamSize: number, entities: ErrorEntities = {}) {
+    super('team-full', `Team is full (${maxTeamSize} ${maxTeamSize === 1 ? 'player' : 'players'})`, entities);
+    this.name = 'TeamFullError';
+    this.maxTeamSize = maxTeamSize;
+  }
+}
+
+/** Rows of an imported table failed validation; nothing was imported. */
+export class ImportError extends ServiceError {
+  readonly rows: RowError[];
+
+  constructor(rows: RowError[], entities: ErrorEntities = {}) {
+    const count = new Set(rows.map(error => error.row)).size;
+    super('validation', `${count} ${count === 1 ? 'row' : 'rows'} of the import could not be read`, entities);
+    this.name = 'ImportError';
+    this.rows = rows;
+  }
+}
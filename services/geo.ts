@@ -0,0 +1,31 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/** Mean Earth radius used by the haversine formula */
+const EARTH_RADIUS_METERS = 6371008.8;
+
+/** How close a player must be to an artifact to claim it, unless the artifact sets its own radius */
+export const DEFAULT_CLAIM_RADIUS_METERS = 30;
+
+export function isValidCoordinates({ latitude, longitude }: Coordinates): boolean {
+  return Number.isFinite(latitude) && Number.isFinite(longitude) &&
+    latitude >= -90 && latitude <= 90 &&
+    longitude >= -180 && longitude <= 180;
+}
+
+/**
+ * Great-circle distance between two points in meters (haversine formula)
+ */
+export function haversineDistance(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+
+  const a = Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) *
+    Math.sin(deltaLongitude / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
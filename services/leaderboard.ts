@@ -0,0 +1,117 @@
+import { Session, Team, User } from '../types/database';
+
+/**
+ * A participant's position on a session leaderboard
+ *
+ * @property rank - 1-based rank; players tied on points and last find share a rank
+ * @property teamId - Team the player is on in this session ('' if none)
+ * @property lastFoundAt - Time of the player's most recent find, null if they have none
+ */
+export interface PlayerStanding {
+  rank: number;
+  userId: string;
+  displayName: string;
+  teamId: string;
+  points: number;
+  artifactsFound: number;
+  lastFoundAt: number | null;
+}
+
+/**
+ * A team's position on a session leaderboard
+ *
+ * @property points - Sum of the members' session points
+ * @property lastFoundAt - Time of the most recent find by any member, null if none
+ */
+export interface TeamStanding {
+  rank: number;
+  teamId: string;
+  teamName: string;
+  points: number;
+  memberIds: string[];
+  lastFoundAt: number | null;
+}
+
+export interface Leaderboard {
+  sessionId: string;
+  players: PlayerStanding[];
+  teams: TeamStanding[];
+}
+
+type Unranked<T> = Omit<T, 'rank'> & { id: string };
+
+/**
+ * Ranks a session's players and teams from the session node and the user and team
+ * nodes it references.
+ *
+ * Higher points rank first. Ties go to whoever reached their score first, i.e. the
+ * earlier last find; entries with no finds rank after those with finds.
+ */
+export function buildLeaderboard(
+  sessionId: string,
+  session: Session | null,
+  users: { [userId: string]: User | null },
+  teams: { [teamId: string]: Team | null }
+): Leaderboard {
+  const participants = session?.participants || {};
+
+  const players = Object.keys(participants).map(userId => {
+    const progress = users[userId]?.sessionsJoined?.[sessionId];
+    const findTimes = Object.values(progress?.foundAt || {});
+    return {
+      id: userId,
+      userId,
+      displayName: users[userId]?.displayName || '',
+      teamId: participants[userId] || '',
+      points: progress?.points || 0,
+      artifactsFound: Object.keys(progress?.foundArtifacts || {}).length,
+      lastFoundAt: findTimes.length > 0 ? Math.max(...findTimes) : null
+    };
+  });
+
+  const teamStandings = Object.keys(session?.teams || {}).map(teamId => {
+    const members = players.filter(player => player.teamId === teamId);
+    const findTimes = members
+      .map(member => member.lastFoundAt)
+      .filter((time): time is number => time !== null);
+    return {
+      id: teamId,
+      teamId,
+      teamName: teams[teamId]?.teamName || '',
+      points: members.reduce((total, member) => total + member.points, 0),
+      memberIds: members.map(member => member.userId),
+      lastFoundAt: findTimes.length > 0 ? Math.max(...findTimes) : null
+    };
+  });
+
+  return {
+    sessionId,
+    players: rank(players).map(({ id, ...standing }) => standing),
+    teams: rank(teamStandings).map(({ id, ...standing }) => standing)
+  };
+}
+
+function compareStandings(
+  a: { points: number; lastFoundAt: number | null },
+  b: { points: number; lastFoundAt: number | null }
+): number {
+  if (a.points !== b.points) return b.points - a.points;
+  if (a.lastFoundAt === b.lastFoundAt) return 0;
+  if (a.lastFoundAt === null) return 1;
+  if (b.lastFoundAt === null) return -1;
+  return a.lastFoundAt - b.lastFoundAt;
+}
+
+function rank<T extends Unranked<PlayerStanding> | Unranked<TeamStanding>>(
+  entries: T[]
+): (T & { rank: number })[] {
+  const sorted = [...entries].sort(
+    (a, b) => compareStandings(a, b) || a.id.localeCompare(b.id)
+  );
+  return sorted.map((entry, index) => {
+    // Competition ranking: tied entries share the rank of the first of them
+    let first = index;
+    while (first > 0 && compareStandings(sorted[first - 1], entry) === 0) first--;
+    return { ...entry, rank: first + 1 };
+  });
+}
@@ -0,0 +1,36 @@
+import { Session, SessionStatus } from '../types/database';
+
+/** Statuses each status may move to. Scheduling is optional: a draft can start right away. */
+const TRANSITIONS: { [from in SessionStatus]: SessionStatus[] } = {
+  draft: ['scheduled', 'running'],
+  scheduled: ['draft', 'running'],
+  running: ['paused', 'ended'],
+  paused: ['running', 'ended'],
+  ended: ['archived'],
+  archived: []
+};
+
+export function canTransition(from: SessionStatus, to: SessionStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * The status a session is effectively in at `now`, taking its times into account.
+ * A scheduled session starts running at `startTime`, and any session that has not
+ * been ended yet counts as ended once `endTime` has passed. Sessions created before
+ * statuses existed are running if they were marked active, and drafts otherwise.
+ */
+export function sessionStatus(session: Session, now: number = Date.now()): SessionStatus {
+  const stored = session.status ?? (session.isActive ? 'running' : 'draft');
+
+  if (stored === 'draft' || stored === 'ended' || stored === 'archived') {
+    return stored;
+  }
+  if (session.endTime > 0 && now >= session.endTime) {
+    return 'ended';
+  }
+  if (stored === 'scheduled' && session.startTime > 0 && now >= session.startTime) {
+    return 'running';
+  }
+  return stored;
+}
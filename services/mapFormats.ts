@@ -0,0 +1,170 @@
+import { ValidationError } from './errors';
+import { ArtifactFeatureCollection, ArtifactRow, RowError } from '../types/transfer';
+
+/** Namespace of the GPX extension elements that hold the fields GPX has no element for */
+export const GPX_NAMESPACE = 'urn:scavenger-hunt:artifact';
+
+/** Artifact fields written to and read from GPX extensions, as `<hunt:field>` */
+const GPX_EXTENSION_FIELDS = [
+  'artifactId', 'points', 'challengeBonus', 'claimRadius', 'imageUrl', 'audioUrl'
+] as const;
+
+/** GeoJSON feature properties read on import; mapping tools add others, which are ignored */
+const FEATURE_PROPERTIES = [
+  'name', 'description', 'locationHint', 'isChallenge', 'points', 'challengeBonus', 'claimRadius',
+  'imageUrl', 'audioUrl'
+] as const;
+
+/** Highest Unicode code point a character reference can name */
+const MAX_CODE_POINT = 0x10ffff;
+
+export function toGeoJson(artifacts: ArtifactRow[]): ArtifactFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: artifacts.map(({ artifactId, latitude, longitude, ...properties }) => ({
+      type: 'Feature',
+      id: artifactId,
+      geometry: { type: 'Point', coordinates: [longitude, latitude] },
+      properties
+    }))
+  };
+}
+
+/**
+ * Writes artifacts as GPX 1.1 waypoints: the location hint as the comment, challenge
+ * artifacts with type "challenge" and the rest with type "artifact", and the scoring
+ * fields, media URLs and artifact ID as extensions
+ */
+export function formatGpx(artifacts: ArtifactRow[], name: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Scavenger Hunt" xmlns="http://www.topografix.com/GPX/1/1" ' +
+      `xmlns:hunt="${GPX_NAMESPACE}">`,
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`
+  ];
+
+  for (const artifact of artifacts) {
+    lines.push(`  <wpt lat="${artifact.latitude}" lon="${artifact.longitude}">`);
+    lines.push(`    <name>${escapeXml(artifact.name)}</name>`);
+    if (artifact.locationHint) lines.push(`    <cmt>${escapeXml(artifact.locationHint)}</cmt>`);
+    if (artifact.description) lines.push(`    <desc>${escapeXml(artifact.description)}</desc>`);
+    lines.push(`    <type>${artifact.isChallenge ? 'challenge' : 'artifact'}</type>`);
+    lines.push('    <extensions>');
+    for (const field of GPX_EXTENSION_FIELDS) {
+      const value = artifact[field];
+      if (value !== undefined) {
+        lines.push(`      <hunt:${field}>${escapeXml(String(value))}</hunt:${field}>`);
+      }
+    }
+    lines.push('    </extensions>');
+    lines.push('  </wpt>');
+  }
+
+  lines.push('</gpx>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Reads the point features of a GeoJSON FeatureCollection as artifact rows. The
+ * artifact ID comes from the feature's `id`, or an `artifactId` property for tools
+ * that drop feature IDs. Features of other geometries are reported in `errors`.
+ */
+export function readGeoJson(content: string, errors: RowError[]): { [column: string]: unknown }[] {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new ValidationError('Import is not valid JSON');
+  }
+  if (data?.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+    throw new ValidationError('Expected a GeoJSON FeatureCollection');
+  }
+
+  return data.features.map((feature: any, index: number) => {
+    const properties = feature?.properties ?? {};
+    const values: { [column: string]: unknown } = {
+      artifactId: feature?.id ?? properties.artifactId
+    };
+    for (const property of FEATURE_PROPERTIES) {
+      values[property] = properties[property];
+    }
+
+    const geometry = feature?.geometry;
+    if (geometry?.type === 'Point' && Array.isArray(geometry.coordinates)) {
+      [values.longitude, values.latitude] = geometry.coordinates;
+    } else {
+      errors.push({ row: index + 1, column: 'geometry', message: 'Only Point features can be imported' });
+      // Reported once as the geometry rather than again as bad coordinates
+      values.latitude = 0;
+      values.longitude = 0;
+    }
+    return values;
+  });
+}
+
+/**
+ * Reads the waypoints of a GPX file as artifact rows, the reverse of formatGpx. Only
+ * extensions with the `hunt:` prefix are read.
+ */
+export function readGpx(content: string): { [column: string]: unknown }[] {
+  if (!/<gpx[\s>]/.test(content)) {
+    throw new ValidationError('Import is not a GPX file');
+  }
+
+  const waypoints = content.match(/<wpt\b[^>]*?(?:\/>|>[\s\S]*?<\/wpt>)/g) ?? [];
+  return waypoints.map(waypoint => {
+    const values: { [column: string]: unknown } = {
+      latitude: attribute(waypoint, 'lat'),
+      longitude: attribute(waypoint, 'lon'),
+      name: element(waypoint, 'name'),
+      locationHint: element(waypoint, 'cmt'),
+      description: element(waypoint, 'desc'),
+      isChallenge: element(waypoint, 'type')?.trim().toLowerCase() === 'challenge'
+    };
+    for (const field of GPX_EXTENSION_FIELDS) {
+      values[field] = element(waypoint, `hunt:${field}`);
+    }
+    return values;
+  });
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`^<\\w+[^>]*?\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return match ? unescapeXml(match[1] ?? match[2]) : undefined;
+}
+
+function element(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const codePoint = code[1].toLowerCase() === 'x'
+      ? parseInt(code.slice(2), 16)
+      : parseInt(code.slice(1), 10);
+    // fromCodePoint throws a RangeError past the last one
+    if (codePoint > MAX_CODE_POINT) {
+      throw new ValidationError(`Import has an invalid character reference ${entity}`);
+    }
+    return String.fromCodePoint(codePoint);
+  });
+}
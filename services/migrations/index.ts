@@ -0,0 +1,14 @@
+import { Migration } from '../../types/migration';
+import { renameUsername } from './renameUsername';
+import { removeTeamScore } from './removeTeamScore';
+
+/**
+ * Every schema migration, oldest first. Add new migrations to the end with the next
+ * version number; never change one that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  renameUsername,
+  removeTeamScore
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
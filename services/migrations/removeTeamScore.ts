@@ -0,0 +1,31 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Teams kept their own `score` before points were tracked per player; team totals are
+ * now summed from the members' points (see services/leaderboard.ts)
+ */
+export const removeTeamScore: Migration = {
+  version: 2,
+  description: 'Remove Team.score',
+
+  up(data) {
+    const updates: { [path: string]: any } = {};
+    const teams = data.teams || {};
+    for (const teamId of Object.keys(teams)) {
+      if (teams[teamId].score !== undefined) {
+        updates[`teams/${teamId}/score`] = null;
+      }
+    }
+    return updates;
+  },
+
+  // The removed scores are gone, so teams get the score they started out with
+  down(data) {
+    const updates: { [path: string]: any } = {};
+    const teams = data.teams || {};
+    for (const teamId of Object.keys(teams)) {
+      updates[`teams/${teamId}/score`] = 0;
+    }
+    return updates;
+  }
+};
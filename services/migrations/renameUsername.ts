@@ -0,0 +1,38 @@
+import { Migration } from '../../types/migration';
+
+/**
+ * Users stored their display name as `username` before it became `displayName`
+ */
+export const renameUsername: Migration = {
+  version: 1,
+  description: 'Rename User.username to displayName',
+
+  up(data) {
+    const updates: { [path: string]: any } = {};
+    const users = data.users || {};
+    for (const userId of Object.keys(users)) {
+      const { username, displayName } = users[userId];
+      if (username === undefined) continue;
+
+      // A displayName written since the rename wins over the old value
+      if (displayName === undefined) {
+        updates[`users/${userId}/displayName`] = username;
+      }
+      updates[`users/${userId}/username`] = null;
+    }
+    return updates;
+  },
+
+  down(data) {
+    const updates: { [path: string]: any } = {};
+    const users = data.users || {};
+    for (const userId of Object.keys(users)) {
+      const { displayName } = users[userId];
+      if (displayName === undefined) continue;
+
+      updates[`users/${userId}/username`] = displayName;
+      updates[`users/${userId}/displayName`] = null;
+    }
+    return updates;
+  }
+};
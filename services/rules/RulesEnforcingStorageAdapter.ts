@@ -0,0 +1,42 @@
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+import { evaluateWrite, RuleAuth } from './evaluateRules';
+import { RulesFile } from './generateRules';
+
+/**
+ * In-memory storage that checks every write against a rules file before applying it,
+ * failing with PERMISSION_DENIED like the Realtime Database does.
+ *
+ * Lets tests run the services as a given signed-in user and see whether the rules
+ * would let their writes through.
+ */
+export class RulesEnforcingStorageAdapter extends MemoryStorageAdapter {
+  constructor(
+    private rules: RulesFile,
+    private getAuth: () => RuleAuth,
+    initialData: { [key: string]: any } = {}
+  ) {
+    super(initialData);
+  }
+
+  async set(path: string, data: any): Promise<void> {
+    await this.authorize({ [path]: data });
+    return super.set(path, data);
+  }
+
+  async remove(path: string): Promise<void> {
+    await this.authorize({ [path]: null });
+    return super.remove(path);
+  }
+
+  async update(updates: { [path: string]: any }): Promise<void> {
+    await this.authorize(updates);
+    return super.update(updates);
+  }
+
+  private async authorize(updates: { [path: string]: any }): Promise<void> {
+    const decision = await evaluateWrite(this.rules, this.root, this.getAuth(), updates);
+    if (!decision.allowed) {
+      throw new Error(`PERMISSION_DENIED: ${decision.reason}`);
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { UserService } from '../../UserService';
+import { TeamService } from '../../TeamService';
+import { SessionService } from '../../SessionService';
+import { ArtifactService } from '../../ArtifactService';
+import { VerificationService } from '../../VerificationService';
+import { evaluateWrite, evaluateRead, RuleAuth } from '../evaluateRules';
+import { generateRules } from '../generateRules';
+import { RulesEnforcingStorageAdapter } from '../RulesEnforcingStorageAdapter';
+
+const baseNode = 'SchemaTest_Rules';
+const rules = generateRules([baseNode]);
+
+const user = (fields: object = {}) => ({
+  displayName: '',
+  email: '',
+  isAdmin: false,
+  ...fields
+});
+
+// organizer runs session1; staff is a platform admin; alice plays and captains red
+const seed = {
+  [baseNode]: {
+    users: {
+      organizer: user(),
+      staff: user({ isAdmin: true }),
+      alice: user({ sessionsJoined: { session1: { points: 0, teamId: 'red' } } }),
+      bob: user()
+    },
+    sessions: {
+      session1: {
+        sessionName: 'Spring Hunt',
+        creatorId: 'organizer',
+        startTime: 0,
+        endTime: 0,
+        status: 'running',
+        isActive: true,
+        teams: { red: true },
+        participants: { alice: 'red' }
+      }
+    },
+    teams: {
+      red: { sessionId: 'session1', teamName: 'Red', captainId: 'alice', members: { alice: true } }
+    },
+    verifications: {
+      v1: { userId: 'alice', artifactId: 'artifact1', sessionId: 'session1', status: 'pending', submittedAt: 1 }
+    },
+    invites: {
+      ABC234: { sessionId: 'session1', creatorId: 'organizer', createdAt: 1, expiresAt: 0, maxUses: 0 }
+    }
+  }
+};
+
+const write = (uid: string | null, updates: { [path: string]: any }) =>
+  evaluateWrite(rules, seed, uid ? { uid } : null, prefixed(updates));
+
+function prefixed(updates: { [path: string]: any }) {
+  const result: { [path: string]: any } = {};
+  for (const path of Object.keys(updates)) {
+    result[`${baseNode}/${path}`] = updates[path];
+  }
+  return result;
+}
+
+describe('generateRules', () => {
+  it('matches the committed firebase.rules.json', () => {
+    const committed = JSON.parse(readFileSync(join(__dirname, '../../../firebase.rules.json'), 'utf8'));
+    expect(committed).toEqual(generateRules());
+  });
+
+  it('indexes the fields queries filter by', () => {
+    const sessions = rules.rules[baseNode] as any;
+    expect(sessions.sessions['.indexOn']).toEqual(['creatorId', 'status']);
+    expect(sessions.verifications['.indexOn']).toEqual(['userId', 'status', 'sessionId']);
+  });
+});
+
+describe('generated rules', () => {
+  it('lets signed-in users read and keeps everyone else out', () => {
+    expect(evaluateRead(rules, seed, { uid: 'bob' }, `${baseNode}/sessions`)).toBe(true);
+    expect(evaluateRead(rules, seed, null, `${baseNode}/sessions`)).toBe(false);
+  });
+
+  it('keeps users out of profiles that are not their own', async () => {
+    expect(await write('bob', { 'users/bob/displayName': 'Bob' })).toEqual({ allowed: true });
+    expect(await write('bob', { 'users/alice/displayName': 'Bobbed' })).toEqual({
+      allowed: false,
+      reason: `Write denied at /${baseNode}/users/alice/displayName`
+    });
+    expect((await write(null, { 'users/bob/displayName': 'Bob' })).allowed).toBe(false);
+    expect((await write('staff', { 'users/alice/displayName': 'Alice' })).allowed).toBe(true);
+  });
+
+  it('lets only admins grant admin status', async () => {
+    expect(await write('bob', { 'users/bob/isAdmin': true })).toEqual({
+      allowed: false,
+      reason: `Validation failed at /${baseNode}/users/bob/isAdmin`
+    });
+    expect((await write('carol', { 'users/carol': user({ isAdmin: true }) })).allowed).toBe(false);
+    expect((await write('carol', { 'users/carol': user() })).allowed).toBe(true);
+    expect((await write('staff', { 'users/bob/isAdmin': true })).allowed).toBe(true);
+  });
+
+  it('checks field types, required fields and unknown fields', async () => {
+    expect((await write('bob', { 'users/bob/displayName': 42 })).allowed).toBe(false);
+    expect((await write('bob', { 'users/bob/email': null })).allowed).toBe(false);
+    expect((await write('bob', { 'users/bob/nickname': 'B' })).allowed).toBe(false);
+    expect((await write('organizer', { 'sessions/session1/status': 'finished' })).allowed).toBe(false);
+  });
+
+  it('ties sessions to their creator', async () => {
+    const session = { ...seed[baseNode].sessions.session1, participants: {}, teams: {} };
+    expect((await write('bob', { 'sessions/session2': { ...session, creatorId: 'organizer' } })).allowed)
+      .toBe(false);
+    expect((await write('bob', { 'sessions/session2': { ...session, creatorId: 'bob' } })).allowed).toBe(true);
+    expect((await write('bob', { 'sessions/session1/sessionName': 'Mine now' })).allowed).toBe(false);
+    expect((await write('organizer', { 'sessions/session1/creatorId': 'bob' })).allowed).toBe(false);
+  });
+
+  it('lets players file verifications but not review them', async () => {
+    const verification = { userId: 'bob', artifactId: 'artifact1', sessionId: 'session1', submittedAt: 2 };
+    expect((await write('bob', { 'verifications/v2': { ...verification, status: 'pending' } })).allowed)
+      .toBe(true);
+    expect((await write('bob', { 'verifications/v2': { ...verification, status: 'approved' } })).allowed)
+      .toBe(false);
+    expect((await write('alice', { 'verifications/v1/status': 'approved' })).allowed).toBe(false);
+    expect((await write('organizer', { 'verifications/v1/status': 'approved' })).allowed).toBe(true);
+  });
+
+  it('lets captains name their team but not move it or change its roster', async () => {
+    expect((await write('alice', { 'teams/red/teamName': 'Red Team' })).allowed).toBe(true);
+    expect((await write('alice', { 'teams/red/captainId': 'bob' })).allowed).toBe(true);
+    expect((await write('alice', { 'teams/red/sessionId': 'session2' })).allowed).toBe(false);
+    expect((await write('alice', { 'teams/red/members/bob': true })).allowed).toBe(false);
+    expect((await write('alice', { 'teams/red': null })).allowed).toBe(false);
+    expect((await write('organizer', { 'teams/red/members/bob': true })).allowed).toBe(true);
+
+    const team = { sessionId: '', teamName: 'Blue', captainId: 'bob' };
+    expect((await write('bob', { 'teams/blue': team })).allowed).toBe(true);
+    expect((await write('bob', { 'teams/blue': { ...team, sessionId: 'session1' } })).allowed).toBe(false);
+    const rostered = { ...team, members: { alice: true } };
+    expect((await write('bob', { 'teams/blue': rostered })).allowed).toBe(false);
+    expect((await write('staff', { 'teams/blue': rostered })).allowed).toBe(true);
+  });
+
+  it("only lets players list themselves on the session's teams they have joined", async () => {
+    const joinRed = {
+      'users/bob/sessionsJoined/session1': { points: 0, teamId: 'red' },
+      'teams/red/members/bob': true,
+      'sessions/session1/participants/bob': 'red'
+    };
+    expect((await write('bob', joinRed)).allowed).toBe(true);
+    expect((await write('bob', { ...joinRed, 'teams/red/members/bob': null })).allowed).toBe(false);
+    expect((await write('bob', { ...joinRed, 'users/bob/sessionsJoined/session1': { points: 0 } })).allowed)
+      .toBe(false);
+    expect(await write('alice', { 'sessions/session1/participants/alice': 'blue' })).toEqual({
+      allowed: false,
+      reason: `Validation failed at /${baseNode}/sessions/session1/participants/alice`
+    });
+    expect((await write('alice', { 'sessions/session1/participants/alice': '' })).allowed).toBe(true);
+  });
+
+  it('lets players join, pick a team and leave, but not score themselves', async () => {
+    expect((await write('bob', { 'users/bob/sessionsJoined/session1': { points: 0 } })).allowed).toBe(true);
+    expect((await write('bob', { 'users/bob/sessionsJoined/session1': { points: 50 } })).allowed).toBe(false);
+    expect((await write('alice', { 'users/alice/sessionsJoined/session1/teamId': 'blue' })).allowed).toBe(true);
+    expect((await write('alice', { 'users/alice/sessionsJoined/session1': null })).allowed).toBe(true);
+
+    expect(await write('alice', { 'users/alice/sessionsJoined/session1/points': 500 })).toEqual({
+      allowed: false,
+      reason: `Validation failed at /${baseNode}/users/alice/sessionsJoined/session1/points`
+    });
+    const progress = 'users/alice/sessionsJoined/session1';
+    expect((await write('alice', { [`${progress}/foundArtifacts/artifact1`]: true })).allowed).toBe(false);
+    expect((await write('alice', { [`${progress}/foundArtifactPoints/artifact1`]: 10 })).allowed).toBe(false);
+  });
+
+  it('lets organizers credit players and log point adjustments', async () => {
+    expect((await write('organizer', { 'users/alice/sessionsJoined/session1/points': 5 })).allowed).toBe(true);
+    expect((await write('organizer', { 'users/alice/sessionsJoined/session1/foundArtifacts/artifact1': true }))
+      .allowed).toBe(true);
+
+    const adjustment = {
+      userId: 'alice', adminId: 'alice', previousPoints: 0, points: 500, reason: 'Self-awarded', createdAt: 1
+    };
+    expect((await write('alice', { 'pointAdjustments/session1/adj1': adjustment })).allowed).toBe(false);
+    expect((await write('organizer', { 'pointAdjustments/session1/adj1': adjustment })).allowed).toBe(true);
+  });
+
+  it('lets organizers hand out invites and players redeem them', async () => {
+    const invite = { ...seed[baseNode].invites.ABC234, createdAt: 2 };
+    expect((await write('organizer', { 'invites/DEF567': invite })).allowed).toBe(true);
+    expect((await write('bob', { 'invites/DEF567': { ...invite, creatorId: 'bob' } })).allowed).toBe(false);
+    expect((await write('bob', { 'invites/ABC234': null })).allowed).toBe(false);
+    expect((await write('organizer', { 'invites/ABC234': null })).allowed).toBe(true);
+    expect((await write('bob', { 'invites/ABC234/redemptions/bob': 2 })).allowed).toBe(true);
+    expect((await write('bob', { 'invites/ABC234/redemptions/alice': 2 })).allowed).toBe(false);
+  });
+});
+
+describe('services under the generated rules', () => {
+  let auth: RuleAuth;
+  let storage: RulesEnforcingStorageAdapter;
+
+  const servicesFor = (uid: string) => {
+    auth = { uid };
+    return {
+      users: new UserService(baseNode, storage).asUser(uid),
+      teams: new TeamService(baseNode, storage).asUser(uid),
+      sessions: new SessionService(baseNode, storage).asUser(uid),
+      artifacts: new ArtifactService(baseNode, storage).asUser(uid),
+      verifications: new VerificationService(baseNode, storage).asUser(uid)
+    };
+  };
+
+  beforeEach(() => {
+    auth = null;
+    storage = new RulesEnforcingStorageAdapter(rules, () => auth);
+  });
+
+  it('runs a hunt from setup to an approved find', async () => {
+    await servicesFor('organizer').users.createUser('organizer');
+    await servicesFor('alice').users.createUser('alice');
+    await servicesFor('bob').users.createUser('bob');
+
+    const organizer = servicesFor('organizer');
+    await organizer.sessions.createSession('session1', 'organizer');
+    await organizer.sessions.setStatus('session1', 'running');
+    await organizer.artifacts.createArtifact('artifact1');
+    await organizer.sessions.addArtifact('session1', 'artifact1');
+
+    await servicesFor('alice').teams.createTeam('red');
+    await servicesFor('organizer').sessions.addTeam('session1', 'red');
+
+    await servicesFor('alice').users.addUserToSession('alice', 'session1');
+    await servicesFor('alice').users.assignUserToTeam('alice', 'session1', 'red');
+    await servicesFor('bob').users.addUserToSession('bob', 'session1');
+    await servicesFor('bob').teams.addMember('red', 'bob');
+
+    const verificationId = await servicesFor('bob').verifications.submitVerification(
+      'bob', 'session1', 'artifact1', 'https://example.com/photo.jpg'
+    );
+    await servicesFor('organizer').verifications.approveVerification(verificationId);
+
+    const bob = await storage.get<any>(`${baseNode}/users/bob`);
+    expect(bob.sessionsJoined.session1).toMatchObject({ teamId: 'red', points: 10 });
+  });
+
+  it('lets players delete their own account and what they filed', async () => {
+    await servicesFor('organizer').users.createUser('organizer');
+    await servicesFor('bob').users.createUser('bob');
+    const organizer = servicesFor('organizer');
+    await organizer.sessions.createSession('session1', 'organizer');
+    await organizer.sessions.setStatus('session1', 'running');
+    await organizer.artifacts.createArtifact('artifact1');
+    await organizer.sessions.addArtifact('session1', 'artifact1');
+
+    const bob = servicesFor('bob');
+    await bob.users.addUserToSession('bob', 'session1');
+    await bob.verifications.submitVerification('bob', 'session1', 'artifact1', 'photo.jpg');
+    await bob.users.purgeUser('bob');
+
+    expect(await storage.get(`${baseNode}/users/bob`)).toBeNull();
+    expect(await storage.get(`${baseNode}/verifications`)).toBeNull();
+  });
+
+  it('rejects writes the service layer would have let through unscoped', async () => {
+    await servicesFor('alice').users.createUser('alice');
+    await servicesFor('bob').users.createUser('bob');
+
+    // Services running as the system actor skip their own checks; the rules still apply
+    auth = { uid: 'alice' };
+    await expect(new UserService(baseNode, storage).setAdminStatus('alice', true)).rejects.toThrow(
+      `PERMISSION_DENIED: Validation failed at /${baseNode}/users/alice/isAdmin`
+    );
+    await expect(new UserService(baseNode, storage).setDisplayName('bob', 'Bobbed')).rejects.toThrow(
+      'PERMISSION_DENIED'
+    );
+    expect((await storage.get<any>(`${baseNode}/users/bob`)).displayName).toBe('');
+  });
+});
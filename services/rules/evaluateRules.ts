@@ -0,0 +1,437 @@
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+import { RuleNode, RulesFile } from './generateRules';
+
+/** The signed-in user a request is made as; null when signed out */
+export type RuleAuth = { uid: string } | null;
+
+export interface RuleDecision {
+  allowed: boolean;
+  /** Which path failed and why, when the request is not allowed */
+  reason?: string;
+}
+
+/**
+ * Evaluates a multi-path update against a rules file the way the Realtime Database
+ * does, so rules can be exercised locally:
+ *
+ * - Every updated path needs a `.write` rule that grants it at that path or above it.
+ *   Grants cascade down; a rule that fails does not revoke a grant made above it.
+ * - Every node whose value changes and is not removed must pass its `.validate` rule:
+ *   the updated nodes, everything written below them and their ancestors.
+ * - `data` and `root` are the current data, `newData` the data as it would be after the
+ *   whole update. An error while evaluating a rule (e.g. reading a property of null)
+ *   makes that rule fail.
+ *
+ * Only the expression subset the rules generator emits is supported.
+ */
+export async function evaluateWrite(
+  rulesFile: RulesFile,
+  currentRoot: object,
+  auth: RuleAuth,
+  updates: { [path: string]: any }
+): Promise<RuleDecision> {
+  const preview = new MemoryStorageAdapter(currentRoot);
+  await preview.update(updates);
+  const newRoot = (await preview.get<object>('')) || {};
+
+  const paths = Object.keys(updates).map(splitPath);
+
+  for (const segments of paths) {
+    if (!isWriteGranted(rulesFile.rules, segments, currentRoot, newRoot, auth)) {
+      return { allowed: false, reason: `Write denied at /${segments.join('/')}` };
+    }
+  }
+
+  const validated = new Set<string>();
+  for (const segments of paths) {
+    for (const node of nodesToValidate(segments, newRoot)) {
+      const key = node.join('/');
+      if (validated.has(key)) continue;
+      validated.add(key);
+
+      if (!isValid(rulesFile.rules, node, currentRoot, newRoot, auth)) {
+        return { allowed: false, reason: `Validation failed at /${key}` };
+      }
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Whether a `.read` rule at or above the path grants reading it
+ */
+export function evaluateRead(rulesFile: RulesFile, root: object, auth: RuleAuth, path: string): boolean {
+  const segments = splitPath(path);
+  for (let depth = 0; depth <= segments.length; depth++) {
+    const match = matchRule(rulesFile.rules, segments.slice(0, depth));
+    if (!match) break;
+    const rule = match.node['.read'];
+    if (rule !== undefined && evaluateRule(rule, {
+      auth,
+      root: new RuleSnapshot(root, []),
+      data: new RuleSnapshot(root, segments.slice(0, depth)),
+      newData: new RuleSnapshot(root, segments.slice(0, depth)),
+      wildcards: match.wildcards
+    })) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function isWriteGranted(
+  rules: RuleNode,
+  segments: string[],
+  currentRoot: object,
+  newRoot: object,
+  auth: RuleAuth
+): boolean {
+  for (let depth = 0; depth <= segments.length; depth++) {
+    const location = segments.slice(0, depth);
+    const match = matchRule(rules, location);
+    if (!match) return false;
+
+    const rule = match.node['.write'];
+    if (rule !== undefined && evaluateRule(rule, {
+      auth,
+      root: new RuleSnapshot(currentRoot, []),
+      data: new RuleSnapshot(currentRoot, location),
+      newData: new RuleSnapshot(newRoot, location),
+      wildcards: match.wildcards
+    })) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function isValid(
+  rules: RuleNode,
+  segments: string[],
+  currentRoot: object,
+  newRoot: object,
+  auth: RuleAuth
+): boolean {
+  const newData = new RuleSnapshot(newRoot, segments);
+  if (!newData.exists()) return true;
+
+  const match = matchRule(rules, segments);
+  const rule = match?.node['.validate'];
+  if (!match || rule === undefined) return true;
+
+  return evaluateRule(rule, {
+    auth,
+    root: new RuleSnapshot(currentRoot, []),
+    data: new RuleSnapshot(currentRoot, segments),
+    newData,
+    wildcards: match.wildcards
+  });
+}
+
+/** The updated node, its ancestors and every node written below it */
+function nodesToValidate(segments: string[], newRoot: object): string[][] {
+  const nodes: string[][] = [];
+  for (let depth = 1; depth < segments.length; depth++) {
+    nodes.push(segments.slice(0, depth));
+  }
+
+  const visit = (location: string[], value: any) => {
+    nodes.push(location);
+    if (value !== null && typeof value === 'object') {
+      for (const key of Object.keys(value)) {
+        visit([...location, key], value[key]);
+      }
+    }
+  };
+  visit(segments, new RuleSnapshot(newRoot, segments).val());
+
+  return nodes;
+}
+
+/**
+ * Finds the rule node for a path, preferring named children over `$wildcard` children
+ * and binding the wildcards along the way
+ */
+function matchRule(
+  rules: RuleNode,
+  segments: string[]
+): { node: RuleNode; wildcards: { [name: string]: string } } | null {
+  let node = rules;
+  const wildcards: { [name: string]: string } = {};
+
+  for (const segment of segments) {
+    const named = node[segment];
+    if (isRuleNode(named)) {
+      node = named;
+      continue;
+    }
+
+    const wildcard = Object.keys(node).find(key => key.startsWith('$'));
+    if (!wildcard) return null;
+    wildcards[wildcard] = segment;
+    node = node[wildcard] as RuleNode;
+  }
+
+  return { node, wildcards };
+}
+
+function isRuleNode(value: unknown): value is RuleNode {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0);
+}
+
+/**
+ * Read-only view of the data at a path, offering the snapshot methods rules can call
+ */
+class RuleSnapshot {
+  constructor(private tree: any, private segments: string[]) {}
+
+  val(): any {
+    let node = this.tree;
+    for (const segment of this.segments) {
+      if (node === null || typeof node !== 'object' || !(segment in node)) return null;
+      node = node[segment];
+    }
+    return node ?? null;
+  }
+
+  child(path: string): RuleSnapshot {
+    return new RuleSnapshot(this.tree, [...this.segments, ...splitPath(String(path))]);
+  }
+
+  parent(): RuleSnapshot {
+    return new RuleSnapshot(this.tree, this.segments.slice(0, -1));
+  }
+
+  exists(): boolean {
+    return this.val() !== null;
+  }
+
+  hasChild(path: string): boolean {
+    return this.child(path).exists();
+  }
+
+  hasChildren(names?: string[]): boolean {
+    const value = this.val();
+    if (value === null || typeof value !== 'object') return false;
+    return names ? names.every(name => this.hasChild(name)) : Object.keys(value).length > 0;
+  }
+
+  isString(): boolean {
+    return typeof this.val() === 'string';
+  }
+
+  isNumber(): boolean {
+    return typeof this.val() === 'number';
+  }
+
+  isBoolean(): boolean {
+    return typeof this.val() === 'boolean';
+  }
+}
+
+const SNAPSHOT_METHODS = [
+  'val', 'child', 'parent', 'exists', 'hasChild', 'hasChildren', 'isString', 'isNumber', 'isBoolean'
+];
+
+interface RuleContext {
+  auth: RuleAuth;
+  root: RuleSnapshot;
+  data: RuleSnapshot;
+  newData: RuleSnapshot;
+  wildcards: { [name: string]: string };
+}
+
+function evaluateRule(rule: string | boolean, context: RuleContext): boolean {
+  if (typeof rule === 'boolean') return rule;
+  try {
+    return evaluate(parse(rule), context) === true;
+  } catch {
+    return false;
+  }
+}
+
+// --- Expressions ---
+
+type Expression =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: Expression; property: string }
+  | { kind: 'call'; object: Expression; method: string; args: Expression[] }
+  | { kind: 'unary'; operator: '!'; operand: Expression }
+  | { kind: 'binary'; operator: string; left: Expression; right: Expression }
+  | { kind: 'array'; items: Expression[] };
+
+const BINARY_PRECEDENCE: { [operator: string]: number } = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '===': 3, '!=': 3, '!==': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5
+};
+
+const TOKEN = /\s*(?:('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")|(\d+(?:\.\d+)?)|([A-Za-z_$][\w$]*)|(===|!==|==|!=|<=|>=|&&|\|\||[!<>+\-().,[\]]))/y;
+
+const parsed = new Map<string, Expression>();
+
+function parse(source: string): Expression {
+  const cached = parsed.get(source);
+  if (cached) return cached;
+
+  const tokens: { type: 'string' | 'number' | 'name' | 'punct'; text: string }[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(TOKEN.lastIndex))) break;
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(source);
+    if (!match) throw new Error(`Unexpected character at ${start} in rule: ${source}`);
+    if (match[1] !== undefined) tokens.push({ type: 'string', text: match[1] });
+    else if (match[2] !== undefined) tokens.push({ type: 'number', text: match[2] });
+    else if (match[3] !== undefined) tokens.push({ type: 'name', text: match[3] });
+    else tokens.push({ type: 'punct', text: match[4] });
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const expect = (text: string) => {
+    if (peek()?.text !== text) throw new Error(`Expected "${text}" in rule: ${source}`);
+    position++;
+  };
+
+  const parseList = (close: string): Expression[] => {
+    const items: Expression[] = [];
+    while (peek()?.text !== close) {
+      items.push(parseExpression(0));
+      if (peek()?.text === ',') position++;
+    }
+    expect(close);
+    return items;
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = tokens[position++];
+    if (!token) throw new Error(`Unexpected end of rule: ${source}`);
+
+    if (token.type === 'string') {
+      return { kind: 'literal', value: token.text.slice(1, -1).replace(/\\(.)/g, '$1') };
+    }
+    if (token.type === 'number') return { kind: 'literal', value: Number(token.text) };
+    if (token.type === 'name') {
+      if (token.text === 'true' || token.text === 'false') {
+        return { kind: 'literal', value: token.text === 'true' };
+      }
+      if (token.text === 'null') return { kind: 'literal', value: null };
+      return { kind: 'identifier', name: token.text };
+    }
+    if (token.text === '!') return { kind: 'unary', operator: '!', operand: parseUnary() };
+    if (token.text === '(') {
+      const inner = parseExpression(0);
+      expect(')');
+      return inner;
+    }
+    if (token.text === '[') return { kind: 'array', items: parseList(']') };
+    throw new Error(`Unexpected "${token.text}" in rule: ${source}`);
+  };
+
+  const parseUnary = (): Expression => {
+    let expression = parsePrimary();
+    while (peek()?.text === '.') {
+      position++;
+      const name = tokens[position++];
+      if (name?.type !== 'name') throw new Error(`Expected a name after "." in rule: ${source}`);
+      if (peek()?.text === '(') {
+        position++;
+        expression = { kind: 'call', object: expression, method: name.text, args: parseList(')') };
+      } else {
+        expression = { kind: 'member', object: expression, property: name.text };
+      }
+    }
+    return expression;
+  };
+
+  const parseExpression = (minPrecedence: number): Expression => {
+    let left = parseUnary();
+    for (;;) {
+      const operator = peek()?.text;
+      const precedence = operator !== undefined ? BINARY_PRECEDENCE[operator] : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) return left;
+      position++;
+      left = { kind: 'binary', operator: operator!, left, right: parseExpression(precedence) };
+    }
+  };
+
+  const expression = parseExpression(0);
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].text}" in rule: ${source}`);
+
+  parsed.set(source, expression);
+  return expression;
+}
+
+function evaluate(expression: Expression, context: RuleContext): any {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'identifier':
+      return resolveIdentifier(expression.name, context);
+    case 'array':
+      return expression.items.map(item => evaluate(item, context));
+    case 'member': {
+      const object = evaluate(expression.object, context);
+      if (object === null || typeof object !== 'object' || object instanceof RuleSnapshot) {
+        throw new Error(`Cannot read "${expression.property}"`);
+      }
+      return object[expression.property];
+    }
+    case 'call': {
+      const object = evaluate(expression.object, context);
+      if (!(object instanceof RuleSnapshot) || !SNAPSHOT_METHODS.includes(expression.method)) {
+        throw new Error(`Cannot call "${expression.method}"`);
+      }
+      const args = expression.args.map(arg => evaluate(arg, context));
+      return (object as any)[expression.method](...args);
+    }
+    case 'unary':
+      return !evaluate(expression.operand, context);
+    case 'binary':
+      return evaluateBinary(expression.operator, expression.left, expression.right, context);
+  }
+}
+
+function evaluateBinary(operator: string, left: Expression, right: Expression, context: RuleContext): any {
+  if (operator === '&&') return evaluate(left, context) === true && evaluate(right, context) === true;
+  if (operator === '||') return evaluate(left, context) === true || evaluate(right, context) === true;
+
+  const a = evaluate(left, context);
+  const b = evaluate(right, context);
+  switch (operator) {
+    // Rules have no type coercion, so == behaves like ===
+    case '==':
+    case '===':
+      return a === b;
+    case '!=':
+    case '!==':
+      return a !== b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '+': return a + b;
+    case '-': return a - b;
+  }
+  throw new Error(`Unknown operator "${operator}"`);
+}
+
+function resolveIdentifier(name: string, context: RuleContext): any {
+  switch (name) {
+    case 'auth': return context.auth;
+    case 'root': return context.root;
+    case 'data': return context.data;
+    case 'newData': return context.newData;
+  }
+  if (name in context.wildcards) return context.wildcards[name];
+  throw new Error(`Unknown variable "${name}"`);
+}
@@ -0,0 +1,171 @@
+import {
+  AccessGrant,
+  databaseSchema,
+  isRequired,
+  NodeSchema,
+  ObjectSchema,
+  SchemaLink,
+  SchemaRef,
+  ValueSchema
+} from '../../types/schema';
+
+/** A node of a Realtime Database rules file */
+export interface RuleNode {
+  '.read'?: string | boolean;
+  '.write'?: string | boolean;
+  '.validate'?: string | boolean;
+  '.indexOn'?: string[];
+  [child: string]: RuleNode | string | boolean | string[] | undefined;
+}
+
+export interface RulesFile {
+  rules: RuleNode;
+}
+
+/**
+ * Base nodes the committed firebase.rules.json covers: the app's root, and the sandbox
+ * node the schema was first tried out under
+ */
+export const RULES_BASE_NODES = ['', 'SchemaTesting_Thuan'];
+
+/**
+ * Generates database security rules from the schema description, placing a copy under
+ * each base node ('' for the database root) to match how services prefix their paths.
+ */
+export function generateRules(
+  baseNodes: string[] = RULES_BASE_NODES,
+  schema: ObjectSchema = databaseSchema
+): RulesFile {
+  let rules: RuleNode = {};
+  for (const baseNode of baseNodes) {
+    const compiled = compileNode(schema, baseNode ? `${baseNode}/` : '');
+    if (baseNode) {
+      rules[baseNode] = compiled;
+    } else {
+      rules = { ...compiled, ...rules };
+    }
+  }
+  return { rules };
+}
+
+/** `depth` counts the segments between the base node and the node */
+function compileNode(schema: NodeSchema, prefix: string, depth = 0): RuleNode {
+  const node: RuleNode = {};
+
+  if (schema.read) {
+    node['.read'] = compileGrants(schema.read, prefix);
+  }
+  if (schema.write) {
+    node['.write'] = compileGrants(schema.write, prefix);
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const required = Object.keys(schema.fields).filter(field => isRequired(schema.fields[field]));
+      if (required.length > 0) {
+        node['.validate'] = `newData.hasChildren([${required.map(quote).join(', ')}])`;
+      }
+      for (const field of Object.keys(schema.fields)) {
+        node[field] = compileNode(schema.fields[field], prefix, depth + 1);
+      }
+      // Fields the schema does not describe cannot be written
+      node['$other'] = { '.validate': false };
+      break;
+    }
+    case 'map':
+      if (schema.indexOn) {
+        node['.indexOn'] = schema.indexOn;
+      }
+      if (schema.emptyOnCreate) {
+        const creators = schema.emptyOnCreate.map(grant => compileGrant(grant, prefix));
+        node['.validate'] = ['data.parent().exists()', ...creators].join(' || ');
+      }
+      node[schema.key] = compileNode(schema.values, prefix, depth + 1);
+      break;
+    default:
+      node['.validate'] = compileValue(schema, prefix, depth);
+  }
+
+  return node;
+}
+
+function compileValue(schema: ValueSchema, prefix: string, depth: number): string {
+  const type = { string: 'newData.isString()', number: 'newData.isNumber()', boolean: 'newData.isBoolean()' };
+  const conditions = [type[schema.type]];
+
+  if (schema.enum) {
+    conditions.push(`(${schema.enum.map(value => `newData.val() === ${quote(value)}`).join(' || ')})`);
+  }
+  if (schema.immutable) {
+    conditions.push('(!data.exists() || newData.val() === data.val())');
+  }
+  if (schema.restricted) {
+    const { initial, by } = schema.restricted;
+    const changes = [
+      ...(initial === undefined ? [] : [`(!data.exists() && newData.val() === ${literal(initial)})`]),
+      '(data.exists() && newData.val() === data.val())',
+      ...by.map(grant => compileGrant(grant, prefix))
+    ];
+    conditions.push(`(${changes.join(' || ')})`);
+  }
+  if (schema.links) {
+    const links = schema.links.map(link => compileLink(link, depth));
+    conditions.push(`(newData.val() === '' || (${links.join(' && ')}))`);
+  }
+
+  return conditions.join(' && ');
+}
+
+/** Looks the linked node up in the data as written, climbing from the node to the base node */
+function compileLink(link: SchemaLink, depth: number): string {
+  const path = quote(link.path)
+    .replace(/\{value\}|\$\w+/g, token => `' + ${token === '{value}' ? 'newData.val()' : token} + '`)
+    .replace(/ \+ ''$/, '');
+  const expected = link.equals === undefined ? 'newData.val()' : literal(link.equals);
+  return `newData${'.parent()'.repeat(depth)}.child(${path}).val() === ${expected}`;
+}
+
+function compileGrants(grants: AccessGrant[], prefix: string): string {
+  if (grants.length === 1 && grants[0].role === 'authenticated') {
+    return 'auth != null';
+  }
+  const alternatives = grants.map(grant => compileGrant(grant, prefix));
+  return `auth != null && (${alternatives.join(' || ')})`;
+}
+
+function compileGrant(grant: AccessGrant, prefix: string): string {
+  switch (grant.role) {
+    case 'authenticated':
+      return 'auth != null';
+    case 'admin':
+      return `root.child('${prefix}users/' + auth.uid + '/isAdmin').val() === true`;
+    case 'self':
+      return `${compileRef(grant.user)} === auth.uid`;
+    case 'owner':
+      return `((data.exists() && data.child('${grant.field}').val() === auth.uid) || ` +
+        `(!data.exists() && newData.child('${grant.field}').val() === auth.uid))`;
+    case 'creator':
+      return `(!data.exists() && newData.child('${grant.field}').val() === auth.uid)`;
+    case 'remover':
+      return `(!newData.exists() && data.child('${grant.field}').val() === auth.uid)`;
+    case 'organizer':
+      return `root.child('${prefix}sessions/' + ${compileRef(grant.session)} + '/creatorId').val() === auth.uid`;
+    case 'captain':
+      return `root.child('${prefix}teams/' + ${compileRef(grant.team)} + '/captainId').val() === auth.uid`;
+  }
+}
+
+function compileRef(ref: SchemaRef): string {
+  if ('wildcard' in ref) return ref.wildcard;
+  if ('child' in ref) return `${ref.snapshot ?? 'data'}.child('${ref.child}').val()`;
+  if ('sibling' in ref) return `${ref.snapshot ?? 'data'}.parent().child('${ref.sibling}').val()`;
+  return `${ref.value}.val()`;
+}
+
+function quote(value: string): string {
+  return `'${value}'`;
+}
+
+function literal(value: string | number | boolean): string {
+  return typeof value === 'string' ? quote(value) : String(value);
+}
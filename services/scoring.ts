@@ -0,0 +1,40 @@
+import { Artifact, User } from '../types/database';
+
+export const DEFAULT_ARTIFACT_POINTS = 10;
+export const DEFAULT_CHALLENGE_BONUS = 10;
+
+/**
+ * Points credited for finding an artifact: its base value, plus the challenge bonus
+ * for challenge artifacts. Artifacts created before scoring existed use the defaults.
+ */
+export function artifactScore(artifact: Artifact): number {
+  const points = artifact.points ?? DEFAULT_ARTIFACT_POINTS;
+  if (!artifact.isChallenge) {
+    return points;
+  }
+  return points + (artifact.challengeBonus ?? DEFAULT_CHALLENGE_BONUS);
+}
+
+/**
+ * The multi-path update that credits a find to a user: marks the artifact found,
+ * records the award and when it was made so it can be reverted exactly, and adds the
+ * award to the user's session points. Paths are relative to the base node.
+ */
+export function creditFindUpdates(
+  userId: string,
+  sessionId: string,
+  artifactId: string,
+  progress: User['sessionsJoined'][string],
+  artifact: Artifact,
+  now: number
+): { [path: string]: any } {
+  const score = artifactScore(artifact);
+  const sessionPath = `users/${userId}/sessionsJoined/${sessionId}`;
+  return {
+    [`${sessionPath}/foundArtifacts/${artifactId}`]: true,
+    [`${sessionPath}/foundArtifactPoints/${artifactId}`]: score,
+    [`${sessionPath}/foundAt/${artifactId}`]: now,
+    [`${sessionPath}/points`]: (progress.points || 0) + score,
+    [`users/${userId}/updatedAt`]: now
+  };
+}
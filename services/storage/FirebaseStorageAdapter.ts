@@ -0,0 +1,48 @@
+import { database } from '../../firebaseConfig';
+import { Database, ref, get, set, remove, update, onValue } from 'firebase/database';
+import { StorageAdapter, Unsubscribe } from './StorageAdapter';
+
+/**
+ * Storage adapter backed by the Firebase Realtime Database.
+ */
+export class FirebaseStorageAdapter implements StorageAdapter {
+  protected db: Database;
+
+  constructor(db: Database = database) {
+    this.db = db;
+  }
+
+  async get<T>(path: string): Promise<T | null> {
+    const snapshot = await get(ref(this.db, path));
+    return snapshot.val();
+  }
+
+  async set(path: string, data: any): Promise<void> {
+    await set(ref(this.db, path), data);
+  }
+
+  async remove(path: string): Promise<void> {
+    await remove(ref(this.db, path));
+  }
+
+  async update(updates: { [path: string]: any }): Promise<void> {
+    await update(ref(this.db), updates);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const snapshot = await get(ref(this.db, path));
+    return snapshot.exists();
+  }
+
+  subscribe<T>(
+    path: string,
+    onValueChange: (value: T | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return onValue(
+      ref(this.db, path),
+      snapshot => onValueChange(snapshot.val()),
+      onError
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { StorageAdapter, Unsubscribe } from './StorageAdapter';
+
+type Tree = { [key: string]: any };
+
+interface Listener {
+  segments: string[];
+  onValue: (value: any) => void;
+  lastValue: string | undefined;
+}
+
+const INVALID_KEY_CHARS = /[.#$[\]]/;
+
+/**
+ * Fully in-memory storage adapter for offline use and tests.
+ *
+ * Mirrors the Realtime Database behaviour the services rely on: nulls and empty
+ * objects are pruned on write, multi-path updates are applied atomically, and
+ * listeners only fire when the value at their path actually changes.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  protected root: Tree;
+  protected listeners: Set<Listener> = new Set();
+
+  constructor(initialData: Tree = {}) {
+    this.root = prune(clone(initialData)) || {};
+  }
+
+  async get<T>(path: string): Promise<T | null> {
+    return this.read(splitPath(path));
+  }
+
+  async set(path: string, data: any): Promise<void> {
+    this.write(splitPath(path), data);
+    this.notify();
+  }
+
+  async remove(path: string): Promise<void> {
+    this.write(splitPath(path), null);
+    this.notify();
+  }
+
+  async update(updates: { [path: string]: any }): Promise<void> {
+    const entries = Object.keys(updates).map(path => ({
+      segments: splitPath(path),
+      value: updates[path]
+    }));
+
+    // Validate everything before touching the tree so a bad update changes nothing
+    for (let i = 0; i < entries.length; i++) {
+      validateValue(entries[i].value);
+      for (let j = i + 1; j < entries.length; j++) {
+        if (isPrefix(entries[i].segments, entries[j].segments) ||
+            isPrefix(entries[j].segments, entries[i].segments)) {
+          throw new Error(
+            `Update paths overlap: /${entries[i].segments.join('/')} and /${entries[j].segments.join('/')}`
+          );
+        }
+      }
+    }
+
+    for (const entry of entries) {
+      this.write(entry.segments, entry.value);
+    }
+    this.notify();
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.read(splitPath(path)) !== null;
+  }
+
+  subscribe<T>(
+    path: string,
+    onValue: (value: T | null) => void,
+    _onError?: (error: Error) => void
+  ): Unsubscribe {
+    const listener: Listener = {
+      segments: splitPath(path),
+      onValue,
+      lastValue: undefined
+    };
+    this.listeners.add(listener);
+
+    // Like the database SDK, deliver the initial value asynchronously
+    Promise.resolve().then(() => {
+      if (this.listeners.has(listener)) this.emit(listener);
+    });
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected read(segments: string[]): any {
+    let node: any = this.root;
+    for (const segment of segments) {
+      if (node === null || typeof node !== 'object' || !(segment in node)) {
+        return null;
+      }
+      node = node[segment];
+    }
+    return clone(node);
+  }
+
+  protected write(segments: string[], data: any): void {
+    validateValue(data);
+    const value = prune(clone(data));
+
+    if (segments.length === 0) {
+      this.root = value !== null && typeof value === 'object' ? value : {};
+      return;
+    }
+
+    // Walk down, creating intermediate objects (replacing primitives) as needed
+    const parents: Tree[] = [];
+    let node: Tree = this.root;
+    for (const segment of segments.slice(0, -1)) {
+      parents.push(node);
+      if (node[segment] === null || typeof node[segment] !== 'object') {
+        if (value === null) return;
+        node[segment] = {};
+      }
+      node = node[segment];
+    }
+
+    const last = segments[segments.length - 1];
+    if (value === null) {
+      delete node[last];
+    } else {
+      node[last] = value;
+    }
+
+    // Remove ancestors left empty by the write
+    for (let i = segments.length - 2; i >= 0; i--) {
+      const parent = parents[i];
+      const child = parent[segments[i]];
+      if (child && typeof child === 'object' && Object.keys(child).length === 0) {
+        delete parent[segments[i]];
+      } else {
+        break;
+      }
+    }
+  }
+
+  protected notify(): void {
+    for (const listener of Array.from(this.listeners)) {
+      this.emit(listener);
+    }
+  }
+
+  protected emit(listener: Listener): void {
+    const value = this.read(listener.segments);
+    const serialized = JSON.stringify(value);
+    if (serialized === listener.lastValue) return;
+
+    listener.lastValue = serialized;
+    listener.onValue(value);
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0);
+}
+
+function isPrefix(prefix: string[], segments: string[]): boolean {
+  if (prefix.length > segments.length) return false;
+  return prefix.every((segment, i) => segments[i] === segment);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function validateValue(value: any): void {
+  if (value === undefined) {
+    throw new Error('Cannot write undefined to the database');
+  }
+  if (value !== null && typeof value === 'object') {
+    for (const key of Object.keys(value)) {
+      if (INVALID_KEY_CHARS.test(key)) {
+        throw new Error(`Invalid key "${key}": keys cannot contain ".", "#", "$", "[", or "]"`);
+      }
+      validateValue(value[key]);
+    }
+  }
+}
+
+/**
+ * Removes nulls and empty objects, returning null when nothing is left.
+ */
+function prune(value: any): any {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: Tree = {};
+  for (const key of Object.keys(value)) {
+    const child = prune(value[key]);
+    if (child !== null) {
+      result[key] = child;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : null;
+}
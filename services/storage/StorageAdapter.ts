@@ -0,0 +1,28 @@
+/**
+ * Storage backend used by the service layer.
+ *
+ * Paths are absolute slash-separated database paths (the service's base node is
+ * already prepended). Implementations must follow Realtime Database semantics:
+ * - Writing null removes the node, and empty objects are never stored
+ * - Reading a missing node yields null
+ * - update() applies all of its paths atomically, and the paths must not overlap
+ */
+export interface StorageAdapter {
+  get<T>(path: string): Promise<T | null>;
+  set(path: string, data: any): Promise<void>;
+  remove(path: string): Promise<void>;
+  update(updates: { [path: string]: any }): Promise<void>;
+  exists(path: string): Promise<boolean>;
+
+  /**
+   * Listens to the value at a path. The callback fires once with the current value
+   * and again whenever the value changes. Returns a function that stops listening.
+   */
+  subscribe<T>(
+    path: string,
+    onValue: (value: T | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+}
+
+export type Unsubscribe = () => void;
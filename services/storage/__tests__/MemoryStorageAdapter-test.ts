@@ -0,0 +1,44 @@
+import { MemoryStorageAdapter } from '../MemoryStorageAdapter';
+
+describe('MemoryStorageAdapter', () => {
+  it('prunes nulls and empty objects like the Realtime Database', async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.set('root/user', { name: 'Ann', sessions: {}, photo: null });
+
+    expect(await storage.get('root/user')).toEqual({ name: 'Ann' });
+    expect(await storage.exists('root/user/sessions')).toBe(false);
+
+    await storage.remove('root/user/name');
+    expect(await storage.get('root')).toBeNull();
+  });
+
+  it('applies multi-path updates atomically', async () => {
+    const storage = new MemoryStorageAdapter({ a: { b: 1 } });
+
+    await expect(
+      storage.update({ 'a/b': 2, 'a/b/c': 3 })
+    ).rejects.toThrow('Update paths overlap');
+    await expect(
+      storage.update({ 'a/b': 2, 'a/c': undefined })
+    ).rejects.toThrow('Cannot write undefined');
+    expect(await storage.get('a')).toEqual({ b: 1 });
+
+    await storage.update({ '/a/b': null, '/x/y': 'z' });
+    expect(await storage.get('')).toEqual({ x: { y: 'z' } });
+  });
+
+  it('notifies subscribers only when their value changes', async () => {
+    const storage = new MemoryStorageAdapter();
+    const values: any[] = [];
+    const unsubscribe = storage.subscribe('teams/t1/members', value => values.push(value));
+
+    await Promise.resolve();
+    await storage.set('teams/t1/members/u1', true);
+    await storage.set('teams/t2/members/u2', true);
+    await storage.set('teams/t1/members/u1', true);
+    unsubscribe();
+    await storage.set('teams/t1/members/u3', true);
+
+    expect(values).toEqual([null, { u1: true }]);
+  });
+});
@@ -0,0 +1,196 @@
+import { databaseSchema, isRequired, NodeSchema } from '../types/schema';
+import { ErrorEntities, ValidationError } from './errors';
+
+/**
+ * Runtime checks of stored data against the schema description in types/schema.ts.
+ *
+ * The database prunes empty objects, so a session without teams comes back with no
+ * `teams` field at all. Reads are normalized to put such collections back and then
+ * checked like writes, so a malformed node never reaches the services; writes are
+ * rejected when they would leave a node in a shape the interfaces do not allow.
+ */
+
+/** Where a path (relative to the base node) lands in the schema */
+export interface SchemaLocation {
+  schema: NodeSchema;
+  /** Whether the node is a field its parent object cannot do without */
+  required: boolean;
+  /** IDs named by the map keys along the path, e.g. `sessionId` for `sessions/$sessionId` */
+  entities: ErrorEntities;
+}
+
+const ENTITY_KEYS: (keyof ErrorEntities)[] = [
+  'userId', 'sessionId', 'teamId', 'artifactId', 'verificationId', 'templateId', 'inviteCode'
+];
+
+/**
+ * Finds the schema of the node at a path, or null when the schema does not describe it
+ */
+export function schemaAt(path: string, root: NodeSchema = databaseSchema): SchemaLocation | null {
+  let schema = root;
+  let required = false;
+  const entities: ErrorEntities = {};
+
+  for (const segment of splitPath(path)) {
+    if (schema.type === 'object') {
+      const field: NodeSchema | undefined = schema.fields[segment];
+      if (!field) return null;
+      schema = field;
+      required = isRequired(field);
+    } else if (schema.type === 'map') {
+      const entity = schema.key.slice(1) as keyof ErrorEntities;
+      if (ENTITY_KEYS.includes(entity)) {
+        entities[entity] = segment;
+      }
+      schema = schema.values;
+      required = false;
+    } else {
+      return null;
+    }
+  }
+
+  return { schema, required, entities };
+}
+
+/**
+ * Returns a copy of a stored value with the collections the database pruned restored
+ * as empty objects, at every level. Anything that does not look like the schema is
+ * passed through untouched.
+ */
+export function normalize<T>(schema: NodeSchema, value: T): T {
+  if (value === null || typeof value !== 'object') return value;
+
+  const source = value as { [key: string]: any };
+  const result: { [key: string]: any } = { ...source };
+
+  if (schema.type === 'object') {
+    for (const field of Object.keys(schema.fields)) {
+      const fieldSchema: NodeSchema = schema.fields[field];
+      if (source[field] === undefined || source[field] === null) {
+        if (fieldSchema.type === 'map') result[field] = {};
+      } else {
+        result[field] = normalize(fieldSchema, source[field]);
+      }
+    }
+  } else if (schema.type === 'map') {
+    for (const key of Object.keys(source)) {
+      result[key] = normalize(schema.values, source[key]);
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * Describes the first way a value breaks the schema, naming the offending path below
+ * the value, or returns null when it is valid
+ */
+export function findSchemaProblem(
+  schema: NodeSchema,
+  value: any,
+  path: string = ''
+): { path: string; problem: string } | null {
+  const at = (key: string) => (path ? `${path}/${key}` : key);
+
+  switch (schema.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== schema.type || (schema.type === 'number' && !Number.isFinite(value))) {
+        return { path, problem: `expected a ${schema.type}` };
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return { path, problem: `expected one of ${schema.enum.join(', ')}` };
+      }
+      return null;
+
+    case 'object': {
+      if (!isPlainObject(value)) return { path, problem: 'expected an object' };
+
+      for (const field of Object.keys(schema.fields)) {
+        const fieldSchema: NodeSchema = schema.fields[field];
+        if (value[field] === undefined || value[field] === null) {
+          if (isRequired(fieldSchema)) return { path: at(field), problem: 'required field is missing' };
+          continue;
+        }
+        const problem = findSchemaProblem(fieldSchema, value[field], at(field));
+        if (problem) return problem;
+      }
+      for (const key of Object.keys(value)) {
+        if (!(key in schema.fields)) return { path: at(key), problem: 'field is not part of the schema' };
+      }
+      return null;
+    }
+
+    case 'map': {
+      if (!isPlainObject(value)) return { path, problem: 'expected an object' };
+
+      for (const key of Object.keys(value)) {
+        if (value[key] === null) continue;
+        const problem = findSchemaProblem(schema.values, value[key], at(key));
+        if (problem) return problem;
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Throws a ValidationError unless writing the value at the path (relative to the base
+ * node) keeps the data in the shape the schema describes. A null value removes the
+ * node, which is only allowed for nodes their parent can do without.
+ */
+export function assertValidWrite(path: string, value: any): void {
+  const location = schemaAt(path);
+  const relativePath = splitPath(path).join('/');
+
+  if (!location) {
+    throw new ValidationError(`Invalid data at ${relativePath}: path is not part of the schema`);
+  }
+
+  if (value === null) {
+    if (location.required) {
+      throw new ValidationError(
+        `Invalid data at ${relativePath}: required field cannot be removed`,
+        location.entities
+      );
+    }
+    return;
+  }
+
+  const problem = findSchemaProblem(location.schema, value, relativePath);
+  if (problem) {
+    throw new ValidationError(
+      `Invalid data at ${problem.path}: ${problem.problem}`,
+      { ...location.entities, ...schemaAt(problem.path)?.entities }
+    );
+  }
+}
+
+/**
+ * Normalizes the value read at a path (relative to the base node), or throws a
+ * ValidationError naming the first problem if the stored data is malformed. Paths the
+ * schema does not describe are passed through untouched.
+ */
+export function parseStored<T>(path: string, value: T | null): T | null {
+  const location = schemaAt(path);
+  if (!location || value === null) return value;
+
+  const normalized = normalize(location.schema, value);
+  const problem = findSchemaProblem(location.schema, normalized, splitPath(path).join('/'));
+  if (problem) {
+    throw new ValidationError(
+      `Invalid data at ${problem.path}: ${problem.problem}`,
+      { ...location.entities, ...schemaAt(problem.path)?.entities }
+    );
+  }
+  return normalized;
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: any } {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0);
+}
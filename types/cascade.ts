@@ -0,0 +1,56 @@
+/**
+ * Cascade teardown reports
+ *
+ * Cascading operations perform the deletion order documented in types/database.ts
+ * on the caller's behalf and describe every step they take (or would take, in a
+ * dry run) in the order the schema requires:
+ *   a. Remove user-team associations
+ *   b. Remove team-session associations
+ *   c. Remove user-session associations (including found-artifact records)
+ *   d. Delete the empty objects
+ */
+
+export type CascadeAction =
+  | 'remove-user-from-team'
+  | 'remove-team-from-session'
+  | 'remove-user-from-session'
+  | 'clear-found-artifacts'
+  | 'remove-invite-redemption'
+  | 'delete-invite'
+  | 'delete-verification'
+  | 'delete-point-adjustments'
+  | 'delete-user'
+  | 'delete-team'
+  | 'delete-session';
+
+/**
+ * A single teardown step and the entities it touches
+ *
+ * @property artifactIds - Found-artifact records cleared by a 'clear-found-artifacts' step
+ * @property inviteCode - Invite deleted, or whose redemption is removed, by the step
+ * @property verificationId - Verification deleted by a 'delete-verification' step
+ */
+export interface CascadeStep {
+  action: CascadeAction;
+  userId?: string;
+  sessionId?: string;
+  teamId?: string;
+  artifactIds?: string[];
+  inviteCode?: string;
+  verificationId?: string;
+}
+
+/**
+ * Result of a cascading operation
+ *
+ * @property dryRun - True when nothing was written
+ * @property steps - Steps in the order they were (or would be) applied
+ */
+export interface CascadeReport {
+  dryRun: boolean;
+  steps: CascadeStep[];
+}
+
+export interface CascadeOptions {
+  dryRun?: boolean;
+}
@@ -27,6 +27,7 @@
  *    - Users can only join teams within sessions they've joined
  *    - Users can only be in one team per session
  *    - Users can be in different teams across different sessions
+ *    - Teams take no more players than the session's maxTeamSize, if it has one
  * 
  * Deletion Rules:
  * 1. Remove associations in correct order:
@@ -41,11 +42,16 @@
  *    - Sessions: Cannot be deleted with teams or participants
  * 
  * Error Messages:
- * The system provides specific error messages for common violation scenarios:
- * - Invalid creation attempts
- * - Invalid association attempts
- * - Premature deletion attempts
- * - Missing or invalid references
+ * The system provides specific error messages for common violation scenarios.
+ * Each is thrown as a typed error from services/errors.ts carrying an error code
+ * and the IDs of the entities involved:
+ * - Invalid creation attempts (AlreadyExistsError, 'already-exists')
+ * - Invalid association attempts (InvalidAssociationError, 'invalid-association')
+ * - Premature deletion attempts (PrematureDeletionError, 'premature-deletion')
+ * - Missing or invalid references (NotFoundError, 'not-found')
+ * - Invalid attribute values (ValidationError, 'validation')
+ * - Operations outside the session's running window (InvalidStateError, 'invalid-state')
+ * - Players added to a team that is already full (TeamFullError, 'team-full')
  * 
  * Example Deletion Process:
  * To delete a user:
@@ -55,6 +61,51 @@
  * 2. Verify user has no remaining associations
  * 3. Delete user object
  * 
+ * Cascading Deletion:
+ * UserService.purgeUser, TeamService.dissolveTeam and SessionService.dissolveSession
+ * perform the steps above on the caller's behalf in one atomic update, and support a
+ * dry run that reports what would be removed (see types/cascade.ts).
+ *
+ * Integrity Checks:
+ * IntegrityService.checkIntegrity (`npm run integrity -- <baseNode> [--repair]`) reports
+ * references whose two sides disagree and can repair them in one atomic update
+ * (see types/integrity.ts).
+ *
+ * Bulk Import and Export:
+ * TransferService imports artifacts and team rosters into a session from CSV or JSON,
+ * rejecting the whole import with an ImportError that lists each invalid row, and
+ * exports a session's full state to the same formats (see types/transfer.ts). A
+ * session's artifacts also import and export as GeoJSON points or GPX waypoints.
+ *
+ * Invites:
+ * InviteService hands out short codes that join a session, and optionally one of its
+ * teams, with an expiry and a limit on how many players may use them. The same code
+ * travels as a `myapp://join?code=` link for QR codes.
+ *
+ * Migrations:
+ * Schema changes that affect stored data ship as a versioned migration in
+ * services/migrations. MigrationService.migrate (`npm run migrate -- <baseNode>`) brings
+ * a base node up to date and records the version at `schemaVersion`.
+ *
+ * Authorization:
+ * Services scoped to a user with `asUser(userId)` check that user's role before writing:
+ * - Platform admins (isAdmin) may do anything
+ * - Session organizers (creatorId) manage their session, its teams and its players
+ * - Team captains (captainId) rename their team and hand the captaincy on
+ * - Artifact creators (creatorId) edit and delete their artifacts
+ * - Players manage their own profile and join, leave and play sessions themselves
+ * Violations throw PermissionDeniedError ('permission-denied').
+ *
+ * Security Rules:
+ * firebase.rules.json is generated from the schema description in types/schema.ts
+ * (`npm run rules`) and enforces the same roles, field types and required fields
+ * in the database itself. Keep the two files in step when changing an interface.
+ *
+ * Runtime Validation:
+ * The services check every write against the same description and reject values of
+ * the wrong shape with a ValidationError. Reads restore the empty collections the
+ * database prunes, so e.g. `session.teams` is always an object.
+ *
  * @packageDocumentation
  */
 
@@ -69,7 +120,10 @@
  * @property displayName - User's display name
  * @property email - User's email address
  * @property currentSession - ID of active session (must exist in sessionsJoined)
- * @property sessionsJoined - Tracks all session participation and associated data
+ * @property sessionsJoined - Tracks all session participation and associated data.
+ *   Points are credited automatically when an artifact is found; foundArtifactPoints
+ *   records each credit so un-finding the artifact removes exactly what was awarded,
+ *   and foundAt records when each find happened (used to break leaderboard ties)
  * @property isAdmin - Administrative privileges flag
  * 
  * Timestamps:
@@ -77,7 +131,7 @@
  * @property updatedAt - Auto-updated modification timestamp
  */
 export interface User {
-  displayName: string;  // Changed from username
+  displayName: string;  // Changed from username (see services/migrations/renameUsername.ts)
   email: string;
   profilePictureUrl?: string;
   currentSession?: string;
@@ -86,6 +140,8 @@ export interface User {
       teamId: string;
       points: number;
       foundArtifacts: { [artifactId: string]: boolean };
+      foundArtifactPoints?: { [artifactId: string]: number };  // Points credited for each find
+      foundAt?: { [artifactId: string]: number };  // Timestamp of each find
     }
   };
   isAdmin: boolean;
@@ -93,6 +149,8 @@ export interface User {
   updatedAt?: number;
 }
 
+export type SessionStatus = 'draft' | 'scheduled' | 'running' | 'paused' | 'ended' | 'archived';
+
 /**
  * Session object representing an active scavenger hunt instance
  * 
@@ -107,16 +165,23 @@ export interface User {
  * @property artifacts - Map of artifact IDs to boolean (availability indicator)
  * 
  * State Management:
- * @property startTime - Session start timestamp
- * @property endTime - Session end timestamp
- * @property isActive - Current session status
+ * @property startTime - Session start timestamp; a scheduled session starts running then
+ * @property endTime - Session end timestamp; the session counts as ended from then on
+ * @property status - Lifecycle status, moved along draft -> scheduled -> running <-> paused
+ *   -> ended -> archived. Players can only join, change teams and record finds while the
+ *   session is running. Missing on sessions created before statuses existed
+ * @property isActive - Whether the session is running, kept in sync with `status`
+ * @property maxTeamSize - Most players a team may have; 0 or missing for no limit. Teams
+ *   already over a lowered limit keep their players but take no new ones
  */
 export interface Session {
   sessionName: string;
   creatorId: string;
   startTime: number;
   endTime: number;
+  status?: SessionStatus;
   isActive: boolean;
+  maxTeamSize?: number;
   teams: { [teamId: string]: boolean };
   participants: { [userId: string]: string }; // userId: teamId
   artifacts: { [artifactId: string]: boolean }; // Available artifacts in this session
@@ -133,12 +198,16 @@ export interface Session {
  * @property sessionId - ID of parent session (one-to-one relationship)
  * @property teamName - Display name for the team
  * @property members - Map of user IDs to boolean (membership indicator)
+ * @property captainId - User who may rename the team and hand the captaincy on; the user
+ *   who created the team until another captain is named. When the captain leaves, it passes
+ *   to the remaining member with the lowest ID, or is cleared once the team is empty.
  */
 export interface Team {
   sessionId: string;
   teamName: string;
   members: { [key: string]: boolean };
-  // score removed as it's now tracked per-player only
+  captainId?: string;
+  // score removed as it's now tracked per-player only (see services/migrations/removeTeamScore.ts)
 }
 
 /**
@@ -151,8 +220,14 @@ export interface Team {
  * @property latitude - Geographic latitude
  * @property longitude - Geographic longitude
  * @property isChallenge - Indicates special challenge status
+ * @property points - Points awarded for finding the artifact; defaults to DEFAULT_ARTIFACT_POINTS
+ * @property challengeBonus - Extra points awarded on top of `points` for challenge artifacts;
+ *   defaults to DEFAULT_CHALLENGE_BONUS
+ * @property claimRadius - How close (in meters) a player must be to claim the artifact;
+ *   falls back to a default radius when not set
  * @property imageUrl - URL to the artifact's image
  * @property audioUrl - URL to the artifact's audio file
+ * @property creatorId - User who created the artifact and may edit or delete it
  */
 export interface Artifact {
   name: string;
@@ -161,12 +236,37 @@ export interface Artifact {
   latitude: number;
   longitude: number;
   isChallenge: boolean;
+  points?: number;
+  challengeBonus?: number;
+  claimRadius?: number;
   imageUrl?: string;  // New field for image
   audioUrl?: string;  // New field for audio
+  creatorId?: string;
+}
+
+/**
+ * Audit record of a manual change to a user's session points
+ * 
+ * Key Properties:
+ * @property userId - ID of the user whose points were changed
+ * @property adminId - ID of the platform admin or session organizer who made the change
+ * @property previousPoints - Points before the adjustment
+ * @property points - Points after the adjustment
+ * @property reason - Why the adjustment was made
+ * @property createdAt - Timestamp of the adjustment
+ */
+export interface PointAdjustment {
+  userId: string;
+  adminId: string;
+  previousPoints: number;
+  points: number;
+  reason: string;
+  createdAt: number;
 }
 
 /**
- * Verification object representing the verification status of an artifact found by a user
+ * Verification object representing the verification status of an artifact found by a user.
+ * The find is only credited to the user once a session organizer or admin approves it.
  * 
  * Key Properties:
  * @property userId - ID of the user who found the artifact
@@ -175,15 +275,73 @@ export interface Artifact {
  * @property photoUrl - URL of the photo submitted for verification
  * @property status - Verification status ('pending', 'approved', 'rejected')
  * @property submittedAt - Timestamp of when the verification was submitted
+ * @property reviewedBy - ID of the organizer or admin who approved or rejected it
+ * @property reviewedAt - Timestamp of the review
+ * @property rejectionReason - Why the submission was rejected, shown to the player
  */
-// export interface Verification {
-//   userId: string;
-//   artifactId: string;
-//   sessionId: string;
-//   photoUrl?: string;
-//   status: 'pending' | 'approved' | 'rejected';
-//   submittedAt: number;
-// }
+export interface Verification {
+  userId: string;
+  artifactId: string;
+  sessionId: string;
+  photoUrl?: string;
+  status: 'pending' | 'approved' | 'rejected';
+  submittedAt: number;
+  reviewedBy?: string;
+  reviewedAt?: number;
+  rejectionReason?: string;
+}
+
+/**
+ * Reusable setup for a session: its artifacts, team layout and timing
+ * 
+ * Sessions created from a template share its artifacts and get new teams (with fresh
+ * IDs, since teams belong to one session) named after the template's.
+ * 
+ * Key Properties:
+ * @property templateName - Display name for the template
+ * @property creatorId - User who created the template and may edit or delete it
+ * @property sessionName - Name given to sessions created from the template
+ * @property startOffset - Milliseconds from creating a session to its start time
+ * @property duration - Length of the session in milliseconds; 0 leaves the times unset
+ * @property artifacts - Map of artifact IDs to boolean, like Session.artifacts
+ * @property teams - Map of team slots to the name of the team created for each
+ * @property createdAt - Creation timestamp
+ */
+export interface SessionTemplate {
+  templateName: string;
+  creatorId: string;
+  sessionName: string;
+  startOffset: number;
+  duration: number;
+  artifacts: { [artifactId: string]: boolean };
+  teams: { [slot: string]: string };
+  createdAt: number;
+}
+
+/**
+ * Short code that lets players join a session, and optionally a team, without its ID
+ * 
+ * Invites are stored under their code, which players type in or scan as a
+ * `myapp://join?code=` link. Each player can redeem an invite once.
+ * 
+ * Key Properties:
+ * @property sessionId - Session the invite joins
+ * @property teamId - Team in that session the invite also joins, if any
+ * @property creatorId - Organizer or admin who created the invite
+ * @property createdAt - Creation timestamp
+ * @property expiresAt - Time after which the invite no longer works; 0 if it never expires
+ * @property maxUses - Number of players who may redeem the invite; 0 for no limit
+ * @property redemptions - Map of user IDs to when they redeemed the invite
+ */
+export interface Invite {
+  sessionId: string;
+  teamId?: string;
+  creatorId: string;
+  createdAt: number;
+  expiresAt: number;
+  maxUses: number;
+  redemptions: { [userId: string]: number };
+}
 
 /**
  * Complete database schema definition
@@ -193,6 +351,12 @@ export interface Artifact {
  * @property sessions - All session objects indexed by ID
  * @property teams - All team objects indexed by ID
  * @property artifacts - All artifact objects indexed by ID
+ * @property pointAdjustments - Point adjustment audit log, indexed by session ID then adjustment ID
+ * @property verifications - Photo verifications of artifact finds indexed by ID
+ * @property templates - Session templates indexed by ID
+ * @property invites - Session invites indexed by invite code
+ * @property schemaVersion - Version of the last migration applied (see services/migrations);
+ *   missing before any has run
 
  */
 export interface DatabaseSchema {
@@ -200,5 +364,9 @@ export interface DatabaseSchema {
   sessions: { [key: string]: Session };
   teams: { [key: string]: Team };
   artifacts: { [key: string]: Artifact };
-  // verifications: { [key: string]: Verification };
+  pointAdjustments: { [sessionId: string]: { [adjustmentId: string]: PointAdjustment } };
+  verifications: { [key: string]: Verification };
+  templates: { [key: string]: SessionTemplate };
+  invites: { [code: string]: Invite };
+  schemaVersion?: number;
 }
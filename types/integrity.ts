@@ -0,0 +1,53 @@
+/**
+ * Integrity check reports
+ *
+ * Relationships are stored on both sides (`Session.participants` and
+ * `User.sessionsJoined`, `Session.teams` and `Team.sessionId`, `Team.members` and the
+ * team IDs in `Session.participants` and `User.sessionsJoined[].teamId`), so a failed
+ * or hand-made write can leave the two sides disagreeing. The integrity check finds
+ * every such disagreement and how to fix it. Team rosters (`Team.members`) are taken as
+ * the truth for who is on which team.
+ */
+
+export type IntegrityIssueKind =
+  // A user, session, team or artifact is referenced but does not exist
+  | 'missing-reference'
+  // Team.sessionId and Session.teams disagree
+  | 'team-session-mismatch'
+  // A participant has no session record on their user, or the other way round
+  | 'session-membership-mismatch'
+  // A team member is not part of the team's session, or the team has no session
+  | 'member-outside-session'
+  // The team a participant is recorded on does not match the team rosters
+  | 'team-assignment-mismatch';
+
+/**
+ * A single inconsistency and the entities it involves
+ *
+ * @property repairs - Multi-path update (relative to the base node) that fixes the issue
+ */
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  message: string;
+  userId?: string;
+  sessionId?: string;
+  teamId?: string;
+  artifactId?: string;
+  repairs: { [path: string]: any };
+}
+
+/**
+ * Result of an integrity check
+ *
+ * @property repaired - True when the repairs of all issues were written
+ * @property issues - Every inconsistency found, in the order they were checked
+ */
+export interface IntegrityReport {
+  repaired: boolean;
+  issues: IntegrityIssue[];
+}
+
+export interface IntegrityOptions {
+  /** Write the repairs of every issue found in one atomic update */
+  repair?: boolean;
+}
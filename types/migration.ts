@@ -0,0 +1,60 @@
+/**
+ * Schema migrations
+ *
+ * Each migration moves the data under a base node from one schema version to the next
+ * (`up`) and back (`down`). The version of the last migration applied is stored at
+ * `schemaVersion` under the base node; data without it is at version 0.
+ */
+
+/** The raw data under a base node, as stored */
+export type MigrationData = { [node: string]: any };
+
+/**
+ * A single versioned schema change
+ *
+ * @property version - Schema version the data is at once `up` has run; one more than
+ *   the previous migration's
+ * @property up - Returns the multi-path update (relative to the base node) that
+ *   applies the change
+ * @property down - Returns the multi-path update that undoes it, as far as possible
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up(data: MigrationData): { [path: string]: any };
+  down(data: MigrationData): { [path: string]: any };
+}
+
+/**
+ * One migration run (or planned, in a dry run)
+ *
+ * @property updates - The multi-path update written for the step, including the new
+ *   schema version
+ */
+export interface MigrationStep {
+  version: number;
+  description: string;
+  direction: 'up' | 'down';
+  updates: { [path: string]: any };
+}
+
+/**
+ * Result of a migration run
+ *
+ * @property dryRun - True when nothing was written
+ * @property fromVersion - Schema version before the run
+ * @property toVersion - Schema version after the run
+ * @property steps - Migrations in the order they were (or would be) applied
+ */
+export interface MigrationReport {
+  dryRun: boolean;
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStep[];
+}
+
+export interface MigrationOptions {
+  /** Version to migrate to; the latest by default */
+  to?: number;
+  dryRun?: boolean;
+}
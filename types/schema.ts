@@ -0,0 +1,347 @@
+/**
+ * Runtime description of the database schema
+ *
+ * Mirrors the interfaces in types/database.ts node by node so tooling can reason about
+ * the stored data: services/rules generates the Realtime Database security rules from it,
+ * and services/validation checks and normalizes every node the services read and write.
+ * Object descriptors are typed against their interface, so adding a field to an interface
+ * without describing it here fails to compile.
+ *
+ * Access:
+ * Each node can list the roles allowed to write it. A grant on a node covers everything
+ * below it, as in the database's own rules; deeper grants only add writers.
+ */
+
+import {
+  Artifact,
+  DatabaseSchema,
+  Invite,
+  PointAdjustment,
+  Session,
+  SessionTemplate,
+  Team,
+  User,
+  Verification
+} from './database';
+
+/**
+ * Where a role check finds the ID it compares against
+ *
+ * - wildcard: the value of a `$wildcard` segment in the node's path
+ * - child: a child of the node, as currently stored, or as written with `snapshot: 'newData'`
+ * - sibling: a sibling of the node, likewise
+ * - value: the node's own value before (`data`) or after (`newData`) the write
+ */
+export type SchemaRef =
+  | { wildcard: string }
+  | { child: string; snapshot?: 'data' | 'newData' }
+  | { sibling: string; snapshot?: 'data' | 'newData' }
+  | { value: 'data' | 'newData' };
+
+/**
+ * A role allowed to write a node
+ *
+ * - owner: the user named in the node's `field`, or in the new node's when creating it
+ * - creator: like owner, but only while creating the node
+ * - remover: like owner, but only while deleting the node
+ */
+export type AccessGrant =
+  | { role: 'authenticated' }
+  | { role: 'admin' }
+  | { role: 'self'; user: SchemaRef }
+  | { role: 'owner'; field: string }
+  | { role: 'creator'; field: string }
+  | { role: 'remover'; field: string }
+  | { role: 'organizer'; session: SchemaRef }
+  | { role: 'captain'; team: SchemaRef };
+
+interface NodeSchemaBase {
+  /** Whether the node may be missing; maps are always optional since empty ones are pruned */
+  optional?: boolean;
+  read?: AccessGrant[];
+  write?: AccessGrant[];
+}
+
+export interface ValueSchema extends NodeSchemaBase {
+  type: 'string' | 'number' | 'boolean';
+  enum?: readonly string[];
+  /** Once set, the value can only be removed with its node, never changed */
+  immutable?: boolean;
+  /**
+   * The value must start out as `initial` and only the listed roles may change it; without
+   * an `initial`, only they may set it at all
+   */
+  restricted?: { initial?: string | number | boolean; by: AccessGrant[] };
+  /** Unless the value is empty, the nodes it links to must agree with it as written */
+  links?: SchemaLink[];
+}
+
+/**
+ * A node elsewhere in the database that a value refers to. `path` runs from the top of
+ * the schema, with `$wildcards` from the value's own path filled in and `{value}`
+ * standing for the value; the node must hold `equals`, or the value itself without one.
+ */
+export interface SchemaLink {
+  path: string;
+  equals?: string | number | boolean;
+}
+
+export interface ObjectSchema<T = any> extends NodeSchemaBase {
+  type: 'object';
+  fields: { [K in keyof T]-?: NodeSchema };
+}
+
+export interface MapSchema extends NodeSchemaBase {
+  type: 'map';
+  /** Wildcard naming the map's keys, e.g. '$userId' */
+  key: string;
+  values: NodeSchema;
+  /** Child fields of the values that queries order or filter by */
+  indexOn?: string[];
+  /** The map must be empty when the node holding it is created, unless these roles create it */
+  emptyOnCreate?: AccessGrant[];
+}
+
+export type NodeSchema = ValueSchema | ObjectSchema | MapSchema;
+
+/** Whether an object cannot do without the field; empty maps are pruned, so never are */
+export function isRequired(schema: NodeSchema): boolean {
+  return schema.type !== 'map' && !schema.optional;
+}
+
+const admin: AccessGrant = { role: 'admin' };
+
+const stringValue: ValueSchema = { type: 'string' };
+const numberValue: ValueSchema = { type: 'number' };
+const booleanValue: ValueSchema = { type: 'boolean' };
+const optional = (schema: ValueSchema): ValueSchema => ({ ...schema, optional: true });
+const mapOf = (key: string, values: NodeSchema): MapSchema => ({ type: 'map', key, values });
+
+/** Who may score a player: finds in range can't be checked by rules, so players never do */
+const scorers: AccessGrant[] = [{ role: 'organizer', session: { wildcard: '$sessionId' } }, admin];
+const scored = (schema: ValueSchema): ValueSchema => ({ ...schema, restricted: { by: scorers } });
+
+export const sessionProgressSchema: ObjectSchema<User['sessionsJoined'][string]> = {
+  type: 'object',
+  // Organizers credit finds and clear their session's records. Players join with no points,
+  // pick their team and leave through the grant on their own user node
+  write: [{ role: 'organizer', session: { wildcard: '$sessionId' } }],
+  fields: {
+    // Missing until the user joins a team
+    teamId: optional(stringValue),
+    points: { type: 'number', restricted: { initial: 0, by: scorers } },
+    foundArtifacts: mapOf('$artifactId', scored(booleanValue)),
+    foundArtifactPoints: mapOf('$artifactId', scored(numberValue)),
+    foundAt: mapOf('$artifactId', scored(numberValue))
+  }
+};
+
+export const userSchema: ObjectSchema<User> = {
+  type: 'object',
+  write: [{ role: 'self', user: { wildcard: '$userId' } }, admin],
+  fields: {
+    displayName: stringValue,
+    email: stringValue,
+    profilePictureUrl: optional(stringValue),
+    currentSession: {
+      type: 'string',
+      optional: true,
+      // Cleared by the organizer when the session is dissolved
+      write: [{ role: 'organizer', session: { value: 'data' } }]
+    },
+    sessionsJoined: mapOf('$sessionId', sessionProgressSchema),
+    isAdmin: { type: 'boolean', restricted: { initial: false, by: [admin] } },
+    createdAt: optional(numberValue),
+    // Touched by whoever changes the user's session records
+    updatedAt: { type: 'number', optional: true, write: [{ role: 'authenticated' }] }
+  }
+};
+
+export const sessionSchema: ObjectSchema<Session> = {
+  type: 'object',
+  write: [{ role: 'owner', field: 'creatorId' }, admin],
+  fields: {
+    sessionName: stringValue,
+    creatorId: { type: 'string', immutable: true },
+    startTime: numberValue,
+    endTime: numberValue,
+    // Missing on sessions created before statuses existed
+    status: {
+      type: 'string',
+      optional: true,
+      enum: ['draft', 'scheduled', 'running', 'paused', 'ended', 'archived']
+    },
+    isActive: booleanValue,
+    maxTeamSize: optional(numberValue),
+    teams: mapOf('$teamId', booleanValue),
+    participants: mapOf('$participantId', {
+      type: 'string',
+      // Players join, pick their team and leave themselves; the team must be one of the
+      // session's, and the player on it
+      write: [{ role: 'self', user: { wildcard: '$participantId' } }],
+      links: [
+        { path: 'sessions/$sessionId/teams/{value}', equals: true },
+        { path: 'teams/{value}/members/$participantId', equals: true },
+        { path: 'users/$participantId/sessionsJoined/$sessionId/teamId' }
+      ]
+    }),
+    artifacts: mapOf('$artifactId', booleanValue)
+  }
+};
+
+const attachers: AccessGrant[] = [
+  { role: 'organizer', session: { value: 'newData' } },
+  { role: 'organizer', session: { value: 'data' } }
+];
+const captain: AccessGrant = { role: 'captain', team: { wildcard: '$teamId' } };
+
+export const teamSchema: ObjectSchema<Team> = {
+  type: 'object',
+  // Players create teams they captain; the captain then only names the team and hands it on
+  write: [
+    { role: 'creator', field: 'captainId' },
+    { role: 'organizer', session: { child: 'sessionId' } },
+    admin
+  ],
+  fields: {
+    sessionId: {
+      type: 'string',
+      // The organizer attaches the team to their session and detaches it again
+      write: attachers,
+      restricted: { initial: '', by: attachers }
+    },
+    teamName: { type: 'string', write: [captain] },
+    members: {
+      ...mapOf('$memberId', {
+        type: 'boolean',
+        write: [{ role: 'self', user: { wildcard: '$memberId' } }]
+      }),
+      // Players' new teams start out empty; organizers may create them with a roster
+      emptyOnCreate: [{ role: 'organizer', session: { sibling: 'sessionId', snapshot: 'newData' } }, admin]
+    },
+    captainId: { type: 'string', optional: true, write: [captain] }
+  }
+};
+
+export const artifactSchema: ObjectSchema<Artifact> = {
+  type: 'object',
+  write: [{ role: 'owner', field: 'creatorId' }, admin],
+  fields: {
+    name: stringValue,
+    description: stringValue,
+    locationHint: stringValue,
+    latitude: numberValue,
+    longitude: numberValue,
+    isChallenge: booleanValue,
+    // Missing on artifacts created before scoring existed
+    points: optional(numberValue),
+    challengeBonus: optional(numberValue),
+    claimRadius: optional(numberValue),
+    imageUrl: optional(stringValue),
+    audioUrl: optional(stringValue),
+    creatorId: { type: 'string', optional: true, immutable: true }
+  }
+};
+
+export const pointAdjustmentSchema: ObjectSchema<PointAdjustment> = {
+  type: 'object',
+  fields: {
+    userId: stringValue,
+    adminId: stringValue,
+    previousPoints: numberValue,
+    points: numberValue,
+    reason: stringValue,
+    createdAt: numberValue
+  }
+};
+
+export const verificationSchema: ObjectSchema<Verification> = {
+  type: 'object',
+  // Players file their own verifications and delete them along with their account
+  write: [
+    { role: 'creator', field: 'userId' },
+    { role: 'remover', field: 'userId' },
+    { role: 'organizer', session: { child: 'sessionId' } },
+    admin
+  ],
+  fields: {
+    userId: { type: 'string', immutable: true },
+    artifactId: { type: 'string', immutable: true },
+    sessionId: { type: 'string', immutable: true },
+    photoUrl: optional(stringValue),
+    status: {
+      type: 'string',
+      enum: ['pending', 'approved', 'rejected'],
+      restricted: {
+        initial: 'pending',
+        by: [{ role: 'organizer', session: { sibling: 'sessionId' } }, admin]
+      }
+    },
+    submittedAt: numberValue,
+    reviewedBy: optional(stringValue),
+    reviewedAt: optional(numberValue),
+    rejectionReason: optional(stringValue)
+  }
+};
+
+export const templateSchema: ObjectSchema<SessionTemplate> = {
+  type: 'object',
+  write: [{ role: 'owner', field: 'creatorId' }, admin],
+  fields: {
+    templateName: stringValue,
+    creatorId: { type: 'string', immutable: true },
+    sessionName: stringValue,
+    startOffset: numberValue,
+    duration: numberValue,
+    artifacts: mapOf('$artifactId', booleanValue),
+    teams: mapOf('$slot', stringValue),
+    createdAt: numberValue
+  }
+};
+
+export const inviteSchema: ObjectSchema<Invite> = {
+  type: 'object',
+  write: [
+    { role: 'organizer', session: { child: 'sessionId' } },
+    { role: 'organizer', session: { child: 'sessionId', snapshot: 'newData' } },
+    admin
+  ],
+  fields: {
+    sessionId: { type: 'string', immutable: true },
+    teamId: optional(stringValue),
+    creatorId: { type: 'string', immutable: true },
+    createdAt: numberValue,
+    expiresAt: numberValue,
+    maxUses: numberValue,
+    // Players record their own redemption; rules cannot count them against maxUses
+    redemptions: mapOf('$userId', {
+      ...numberValue,
+      write: [{ role: 'self', user: { wildcard: '$userId' } }]
+    })
+  }
+};
+
+export const databaseSchema: ObjectSchema<DatabaseSchema> = {
+  type: 'object',
+  read: [{ role: 'authenticated' }],
+  fields: {
+    users: { ...mapOf('$userId', userSchema), indexOn: ['email'] },
+    sessions: { ...mapOf('$sessionId', sessionSchema), indexOn: ['creatorId', 'status'] },
+    teams: { ...mapOf('$teamId', teamSchema), indexOn: ['sessionId'] },
+    artifacts: mapOf('$artifactId', artifactSchema),
+    // Each session's log is written by that session's organizer
+    pointAdjustments: mapOf('$sessionId', {
+      ...mapOf('$adjustmentId', pointAdjustmentSchema),
+      indexOn: ['userId'],
+      write: [{ role: 'organizer', session: { wildcard: '$sessionId' } }, admin]
+    }),
+    verifications: {
+      ...mapOf('$verificationId', verificationSchema),
+      indexOn: ['userId', 'status', 'sessionId']
+    },
+    templates: { ...mapOf('$templateId', templateSchema), indexOn: ['creatorId'] },
+    invites: { ...mapOf('$inviteCode', inviteSchema), indexOn: ['sessionId'] },
+    // Only changed by the migration runner
+    schemaVersion: { type: 'number', optional: true, write: [admin] }
+  }
+};
@@ -0,0 +1,143 @@
+/**
+ * Bulk import and export
+ *
+ * Hunts planned in a spreadsheet are imported into a session a table at a time:
+ * artifacts, then team rosters. A session's full state exports to the same tables, so
+ * an export can be edited and imported into another session. In CSV each table has a
+ * header row naming its columns; in JSON a table is an array of objects with the same
+ * keys, and an exported session is an object holding every table.
+ *
+ * A session's artifacts can also be exported and imported as a map: a GeoJSON
+ * FeatureCollection of points or a GPX file of waypoints, for designing routes in
+ * standard mapping tools.
+ */
+
+import { SessionStatus } from './database';
+
+export type TransferFormat = 'csv' | 'json';
+
+export type MapFormat = 'geojson' | 'gpx';
+
+/**
+ * One artifact, as imported and exported
+ *
+ * @property artifactId - Generated on import when left blank
+ * @property points - Defaults to the standard artifact points on import
+ * @property challengeBonus - Defaults to the standard challenge bonus on import
+ */
+export interface ArtifactRow {
+  artifactId: string;
+  name: string;
+  description: string;
+  locationHint: string;
+  latitude: number;
+  longitude: number;
+  isChallenge: boolean;
+  points: number;
+  challengeBonus: number;
+  claimRadius?: number;
+  imageUrl?: string;
+  audioUrl?: string;
+}
+
+/**
+ * One player's place on a team; a row without a user lists an empty team
+ *
+ * @property teamId - Ignored on import, where teams are matched by name
+ */
+export interface RosterRow {
+  teamId: string;
+  teamName: string;
+  userId: string;
+}
+
+/**
+ * @property teamId - Empty while the player is not on a team
+ * @property points - The player's points in the session
+ */
+export interface ParticipantRow {
+  userId: string;
+  displayName: string;
+  teamId: string;
+  points: number;
+}
+
+/**
+ * An artifact found by a player
+ *
+ * @property points - Points credited for the find
+ * @property foundAt - When the find happened; 0 for finds recorded before timestamps
+ */
+export interface FindRow {
+  userId: string;
+  artifactId: string;
+  points: number;
+  foundAt: number;
+}
+
+/**
+ * A session's full state, as exported to JSON
+ */
+export interface SessionExport {
+  sessionId: string;
+  sessionName: string;
+  creatorId: string;
+  startTime: number;
+  endTime: number;
+  status: SessionStatus;
+  artifacts: ArtifactRow[];
+  roster: RosterRow[];
+  participants: ParticipantRow[];
+  finds: FindRow[];
+}
+
+/**
+ * An artifact as a GeoJSON point feature. The feature's `id` is the artifact ID and its
+ * properties are the artifact's other fields.
+ */
+export interface ArtifactFeature {
+  type: 'Feature';
+  id: string;
+  geometry: { type: 'Point'; coordinates: [longitude: number, latitude: number] };
+  properties: Omit<ArtifactRow, 'artifactId' | 'latitude' | 'longitude'>;
+}
+
+export interface ArtifactFeatureCollection {
+  type: 'FeatureCollection';
+  features: ArtifactFeature[];
+}
+
+/** The tables of an exported session, as CSV text */
+export type SessionCsvExport = { [table in 'artifacts' | 'roster' | 'participants' | 'finds']: string };
+
+/**
+ * A problem with one row of an imported table
+ *
+ * @property row - The line of the CSV file the row starts on (the row right after the
+ *   header is on line 2), or its position in a JSON array, GeoJSON feature list or GPX
+ *   file counting from 1
+ * @property column - The column holding the bad value
+ */
+export interface RowError {
+  row: number;
+  column: string;
+  message: string;
+}
+
+/**
+ * Result of an import
+ *
+ * @property dryRun - True when nothing was written
+ * @property rows - Number of rows imported (or checked, in a dry run)
+ * @property created - IDs of the artifacts or teams the import created
+ */
+export interface ImportReport {
+  dryRun: boolean;
+  rows: number;
+  created: string[];
+}
+
+export interface ImportOptions {
+  /** Validate the table and report what would be created without writing anything */
+  dryRun?: boolean;
+}